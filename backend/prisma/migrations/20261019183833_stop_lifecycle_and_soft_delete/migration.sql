@@ -0,0 +1,74 @@
+-- DropIndex
+DROP INDEX "routes_driverId_idx";
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "lastUpdatedBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "drivers" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "lastUpdatedBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "lastUpdatedBy" TEXT,
+ALTER COLUMN "latitude" SET DATA TYPE DECIMAL(10,7),
+ALTER COLUMN "longitude" SET DATA TYPE DECIMAL(10,7),
+ALTER COLUMN "orderValue" SET DATA TYPE DECIMAL(10,2);
+
+-- AlterTable
+ALTER TABLE "routes" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "lastUpdatedBy" TEXT,
+ALTER COLUMN "date" SET DATA TYPE DATE,
+ALTER COLUMN "totalDistance" SET DATA TYPE DECIMAL(10,2);
+
+-- AlterTable
+ALTER TABLE "route_stops" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "reason" TEXT,
+ALTER COLUMN "distanceFromPrevious" SET DATA TYPE DECIMAL(10,2),
+ALTER COLUMN "latitude" SET DATA TYPE DECIMAL(10,7),
+ALTER COLUMN "longitude" SET DATA TYPE DECIMAL(10,7);
+
+-- AlterTable
+ALTER TABLE "delivery_attempts" ALTER COLUMN "latitude" SET DATA TYPE DECIMAL(10,7),
+ALTER COLUMN "longitude" SET DATA TYPE DECIMAL(10,7);
+
+-- CreateIndex
+CREATE INDEX "users_email_idx" ON "users"("email");
+
+-- CreateIndex
+CREATE INDEX "users_deletedAt_idx" ON "users"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "drivers_email_idx" ON "drivers"("email");
+
+-- CreateIndex
+CREATE INDEX "drivers_status_idx" ON "drivers"("status");
+
+-- CreateIndex
+CREATE INDEX "drivers_deletedAt_idx" ON "drivers"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "orders_city_postalCode_idx" ON "orders"("city", "postalCode");
+
+-- CreateIndex
+CREATE INDEX "orders_deletedAt_idx" ON "orders"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "routes_driverId_status_idx" ON "routes"("driverId", "status");
+
+-- CreateIndex
+CREATE INDEX "routes_deletedAt_idx" ON "routes"("deletedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "routes_driverId_date_deletedAt_key" ON "routes"("driverId", "date", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "route_stops_deletedAt_idx" ON "route_stops"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "delivery_attempts_attemptedAt_idx" ON "delivery_attempts"("attemptedAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_entityType_entityId_idx" ON "audit_logs"("entityType", "entityId");
+
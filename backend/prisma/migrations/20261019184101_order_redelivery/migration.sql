@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "RedeliveryStatus" AS ENUM ('SCHEDULED', 'AWAITING_ADDRESS', 'MANUAL_REVIEW', 'RETURN_TO_SENDER');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "redeliveryCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "redeliveryStatus" "RedeliveryStatus",
+ADD COLUMN     "scheduledDate" DATE;
+
+-- CreateIndex
+CREATE INDEX "orders_redeliveryStatus_idx" ON "orders"("redeliveryStatus");
+
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "drivers" ADD COLUMN     "lastLatitude" DECIMAL(10,7),
+ADD COLUMN     "lastLocationAt" TIMESTAMP(3),
+ADD COLUMN     "lastLongitude" DECIMAL(10,7);
+
+-- CreateTable
+CREATE TABLE "driver_locations" (
+    "id" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "routeId" TEXT,
+    "latitude" DECIMAL(10,7) NOT NULL,
+    "longitude" DECIMAL(10,7) NOT NULL,
+    "accuracy" DOUBLE PRECISION,
+    "speed" DOUBLE PRECISION,
+    "heading" DOUBLE PRECISION,
+    "recordedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "driver_locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "driver_locations_driverId_recordedAt_idx" ON "driver_locations"("driverId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "driver_locations_routeId_recordedAt_idx" ON "driver_locations"("routeId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "driver_locations" ADD CONSTRAINT "driver_locations_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "drivers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "driver_locations" ADD CONSTRAINT "driver_locations_routeId_fkey" FOREIGN KEY ("routeId") REFERENCES "routes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "drivers" ADD COLUMN     "homeDepotId" TEXT;
+
+-- AlterTable
+ALTER TABLE "routes" ADD COLUMN     "depotId" TEXT,
+ADD COLUMN     "returnToDepot" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "depots" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "postalCode" TEXT NOT NULL,
+    "latitude" DECIMAL(10,7) NOT NULL,
+    "longitude" DECIMAL(10,7) NOT NULL,
+    "operatingHours" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "deletedAt" TIMESTAMP(3),
+    "lastUpdatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "depots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "depots_isActive_idx" ON "depots"("isActive");
+
+-- CreateIndex
+CREATE INDEX "depots_deletedAt_idx" ON "depots"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "routes_depotId_idx" ON "routes"("depotId");
+
+-- AddForeignKey
+ALTER TABLE "drivers" ADD CONSTRAINT "drivers_homeDepotId_fkey" FOREIGN KEY ("homeDepotId") REFERENCES "depots"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "routes" ADD CONSTRAINT "routes_depotId_fkey" FOREIGN KEY ("depotId") REFERENCES "depots"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "drivers" ADD COLUMN     "capacityParcels" INTEGER,
+ADD COLUMN     "capacityVolumeM3" DECIMAL(8,3),
+ADD COLUMN     "capacityWeightKg" DECIMAL(8,2);
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "heightCm" DECIMAL(8,1),
+ADD COLUMN     "lengthCm" DECIMAL(8,1),
+ADD COLUMN     "parcelCount" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "weightKg" DECIMAL(8,2),
+ADD COLUMN     "widthCm" DECIMAL(8,1);
+
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "GeocodeSource" AS ENUM ('MANUAL', 'NOMINATIM', 'POSTAL_CODE');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "geocodeConfidence" DECIMAL(3,2),
+ADD COLUMN     "geocodeSource" "GeocodeSource",
+ADD COLUMN     "geocodedAt" TIMESTAMP(3);
+
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "routes" ADD COLUMN     "cancelReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
@@ -0,0 +1,9 @@
+-- DropIndex
+DROP INDEX "route_stops_orderId_key";
+
+-- AlterTable
+ALTER TABLE "route_stops" ADD COLUMN     "detachedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "route_stops_orderId_idx" ON "route_stops"("orderId");
+
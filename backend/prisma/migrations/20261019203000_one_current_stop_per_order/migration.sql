@@ -0,0 +1,3 @@
+-- An order has at most one stop that is not detached (its current stop).
+-- Partial indexes can't be declared in schema.prisma, so this one lives here only.
+CREATE UNIQUE INDEX "route_stops_orderId_current_key" ON "route_stops"("orderId") WHERE "detachedAt" IS NULL;
@@ -10,7 +10,38 @@ const envSchema = z.object({
   PORT: z.string().transform(Number).pipe(z.number().min(1000).max(65535)).default(5001),
   DATABASE_URL: z.string().url(),
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
-  JWT_EXPIRES_IN: z.string().default('7d'),
+  JWT_EXPIRES_IN: z.string().default('15m'), // Access tokens; sessions last as long as the refresh token
+  REFRESH_TOKEN_TTL_DAYS: z.coerce.number().int().positive().default(30),
+  PASSWORD_RESET_TTL_MINUTES: z.coerce.number().int().positive().default(60),
+  APP_URL: z.string().url().default('http://localhost:5173'), // Admin portal, for links in emails
+  // Outgoing email (console logs messages, file writes them to MAIL_OUTBOX_DIR)
+  MAIL_TRANSPORT: z.enum(['console', 'file']).default('console'),
+  MAIL_FROM: z.string().default('SwiftRoute <no-reply@swiftroute.local>'),
+  MAIL_OUTBOX_DIR: z.string().default('mail-outbox'),
+  // Road distances and driving times for route optimization
+  DISTANCE_PROVIDER: z.enum(['haversine', 'osrm', 'valhalla']).default('haversine'),
+  DISTANCE_PROVIDER_URL: z.string().url().optional(),
+  DISTANCE_PROVIDER_PROFILE: z.string().optional(), // OSRM profile / Valhalla costing
+  DISTANCE_PROVIDER_TIMEOUT_MS: z.coerce.number().int().positive().default(5000),
+  // Distance matrix cache (Redis when configured, in-memory otherwise)
+  REDIS_URL: z.string().url().optional(),
+  DISTANCE_CACHE_TTL_SECONDS: z.coerce.number().int().positive().default(604800),
+  DISTANCE_CACHE_PRECISION: z.coerce.number().int().min(0).max(7).default(5), // Coordinate decimals
+  // Geocoding for orders without coordinates, tried in order
+  GEOCODERS: z
+    .string()
+    .default('postal_code')
+    .transform((value) => value.split(',').map((name) => name.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(['nominatim', 'postal_code']))),
+  NOMINATIM_URL: z.string().url().default('https://nominatim.openstreetmap.org'),
+  NOMINATIM_EMAIL: z.string().email().optional(), // Contact for the public server's usage policy
+  GEOCODER_COUNTRY_CODES: z.string().optional(),   // e.g. "ca,us"
+  GEOCODER_TIMEOUT_MS: z.coerce.number().int().positive().default(5000),
+  POSTAL_CODE_CENTROIDS_FILE: z.string().optional(), // CSV: postalCode,latitude,longitude[,city]
+  DEFAULT_COUNTRY: z.string().length(2).toUpperCase().default('CA'), // Postal code format for orders without a country
+}).refine((env) => env.DISTANCE_PROVIDER === 'haversine' || env.DISTANCE_PROVIDER_URL, {
+  message: 'DISTANCE_PROVIDER_URL is required for osrm and valhalla',
+  path: ['DISTANCE_PROVIDER_URL'],
 });
 
 // Validate environment variables
@@ -0,0 +1,40 @@
+// filepath: backend/src/config/permissions.ts
+import { UserRole } from '@prisma/client';
+
+/**
+ * Permission Matrix
+ * Which roles may do what. Routes check a permission with requirePermission();
+ * the admin portal gets the current user's list from /auth/login and
+ * /auth/profile to hide actions it cannot perform.
+ *
+ * VIEWER  - read-only
+ * MANAGER - day-to-day operations: orders, drivers, planning and dispatch
+ * ADMIN   - everything, including depots, deletions of drivers and users
+ */
+
+const { ADMIN, MANAGER, VIEWER } = UserRole;
+
+export const PERMISSIONS = {
+  'orders:read': [ADMIN, MANAGER, VIEWER],
+  'orders:write': [ADMIN, MANAGER],
+  'orders:delete': [ADMIN, MANAGER],
+  'drivers:read': [ADMIN, MANAGER, VIEWER],
+  'drivers:write': [ADMIN, MANAGER],
+  'drivers:delete': [ADMIN],
+  'routes:read': [ADMIN, MANAGER, VIEWER],
+  'routes:write': [ADMIN, MANAGER], // Create, plan, optimize, dispatch, stop updates
+  'routes:delete': [ADMIN, MANAGER],
+  'depots:read': [ADMIN, MANAGER, VIEWER],
+  'depots:write': [ADMIN],
+  'audit:read': [ADMIN, MANAGER],
+  'users:manage': [ADMIN],
+} satisfies Record<string, UserRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const rolesWithPermission = (permission: Permission): UserRole[] => PERMISSIONS[permission];
+
+export const permissionsForRole = (role: string): Permission[] =>
+  (Object.keys(PERMISSIONS) as Permission[]).filter((permission) =>
+    (PERMISSIONS[permission] as string[]).includes(role)
+  );
@@ -0,0 +1,33 @@
+// filepath: backend/src/config/priorityPolicy.ts
+import { Priority } from '@prisma/client';
+
+/**
+ * Priority Sequencing Policy
+ * How strongly the optimizer pulls high-priority stops to the front of a route.
+ * Penalties are in minutes of driving the optimizer may trade for them.
+ */
+
+export interface PriorityRule {
+  maxPosition?: number;    // Should be within the first N stops
+  cutoffTime?: string;     // Should be served by "HH:MM"
+  positionPenalty: number; // Per stop beyond maxPosition
+  latePenalty: number;     // Per minute past the cutoff
+}
+
+export type PriorityPolicy = Record<Priority, PriorityRule | null>;
+
+export const priorityPolicy: PriorityPolicy = {
+  URGENT: {
+    maxPosition: parseInt(process.env.URGENT_MAX_POSITION || '3'),
+    cutoffTime: process.env.URGENT_CUTOFF_TIME || '12:00',
+    positionPenalty: 30,
+    latePenalty: 5,
+  },
+  HIGH: {
+    maxPosition: parseInt(process.env.HIGH_MAX_POSITION || '8'),
+    positionPenalty: 10,
+    latePenalty: 2,
+  },
+  NORMAL: null,
+  LOW: null,
+};
@@ -0,0 +1,35 @@
+// filepath: backend/src/config/redis.ts
+import Redis from 'ioredis';
+import env from './env';
+
+/**
+ * Shared Redis connection
+ * Optional: without REDIS_URL this is null and callers keep their data in memory.
+ * Commands fail fast while disconnected instead of queueing.
+ */
+
+const redis: Redis | null = env.REDIS_URL
+  ? new Redis(env.REDIS_URL, {
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+    })
+  : null;
+
+// Log each outage once, not every reconnect attempt
+let available = true;
+
+redis?.on('ready', () => {
+  available = true;
+  console.log('✅ Redis connected successfully');
+});
+
+redis?.on('error', (error) => {
+  if (available) console.error('❌ Redis unavailable:', error.message);
+  available = false;
+});
+
+export function closeRedis(): void {
+  redis?.disconnect();
+}
+
+export default redis;
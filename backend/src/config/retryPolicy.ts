@@ -0,0 +1,30 @@
+// filepath: backend/src/config/retryPolicy.ts
+import { AttemptResult } from '@prisma/client';
+
+/**
+ * Re-delivery Retry Policy
+ * Decides what happens to an order after a failed delivery
+ */
+
+export type FailedAttemptResult = Exclude<AttemptResult, 'SUCCESS'>;
+
+export interface RetryRule {
+  retry: boolean;                  // Reschedule automatically
+  requiresAddressChange?: boolean; // Hold until the order address is edited
+  maxAttempts?: number;            // Overrides the policy-wide limit
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;             // Total delivery attempts before return-to-sender
+  rules: Record<FailedAttemptResult, RetryRule>;
+}
+
+export const retryPolicy: RetryPolicy = {
+  maxAttempts: parseInt(process.env.REDELIVERY_MAX_ATTEMPTS || '3'),
+  rules: {
+    FAILED_NO_ANSWER: { retry: true },
+    FAILED_REFUSED: { retry: true, maxAttempts: 2 },
+    FAILED_WRONG_ADDRESS: { retry: true, requiresAddressChange: true },
+    FAILED_OTHER: { retry: false },
+  },
+};
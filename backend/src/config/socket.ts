@@ -0,0 +1,94 @@
+// filepath: backend/src/config/socket.ts
+import { Server as HttpServer } from 'http';
+import { Server } from 'socket.io';
+import { verifyToken } from '../utils/jwt';
+
+/**
+ * Real-time events for the admin portal
+ * Clients authenticate with the same JWT as the REST API. A socket is dropped
+ * when its token expires (the client reconnects with a refreshed one) and when
+ * its user is deactivated or deleted.
+ */
+
+export type SocketEvent =
+  | 'order:created'
+  | 'order:updated'
+  | 'driver:statusChanged'
+  | 'driver:location'
+  | 'route:started'
+  | 'route:updated'
+  | 'route:completed'
+  | 'route:cancelled';
+
+let io: Server | null = null;
+
+// Longest delay setTimeout accepts (~24.8 days)
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const userRoom = (userId: string): string => `user:${userId}`;
+
+export function initSocket(server: HttpServer): Server {
+  io = new Server(server, {
+    cors: {
+      origin: process.env.FRONTEND_URL || '*',
+    },
+  });
+
+  // JWT handshake: token from auth payload or Authorization header
+  io.use((socket, next) => {
+    try {
+      const authHeader = socket.handshake.headers.authorization;
+      const token = socket.handshake.auth?.token || (authHeader && authHeader.split(' ')[1]);
+
+      if (!token) {
+        next(new Error('Access token required'));
+        return;
+      }
+
+      socket.data.user = verifyToken(token);
+      next();
+    } catch (error) {
+      next(new Error('Invalid or expired token'));
+    }
+  });
+
+  io.on('connection', (socket) => {
+    const { userId, email, exp } = socket.data.user;
+    console.log(`🔌 Socket connected: ${email} (${socket.id})`);
+
+    socket.join(userRoom(userId));
+
+    // Drop the socket when its token expires (exp is in seconds)
+    const expiry =
+      typeof exp === 'number'
+        ? setTimeout(() => socket.disconnect(true), Math.min(Math.max(exp * 1000 - Date.now(), 0), MAX_TIMER_MS))
+        : undefined;
+
+    socket.on('disconnect', (reason) => {
+      clearTimeout(expiry);
+      console.log(`🔌 Socket disconnected: ${socket.id} (${reason})`);
+    });
+  });
+
+  return io;
+}
+
+/**
+ * Broadcast an event to all connected clients
+ * No-op until initSocket has run, so controllers can emit unconditionally
+ */
+export function emitEvent(event: SocketEvent, data: unknown): void {
+  io?.emit(event, data);
+}
+
+/**
+ * Drop every socket of a user, e.g. once they are deactivated
+ */
+export function disconnectUser(userId: string): void {
+  io?.in(userRoom(userId)).disconnectSockets(true);
+}
+
+export function closeSocket(): void {
+  io?.close();
+  io = null;
+}
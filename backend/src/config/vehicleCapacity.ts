@@ -0,0 +1,21 @@
+// filepath: backend/src/config/vehicleCapacity.ts
+import { VehicleType } from '@prisma/client';
+
+/**
+ * Default Vehicle Capacities
+ * Used when a driver has no capacity of their own on record
+ */
+
+export interface Capacity {
+  weightKg: number;
+  volumeM3: number;
+  parcels: number;
+}
+
+export const DEFAULT_VEHICLE_CAPACITY: Record<VehicleType, Capacity> = {
+  BIKE: { weightKg: 15, volumeM3: 0.05, parcels: 10 },
+  SCOOTER: { weightKg: 30, volumeM3: 0.1, parcels: 15 },
+  CAR: { weightKg: 300, volumeM3: 0.5, parcels: 40 },
+  VAN: { weightKg: 1000, volumeM3: 6, parcels: 120 },
+  TRUCK: { weightKg: 5000, volumeM3: 30, parcels: 400 },
+};
@@ -0,0 +1,73 @@
+// filepath: backend/src/controllers/auditLogController.ts
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import { Prisma } from '@prisma/client';
+
+// Get audit log entries with filtering and pagination (newest first)
+export const getAuditLogs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      page = '1',
+      limit = '50',
+      userId,
+      entityType,
+      entityId,
+      action,
+      from,
+      to,
+    } = req.query;
+
+    const pageNum = parseInt(page as string);
+    const limitNum = Math.min(parseInt(limit as string), 200);
+    const skip = (pageNum - 1) * limitNum;
+
+    const fromDate = from ? new Date(from as string) : undefined;
+    const toDate = to ? new Date(to as string) : undefined;
+
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      res.status(400).json({ error: 'from and to must be valid dates' });
+      return;
+    }
+
+    // Build filter conditions
+    const where: Prisma.AuditLogWhereInput = {};
+
+    if (userId) where.userId = userId as string;
+    if (entityType) where.entityType = entityType as string;
+    if (entityId) where.entityId = entityId as string;
+    if (action) where.action = { in: (action as string).split(',') };
+    if (fromDate || toDate) where.createdAt = { gte: fromDate, lte: toDate };
+
+    const [auditLogs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    res.json({
+      auditLogs,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get audit logs error:', error);
+    res.status(500).json({ error: 'Failed to fetch audit logs' });
+  }
+};
@@ -1,12 +1,29 @@
 import { Request, Response } from 'express';
 import prisma from '../config/database';
-import { hashPassword, comparePassword } from '../utils/password';
+import { Prisma, UserRole } from '@prisma/client';
+import env from '../config/env';
+import { hashPassword, comparePassword, validatePasswordStrength } from '../utils/password';
 import { generateToken } from '../utils/jwt';
+import { recordAudit } from '../utils/audit';
+import { getMailer } from '../utils/mailer';
+import { permissionsForRole } from '../config/permissions';
+import {
+  issueRefreshToken,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeUserRefreshTokens,
+} from '../utils/refreshToken';
+import { issuePasswordResetToken, findPasswordResetUser, resetPasswordWithToken } from '../utils/passwordReset';
 
-// Register new user
+const tokenContext = (req: Request) => ({
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+// Register the first (admin) user; everyone else is invited via /api/users
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email, password, name, role } = req.body;
+    const { email, password, name } = req.body;
 
     // Validate input
     if (!email || !password || !name) {
@@ -14,35 +31,62 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Check if user already exists
-    const existingUser = await prisma.user.findUnique({
-      where: { email },
-    });
+    if ((await prisma.user.count()) > 0) {
+      res.status(403).json({ error: 'Registration is closed. Ask an administrator for an invite.' });
+      return;
+    }
 
-    if (existingUser) {
-      res.status(409).json({ error: 'User with this email already exists' });
+    const passwordErrors = validatePasswordStrength(password, { email, name });
+    if (passwordErrors.length > 0) {
+      res.status(400).json({ error: passwordErrors.join('; ') });
       return;
     }
 
     // Hash password
     const hashedPassword = await hashPassword(password);
 
-    // Create user
-    const user = await prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        name,
-        role: role || 'ADMIN',
-      },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        isActive: true,
-        createdAt: true,
+    // Only one registration can win: the count and the create run serializably,
+    // so a concurrent second request sees the first user or fails to commit
+    const user = await prisma.$transaction(
+      async (tx) => {
+        if ((await tx.user.count()) > 0) return null;
+
+        return tx.user.create({
+          data: {
+            email,
+            password: hashedPassword,
+            name,
+            role: UserRole.ADMIN,
+          },
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            role: true,
+            isActive: true,
+            createdAt: true,
+          },
+        });
       },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    ).catch((error) => {
+      // Lost to a concurrent registration: serialization failure, or the same email
+      const lostRace = ['P2034', 'P2002'];
+      if (error instanceof Prisma.PrismaClientKnownRequestError && lostRace.includes(error.code)) return null;
+      throw error;
+    });
+
+    if (!user) {
+      res.status(403).json({ error: 'Registration is closed. Ask an administrator for an invite.' });
+      return;
+    }
+
+    await recordAudit(req, {
+      userId: user.id,
+      action: 'USER_REGISTERED',
+      entityType: 'User',
+      entityId: user.id,
+      after: user,
     });
 
     res.status(201).json({
@@ -71,13 +115,27 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       where: { email },
     });
 
-    if (!user) {
+    if (!user || user.deletedAt) {
+      await recordAudit(req, {
+        userId: user?.id,
+        action: 'LOGIN_FAILED',
+        entityType: 'User',
+        entityId: user?.id,
+        details: { email, reason: user ? 'deleted' : 'unknown_email' },
+      });
       res.status(401).json({ error: 'Invalid email or password' });
       return;
     }
 
     // Check if user is active
     if (!user.isActive) {
+      await recordAudit(req, {
+        userId: user.id,
+        action: 'LOGIN_FAILED',
+        entityType: 'User',
+        entityId: user.id,
+        details: { email, reason: 'inactive' },
+      });
       res.status(403).json({ error: 'Account is inactive' });
       return;
     }
@@ -86,25 +144,38 @@ export const login = async (req: Request, res: Response): Promise<void> => {
     const isValidPassword = await comparePassword(password, user.password);
 
     if (!isValidPassword) {
+      await recordAudit(req, {
+        userId: user.id,
+        action: 'LOGIN_FAILED',
+        entityType: 'User',
+        entityId: user.id,
+        details: { email, reason: 'wrong_password' },
+      });
       res.status(401).json({ error: 'Invalid email or password' });
       return;
     }
 
-    // Generate JWT token
+    // Short-lived access token plus a refresh token for new ones
     const token = generateToken({
       userId: user.id,
       email: user.email,
       role: user.role,
     });
+    const refreshToken = await issueRefreshToken(user.id, tokenContext(req));
+
+    await recordAudit(req, { userId: user.id, action: 'LOGIN', entityType: 'User', entityId: user.id });
 
     res.json({
       message: 'Login successful',
       token,
+      refreshToken: refreshToken.token,
+      refreshTokenExpiresAt: refreshToken.expiresAt,
       user: {
         id: user.id,
         email: user.email,
         name: user.name,
         role: user.role,
+        permissions: permissionsForRole(user.role),
       },
     });
   } catch (error) {
@@ -113,6 +184,238 @@ export const login = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+// Exchange a refresh token for a new access token (the refresh token rotates)
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      res.status(400).json({ error: 'Refresh token is required' });
+      return;
+    }
+
+    const result = await rotateRefreshToken(refreshToken, tokenContext(req));
+
+    if (result.status === 'reused') {
+      await recordAudit(req, { action: 'REFRESH_TOKEN_REUSED', entityType: 'User' });
+      res.status(401).json({ error: 'Refresh token was already used. Please sign in again.' });
+      return;
+    }
+
+    if (result.status === 'invalid') {
+      res.status(401).json({ error: 'Invalid or expired refresh token' });
+      return;
+    }
+
+    const { user } = result;
+
+    // Role changes apply from the next refresh
+    const token = generateToken({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+    });
+
+    res.json({
+      token,
+      refreshToken: result.refreshToken.token,
+      refreshTokenExpiresAt: result.refreshToken.expiresAt,
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'Failed to refresh token' });
+  }
+};
+
+// Revoke the session's refresh token (the access token expires on its own)
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (refreshToken && typeof refreshToken === 'string') {
+      const userId = await revokeRefreshToken(refreshToken);
+
+      if (userId) {
+        await recordAudit(req, { userId, action: 'LOGOUT', entityType: 'User', entityId: userId });
+      }
+    }
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to logout' });
+  }
+};
+
+// Change the signed-in user's password; other sessions are signed out
+export const changePassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      res.status(400).json({ error: 'Current password and new password are required' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+    });
+
+    if (!user || user.deletedAt) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    // 400 rather than 401: the session is fine, only the form is wrong
+    if (!(await comparePassword(currentPassword, user.password))) {
+      res.status(400).json({ error: 'Current password is incorrect' });
+      return;
+    }
+
+    if (currentPassword === newPassword) {
+      res.status(400).json({ error: 'New password must be different from the current password' });
+      return;
+    }
+
+    const passwordErrors = validatePasswordStrength(newPassword, user);
+    if (passwordErrors.length > 0) {
+      res.status(400).json({ error: passwordErrors.join('; ') });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { password: await hashPassword(newPassword), lastUpdatedBy: user.id },
+    });
+
+    // Revoke every session, then keep this one signed in with a fresh refresh token
+    const sessionsRevoked = await revokeUserRefreshTokens(user.id);
+    const refreshToken = await issueRefreshToken(user.id, tokenContext(req));
+
+    await recordAudit(req, {
+      action: 'PASSWORD_CHANGED',
+      entityType: 'User',
+      entityId: user.id,
+      details: { sessionsRevoked },
+    });
+
+    res.json({
+      message: 'Password changed successfully',
+      refreshToken: refreshToken.token,
+      refreshTokenExpiresAt: refreshToken.expiresAt,
+    });
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({ error: 'Failed to change password' });
+  }
+};
+
+const FORGOT_PASSWORD_MESSAGE = 'If an account exists for that email, a password reset link has been sent.';
+
+// Email a reset link; the response is the same whether or not the account exists
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      res.status(400).json({ error: 'Email is required' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (user && user.isActive && !user.deletedAt) {
+      const { token, expiresAt } = await issuePasswordResetToken(user.id, req.ip);
+      const link = `${env.APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+      try {
+        await getMailer().send({
+          to: user.email,
+          subject: 'Reset your SwiftRoute password',
+          text: [
+            `Hi ${user.name},`,
+            '',
+            'Someone asked to reset the password for your SwiftRoute account.',
+            `Use this link to choose a new one (valid for ${env.PASSWORD_RESET_TTL_MINUTES} minutes, once):`,
+            '',
+            link,
+            '',
+            "If this wasn't you, you can ignore this email; your password has not changed.",
+          ].join('\n'),
+        });
+      } catch (mailError) {
+        // Not reported to the caller, which would reveal that the account exists
+        console.error('⚠️  Password reset email failed:', (mailError as Error).message);
+      }
+
+      await recordAudit(req, {
+        userId: user.id,
+        action: 'PASSWORD_RESET_REQUESTED',
+        entityType: 'User',
+        entityId: user.id,
+        details: { expiresAt: expiresAt.toISOString() },
+      });
+    }
+
+    res.json({ message: FORGOT_PASSWORD_MESSAGE });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Failed to request password reset' });
+  }
+};
+
+// Set a new password with an emailed reset token; signs out every session
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, newPassword } = req.body;
+
+    if (!token || typeof token !== 'string' || !newPassword) {
+      res.status(400).json({ error: 'Reset token and new password are required' });
+      return;
+    }
+
+    const user = await findPasswordResetUser(token);
+
+    if (!user) {
+      res.status(400).json({ error: 'This reset link is invalid or has expired' });
+      return;
+    }
+
+    const passwordErrors = validatePasswordStrength(newPassword, user);
+    if (passwordErrors.length > 0) {
+      res.status(400).json({ error: passwordErrors.join('; ') });
+      return;
+    }
+
+    if (!(await resetPasswordWithToken(token, newPassword))) {
+      res.status(400).json({ error: 'This reset link is invalid or has expired' });
+      return;
+    }
+
+    const sessionsRevoked = await revokeUserRefreshTokens(user.id);
+
+    await recordAudit(req, {
+      userId: user.id,
+      action: 'PASSWORD_RESET',
+      entityType: 'User',
+      entityId: user.id,
+      details: { sessionsRevoked },
+    });
+
+    res.json({ message: 'Password has been reset. You can now sign in.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+};
+
 // Get current user profile
 export const getProfile = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -139,7 +442,7 @@ export const getProfile = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    res.json({ user });
+    res.json({ user: { ...user, permissions: permissionsForRole(user.role) } });
   } catch (error) {
     console.error('Get profile error:', error);
     res.status(500).json({ error: 'Failed to get profile' });
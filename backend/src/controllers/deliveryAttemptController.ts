@@ -0,0 +1,175 @@
+// filepath: backend/src/controllers/deliveryAttemptController.ts
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import { AttemptResult } from '@prisma/client';
+import { getFileStorage } from '../utils/fileStorage';
+import { recordAudit } from '../utils/audit';
+import { hasImageContent } from '../middleware/upload';
+
+const PROOF_FOLDER = 'proof-of-delivery';
+
+type ProofFiles = { [fieldname: string]: Express.Multer.File[] } | undefined;
+
+// Multipart fields arrive as strings; an empty one counts as not given
+const isBlank = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+// Returns an error message, or null when the optional attempt fields are usable
+const validateAttemptFields = (data: {
+  latitude?: unknown;
+  longitude?: unknown;
+  attemptedAt?: unknown;
+}): string | null => {
+  if (isBlank(data.latitude) !== isBlank(data.longitude)) {
+    return 'Latitude and longitude must be given together';
+  }
+
+  if (!isBlank(data.latitude)) {
+    const latitude = Number(data.latitude);
+    if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+      return 'Latitude must be between -90 and 90';
+    }
+
+    const longitude = Number(data.longitude);
+    if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+      return 'Longitude must be between -180 and 180';
+    }
+  }
+
+  if (!isBlank(data.attemptedAt) && isNaN(new Date(String(data.attemptedAt)).getTime())) {
+    return 'Invalid attempt time';
+  }
+
+  return null;
+};
+
+// Record a delivery attempt with optional photo and signature
+export const recordDeliveryAttempt = async (req: Request, res: Response): Promise<void> => {
+  const storedUrls: string[] = [];
+
+  try {
+    const { id } = req.params;
+    const {
+      result,
+      reason,
+      notes,
+      latitude,
+      longitude,
+      attemptedAt,
+    } = req.body;
+
+    if (!result || !Object.values(AttemptResult).includes(result)) {
+      res.status(400).json({
+        error: 'Valid attempt result is required',
+        validResults: Object.values(AttemptResult),
+      });
+      return;
+    }
+
+    if (result !== AttemptResult.SUCCESS && !reason) {
+      res.status(400).json({ error: 'Reason is required for failed attempts' });
+      return;
+    }
+
+    const validationError = validateAttemptFields({ latitude, longitude, attemptedAt });
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+    });
+
+    if (!order) {
+      res.status(404).json({ error: 'Order not found' });
+      return;
+    }
+
+    // Store proof-of-delivery files
+    const files = req.files as ProofFiles;
+    const photo = files?.photo?.[0];
+    const signature = files?.signature?.[0];
+
+    const invalidFile = [photo, signature].find((file) => file && !hasImageContent(file));
+    if (invalidFile) {
+      res.status(400).json({ error: `The ${invalidFile.fieldname} is not a valid JPEG, PNG or WebP image` });
+      return;
+    }
+
+    const storage = getFileStorage();
+
+    let photoUrl: string | null = null;
+    let signatureUrl: string | null = null;
+
+    if (photo) {
+      photoUrl = await storage.save(photo.buffer, photo.mimetype, PROOF_FOLDER);
+      storedUrls.push(photoUrl);
+    }
+
+    if (signature) {
+      signatureUrl = await storage.save(signature.buffer, signature.mimetype, PROOF_FOLDER);
+      storedUrls.push(signatureUrl);
+    }
+
+    const attempt = await prisma.deliveryAttempt.create({
+      data: {
+        orderId: id,
+        attemptedAt: isBlank(attemptedAt) ? new Date() : new Date(attemptedAt),
+        result,
+        reason: reason || null,
+        notes: notes || null,
+        photoUrl,
+        signatureUrl,
+        latitude: isBlank(latitude) ? null : Number(latitude),
+        longitude: isBlank(longitude) ? null : Number(longitude),
+      },
+    });
+
+    await recordAudit(req, {
+      action: 'DELIVERY_ATTEMPT_RECORDED',
+      entityType: 'Order',
+      entityId: id,
+      details: { attemptId: attempt.id, result: attempt.result, reason: attempt.reason },
+    });
+
+    res.status(201).json({
+      message: 'Delivery attempt recorded successfully',
+      attempt,
+    });
+  } catch (error) {
+    console.error('Record delivery attempt error:', error);
+
+    // Don't leave orphaned files behind
+    const storage = getFileStorage();
+    await Promise.all(storedUrls.map((url) => storage.remove(url).catch(() => undefined)));
+
+    res.status(500).json({ error: 'Failed to record delivery attempt' });
+  }
+};
+
+// Get attempt history for an order
+export const getDeliveryAttempts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!order) {
+      res.status(404).json({ error: 'Order not found' });
+      return;
+    }
+
+    const attempts = await prisma.deliveryAttempt.findMany({
+      where: { orderId: id },
+      orderBy: { attemptedAt: 'desc' },
+    });
+
+    res.json({ attempts });
+  } catch (error) {
+    console.error('Get delivery attempts error:', error);
+    res.status(500).json({ error: 'Failed to fetch delivery attempts' });
+  }
+};
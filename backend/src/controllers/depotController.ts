@@ -0,0 +1,257 @@
+// filepath: backend/src/controllers/depotController.ts
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import { Prisma, RouteStatus } from '@prisma/client';
+import { isValidTimeWindow } from '../utils/timeWindow';
+import { recordAudit } from '../utils/audit';
+
+// Returns an error message, or null when the depot fields are usable
+const validateDepotFields = (data: {
+  latitude?: unknown;
+  longitude?: unknown;
+  operatingHours?: string | null;
+}): string | null => {
+  if (data.latitude !== undefined) {
+    const latitude = Number(data.latitude);
+    if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+      return 'Latitude must be between -90 and 90';
+    }
+  }
+
+  if (data.longitude !== undefined) {
+    const longitude = Number(data.longitude);
+    if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+      return 'Longitude must be between -180 and 180';
+    }
+  }
+
+  if (data.operatingHours && !isValidTimeWindow(data.operatingHours)) {
+    return 'Invalid operating hours. Expected format HH:MM-HH:MM';
+  }
+
+  return null;
+};
+
+// Create new depot
+export const createDepot = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      name,
+      address,
+      city,
+      postalCode,
+      latitude,
+      longitude,
+      operatingHours,
+    } = req.body;
+
+    // Validate required fields
+    if (!name || !address || !city || !postalCode || latitude === undefined || longitude === undefined) {
+      res.status(400).json({
+        error: 'Name, address, city, postal code, latitude and longitude are required',
+      });
+      return;
+    }
+
+    const validationError = validateDepotFields({ latitude, longitude, operatingHours });
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const depot = await prisma.depot.create({
+      data: {
+        name,
+        address,
+        city,
+        postalCode,
+        latitude: Number(latitude),
+        longitude: Number(longitude),
+        operatingHours: operatingHours || null,
+        lastUpdatedBy: req.user?.userId,
+      },
+    });
+
+    await recordAudit(req, { action: 'DEPOT_CREATED', entityType: 'Depot', entityId: depot.id, after: depot });
+
+    res.status(201).json({
+      message: 'Depot created successfully',
+      depot,
+    });
+  } catch (error) {
+    console.error('Create depot error:', error);
+    res.status(500).json({ error: 'Failed to create depot' });
+  }
+};
+
+// Get all depots
+export const getDepots = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { isActive, search } = req.query;
+
+    const where: Prisma.DepotWhereInput = {};
+
+    if (isActive !== undefined) where.isActive = isActive === 'true';
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search as string, mode: 'insensitive' } },
+        { city: { contains: search as string, mode: 'insensitive' } },
+      ];
+    }
+
+    const depots = await prisma.depot.findMany({
+      where,
+      orderBy: { name: 'asc' },
+      include: {
+        _count: {
+          select: { drivers: true, routes: true },
+        },
+      },
+    });
+
+    res.json({ depots });
+  } catch (error) {
+    console.error('Get depots error:', error);
+    res.status(500).json({ error: 'Failed to fetch depots' });
+  }
+};
+
+// Get single depot by ID
+export const getDepotById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const depot = await prisma.depot.findUnique({
+      where: { id },
+      include: {
+        drivers: {
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            vehicleType: true,
+          },
+        },
+      },
+    });
+
+    if (!depot) {
+      res.status(404).json({ error: 'Depot not found' });
+      return;
+    }
+
+    res.json({ depot });
+  } catch (error) {
+    console.error('Get depot error:', error);
+    res.status(500).json({ error: 'Failed to fetch depot' });
+  }
+};
+
+// Update depot
+export const updateDepot = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const {
+      name,
+      address,
+      city,
+      postalCode,
+      latitude,
+      longitude,
+      operatingHours,
+      isActive,
+    } = req.body;
+
+    const existingDepot = await prisma.depot.findUnique({
+      where: { id },
+    });
+
+    if (!existingDepot) {
+      res.status(404).json({ error: 'Depot not found' });
+      return;
+    }
+
+    const validationError = validateDepotFields({ latitude, longitude, operatingHours });
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const depot = await prisma.depot.update({
+      where: { id },
+      data: {
+        name,
+        address,
+        city,
+        postalCode,
+        latitude: latitude !== undefined ? Number(latitude) : undefined,
+        longitude: longitude !== undefined ? Number(longitude) : undefined,
+        operatingHours: operatingHours !== undefined ? operatingHours || null : undefined,
+        isActive,
+        lastUpdatedBy: req.user?.userId,
+      },
+    });
+
+    await recordAudit(req, {
+      action: 'DEPOT_UPDATED',
+      entityType: 'Depot',
+      entityId: id,
+      before: existingDepot,
+      after: depot,
+    });
+
+    res.json({
+      message: 'Depot updated successfully',
+      depot,
+    });
+  } catch (error) {
+    console.error('Update depot error:', error);
+    res.status(500).json({ error: 'Failed to update depot' });
+  }
+};
+
+// Delete depot
+export const deleteDepot = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const existingDepot = await prisma.depot.findUnique({
+      where: { id },
+      include: {
+        routes: {
+          where: {
+            status: {
+              in: [RouteStatus.PENDING, RouteStatus.IN_PROGRESS],
+            },
+          },
+        },
+      },
+    });
+
+    if (!existingDepot) {
+      res.status(404).json({ error: 'Depot not found' });
+      return;
+    }
+
+    // Active routes still start from this depot
+    if (existingDepot.routes.length > 0) {
+      res.status(400).json({
+        error: 'Cannot delete depot with active routes',
+      });
+      return;
+    }
+
+    // Drivers and past routes keep working without a depot (SetNull)
+    await prisma.depot.delete({
+      where: { id },
+    });
+
+    await recordAudit(req, { action: 'DEPOT_DELETED', entityType: 'Depot', entityId: id, before: existingDepot });
+
+    res.json({ message: 'Depot deleted successfully' });
+  } catch (error) {
+    console.error('Delete depot error:', error);
+    res.status(500).json({ error: 'Failed to delete depot' });
+  }
+};
@@ -2,6 +2,31 @@
 import { Request, Response } from 'express';
 import prisma from '../config/database';
 import { Prisma, DriverStatus, VehicleType } from '@prisma/client';
+import { emitEvent } from '../config/socket';
+import { validateCapacityFields, vehicleCapacity } from '../utils/capacity';
+import { recordAudit } from '../utils/audit';
+
+type CapacityInput = {
+  capacityWeightKg?: unknown;
+  capacityVolumeM3?: unknown;
+  capacityParcels?: unknown;
+};
+
+const toOptionalNumber = (value: unknown): number | null =>
+  value === undefined || value === null || value === '' ? null : Number(value);
+
+// Vehicle capacity overrides (validated with validateCapacityFields first); empty means the vehicle default
+const capacityData = (data: CapacityInput) => ({
+  capacityWeightKg: toOptionalNumber(data.capacityWeightKg),
+  capacityVolumeM3: toOptionalNumber(data.capacityVolumeM3),
+  capacityParcels: toOptionalNumber(data.capacityParcels),
+});
+
+// The capacity fields an update sent, converted the same way
+const capacityUpdate = (data: CapacityInput) =>
+  Object.fromEntries(
+    Object.entries(capacityData(data)).filter(([field]) => data[field as keyof CapacityInput] !== undefined)
+  );
 
 // Create new driver
 export const createDriver = async (req: Request, res: Response): Promise<void> => {
@@ -12,6 +37,7 @@ export const createDriver = async (req: Request, res: Response): Promise<void> =
       phone,
       licenseNo,
       vehicleType,
+      homeDepotId,
     } = req.body;
 
     // Validate required fields
@@ -20,6 +46,12 @@ export const createDriver = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
+    const capacityError = validateCapacityFields(req.body);
+    if (capacityError) {
+      res.status(400).json({ error: capacityError });
+      return;
+    }
+
     // Check if email already exists
     const existingDriver = await prisma.driver.findUnique({
       where: { email },
@@ -30,6 +62,11 @@ export const createDriver = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
+    if (homeDepotId && !(await prisma.depot.findUnique({ where: { id: homeDepotId } }))) {
+      res.status(404).json({ error: 'Home depot not found' });
+      return;
+    }
+
     // Create driver
     const driver = await prisma.driver.create({
       data: {
@@ -38,11 +75,16 @@ export const createDriver = async (req: Request, res: Response): Promise<void> =
         phone,
         licenseNo: licenseNo || null,
         vehicleType: (vehicleType as VehicleType) || VehicleType.VAN,
+        homeDepotId: homeDepotId || null,
+        ...capacityData(req.body),
         status: DriverStatus.AVAILABLE,
         isActive: true,
+        lastUpdatedBy: req.user?.userId,
       },
     });
 
+    await recordAudit(req, { action: 'DRIVER_CREATED', entityType: 'Driver', entityId: driver.id, after: driver });
+
     res.status(201).json({
       message: 'Driver created successfully',
       driver,
@@ -128,6 +170,7 @@ export const getDriverById = async (req: Request, res: Response): Promise<void>
     const driver = await prisma.driver.findUnique({
       where: { id },
       include: {
+        homeDepot: true,
         routes: {
           orderBy: { createdAt: 'desc' },
           take: 10,
@@ -147,7 +190,7 @@ export const getDriverById = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    res.json({ driver });
+    res.json({ driver: { ...driver, capacity: vehicleCapacity(driver) } });
   } catch (error) {
     console.error('Get driver error:', error);
     res.status(500).json({ error: 'Failed to fetch driver' });
@@ -182,12 +225,35 @@ export const updateDriver = async (req: Request, res: Response): Promise<void> =
       }
     }
 
+    const capacityError = validateCapacityFields(updateData);
+    if (capacityError) {
+      res.status(400).json({ error: capacityError });
+      return;
+    }
+
+    if (updateData.homeDepotId && !(await prisma.depot.findUnique({ where: { id: updateData.homeDepotId } }))) {
+      res.status(404).json({ error: 'Home depot not found' });
+      return;
+    }
+
     // Update driver
     const driver = await prisma.driver.update({
       where: { id },
-      data: updateData,
+      data: { ...updateData, ...capacityUpdate(updateData), lastUpdatedBy: req.user?.userId },
     });
 
+    await recordAudit(req, {
+      action: 'DRIVER_UPDATED',
+      entityType: 'Driver',
+      entityId: id,
+      before: existingDriver,
+      after: driver,
+    });
+
+    if (driver.status !== existingDriver.status) {
+      emitEvent('driver:statusChanged', driver);
+    }
+
     res.json({
       message: 'Driver updated successfully',
       driver,
@@ -235,6 +301,8 @@ export const deleteDriver = async (req: Request, res: Response): Promise<void> =
       where: { id },
     });
 
+    await recordAudit(req, { action: 'DRIVER_DELETED', entityType: 'Driver', entityId: id, before: existingDriver });
+
     res.json({ message: 'Driver deleted successfully' });
   } catch (error) {
     console.error('Delete driver error:', error);
@@ -256,11 +324,30 @@ export const updateDriverStatus = async (req: Request, res: Response): Promise<v
       return;
     }
 
+    const existingDriver = await prisma.driver.findUnique({
+      where: { id },
+    });
+
+    if (!existingDriver) {
+      res.status(404).json({ error: 'Driver not found' });
+      return;
+    }
+
     const driver = await prisma.driver.update({
       where: { id },
-      data: { status },
+      data: { status, lastUpdatedBy: req.user?.userId },
+    });
+
+    await recordAudit(req, {
+      action: 'DRIVER_STATUS_CHANGED',
+      entityType: 'Driver',
+      entityId: id,
+      before: existingDriver,
+      after: driver,
     });
 
+    emitEvent('driver:statusChanged', driver);
+
     res.json({
       message: 'Driver status updated successfully',
       driver,
@@ -0,0 +1,232 @@
+// filepath: backend/src/controllers/driverLocationController.ts
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import { Prisma, RouteStatus } from '@prisma/client';
+import { emitEvent } from '../config/socket';
+
+const MAX_POINTS_PER_BATCH = 500;
+const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000; // How far ahead of the server a device clock may run
+
+interface LocationPoint {
+  latitude: number;
+  longitude: number;
+  timestamp?: string;
+  accuracy?: number;
+  speed?: number;
+  heading?: number;
+}
+
+const toOptionalNumber = (value: unknown): number | null =>
+  value === undefined || value === null || value === '' ? null : Number(value);
+
+// Returns an error message, or null when the point is usable
+const validatePoint = (point: LocationPoint): string | null => {
+  const latitude = Number(point.latitude);
+  const longitude = Number(point.longitude);
+
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    return 'Latitude must be between -90 and 90';
+  }
+
+  if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    return 'Longitude must be between -180 and 180';
+  }
+
+  if (point.timestamp) {
+    const recordedAt = new Date(point.timestamp).getTime();
+
+    if (isNaN(recordedAt)) return 'Invalid timestamp';
+
+    // A point from the future would pin the driver's last position until that time
+    if (recordedAt > Date.now() + MAX_CLOCK_SKEW_MS) return 'Timestamp is in the future';
+  }
+
+  return null;
+};
+
+// Record a batch of location pings for a driver
+export const recordDriverLocations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { points, routeId } = req.body;
+
+    if (!Array.isArray(points) || points.length === 0) {
+      res.status(400).json({ error: 'Points array is required' });
+      return;
+    }
+
+    if (points.length > MAX_POINTS_PER_BATCH) {
+      res.status(400).json({ error: `At most ${MAX_POINTS_PER_BATCH} points per batch` });
+      return;
+    }
+
+    const errors = points
+      .map((point: LocationPoint, index: number) => ({ index, error: validatePoint(point) }))
+      .filter((result) => result.error !== null);
+
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Invalid location points', details: errors });
+      return;
+    }
+
+    const driver = await prisma.driver.findUnique({
+      where: { id },
+      include: {
+        routes: {
+          where: { status: RouteStatus.IN_PROGRESS },
+          take: 1,
+        },
+      },
+    });
+
+    if (!driver) {
+      res.status(404).json({ error: 'Driver not found' });
+      return;
+    }
+
+    // Pings can only be attached to one of this driver's own routes
+    if (routeId) {
+      const route = await prisma.route.findUnique({ where: { id: routeId }, select: { driverId: true } });
+
+      if (!route) {
+        res.status(400).json({ error: 'Route not found' });
+        return;
+      }
+
+      if (route.driverId !== id) {
+        res.status(403).json({ error: 'Route is assigned to another driver' });
+        return;
+      }
+    }
+
+    // Attach pings to the route the driver is currently running
+    const activeRouteId: string | null = routeId || driver.routes[0]?.id || null;
+
+    const locations: Prisma.DriverLocationCreateManyInput[] = points.map((point: LocationPoint) => ({
+      driverId: id,
+      routeId: activeRouteId,
+      latitude: Number(point.latitude),
+      longitude: Number(point.longitude),
+      accuracy: toOptionalNumber(point.accuracy),
+      speed: toOptionalNumber(point.speed),
+      heading: toOptionalNumber(point.heading),
+      recordedAt: point.timestamp ? new Date(point.timestamp) : new Date(),
+    }));
+
+    // Devices may send buffered points out of order
+    const latest = locations.reduce((newest, location) =>
+      new Date(location.recordedAt) > new Date(newest.recordedAt) ? location : newest
+    );
+    const latestAt = new Date(latest.recordedAt);
+    const isNewer = !driver.lastLocationAt || latestAt > driver.lastLocationAt;
+
+    await prisma.$transaction([
+      prisma.driverLocation.createMany({ data: locations }),
+      ...(isNewer
+        ? [
+            prisma.driver.update({
+              where: { id },
+              data: {
+                lastLatitude: latest.latitude,
+                lastLongitude: latest.longitude,
+                lastLocationAt: latestAt,
+              },
+            }),
+          ]
+        : []),
+    ]);
+
+    if (isNewer) {
+      emitEvent('driver:location', {
+        driverId: id,
+        name: driver.name,
+        status: driver.status,
+        vehicleType: driver.vehicleType,
+        routeId: activeRouteId,
+        latitude: Number(latest.latitude),
+        longitude: Number(latest.longitude),
+        heading: latest.heading,
+        speed: latest.speed,
+        recordedAt: latestAt,
+      });
+    }
+
+    res.status(201).json({
+      message: `Recorded ${locations.length} location points`,
+      recorded: locations.length,
+    });
+  } catch (error) {
+    console.error('Record driver locations error:', error);
+    res.status(500).json({ error: 'Failed to record driver locations' });
+  }
+};
+
+// Get location history for a driver
+export const getDriverLocations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { routeId, from, to, limit = '500' } = req.query;
+
+    const fromDate = from ? new Date(from as string) : undefined;
+    const toDate = to ? new Date(to as string) : undefined;
+
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      res.status(400).json({ error: 'from and to must be valid dates' });
+      return;
+    }
+
+    const limitNum = Number(limit);
+    if (!Number.isInteger(limitNum) || limitNum < 1) {
+      res.status(400).json({ error: 'limit must be a positive integer' });
+      return;
+    }
+
+    const where: Prisma.DriverLocationWhereInput = { driverId: id };
+
+    if (routeId) where.routeId = routeId as string;
+    if (fromDate || toDate) where.recordedAt = { gte: fromDate, lte: toDate };
+
+    // The newest points of the window, returned oldest first
+    const locations = await prisma.driverLocation.findMany({
+      where,
+      orderBy: { recordedAt: 'desc' },
+      take: Math.min(limitNum, 5000),
+    });
+
+    res.json({ locations: locations.reverse() });
+  } catch (error) {
+    console.error('Get driver locations error:', error);
+    res.status(500).json({ error: 'Failed to fetch driver locations' });
+  }
+};
+
+// Get last known position of every active driver (fleet map)
+export const getFleetLocations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const drivers = await prisma.driver.findMany({
+      where: {
+        isActive: true,
+        lastLocationAt: { not: null },
+      },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        vehicleType: true,
+        lastLatitude: true,
+        lastLongitude: true,
+        lastLocationAt: true,
+        routes: {
+          where: { status: RouteStatus.IN_PROGRESS },
+          select: { id: true, routeNumber: true },
+          take: 1,
+        },
+      },
+    });
+
+    res.json({ drivers });
+  } catch (error) {
+    console.error('Get fleet locations error:', error);
+    res.status(500).json({ error: 'Failed to fetch fleet locations' });
+  }
+};
@@ -0,0 +1,174 @@
+// filepath: backend/src/controllers/geocodeController.ts
+import { Request, Response } from 'express';
+import { OrderStatus, RedeliveryStatus } from '@prisma/client';
+import prisma from '../config/database';
+import { emitEvent } from '../config/socket';
+import { startGeocodeJob, getGeocodeJob } from '../utils/geocodeJob';
+import { manualCoordinates, reverseGeocode } from '../utils/geocoder';
+import { validateAddress, checkPinPlacement } from '../utils/address';
+import { processFailedOrder } from '../utils/redelivery';
+import { auditLogData, recordAudit } from '../utils/audit';
+
+// Geocode all active orders that have no coordinates (background job)
+export const geocodeOrders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { retryUnmatched = false } = req.body;
+
+    if (typeof retryUnmatched !== 'boolean') {
+      res.status(400).json({ error: 'retryUnmatched must be a boolean' });
+      return;
+    }
+
+    const job = startGeocodeJob({ retryUnmatched });
+
+    await recordAudit(req, {
+      action: 'ORDERS_GEOCODE_STARTED',
+      entityType: 'Order',
+      details: { jobId: job.id, retryUnmatched },
+    });
+
+    res.status(202).json({
+      message: 'Geocoding started',
+      job,
+    });
+  } catch (error) {
+    console.error('Geocode orders error:', error);
+    res.status(500).json({ error: 'Failed to start geocoding' });
+  }
+};
+
+// Progress of a geocoding job
+export const getGeocodeJobStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = getGeocodeJob(req.params.jobId);
+
+    if (!job) {
+      res.status(404).json({ error: 'Geocoding job not found or expired' });
+      return;
+    }
+
+    res.json({ job });
+  } catch (error) {
+    console.error('Get geocode job error:', error);
+    res.status(500).json({ error: 'Failed to fetch geocoding job' });
+  }
+};
+
+// Normalize and check an address before an order is saved
+export const validateOrderAddress = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { address, addressLine2, city, postalCode, country } = req.body;
+
+    if (!address || !city || !postalCode) {
+      res.status(400).json({ error: 'Address, city and postal code are required' });
+      return;
+    }
+
+    const result = await validateAddress({ address, addressLine2, city, postalCode, country });
+
+    res.json(result);
+  } catch (error) {
+    console.error('Validate address error:', error);
+    res.status(500).json({ error: 'Failed to validate address' });
+  }
+};
+
+// Address near a point, shown while a pin is being moved
+export const reverseGeocodeLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const coordinates = parseCoordinates(req.query.latitude, req.query.longitude);
+
+    if (!coordinates) {
+      res.status(400).json({ error: 'Valid latitude and longitude are required' });
+      return;
+    }
+
+    const location = await reverseGeocode(coordinates.latitude, coordinates.longitude);
+
+    res.json({ location });
+  } catch (error) {
+    console.error('Reverse geocode error:', error);
+    res.status(500).json({ error: 'Failed to look up location' });
+  }
+};
+
+// Move an order's pin by hand (geocode correction)
+export const correctOrderLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const coordinates = parseCoordinates(req.body.latitude, req.body.longitude);
+
+    if (!coordinates) {
+      res.status(400).json({ error: 'Valid latitude and longitude are required' });
+      return;
+    }
+
+    const existingOrder = await prisma.order.findUnique({
+      where: { id },
+    });
+
+    if (!existingOrder) {
+      res.status(404).json({ error: 'Order not found' });
+      return;
+    }
+
+    if (existingOrder.status === OrderStatus.DELIVERED || existingOrder.status === OrderStatus.CANCELLED) {
+      res.status(400).json({ error: `Cannot move the location of a ${existingOrder.status.toLowerCase()} order` });
+      return;
+    }
+
+    const location = manualCoordinates(coordinates.latitude, coordinates.longitude);
+
+    const [updated] = await prisma.$transaction([
+      prisma.order.update({
+        where: { id },
+        data: { ...location, lastUpdatedBy: req.user?.userId },
+      }),
+      prisma.auditLog.create({
+        data: auditLogData(req, {
+          action: 'ORDER_LOCATION_CORRECTED',
+          entityType: 'Order',
+          entityId: id,
+          before: existingOrder,
+          after: { ...existingOrder, ...location },
+        }),
+      }),
+    ]);
+
+    let order = updated;
+
+    // A corrected location releases orders held after a wrong-address failure
+    if (order.redeliveryStatus === RedeliveryStatus.AWAITING_ADDRESS) {
+      await processFailedOrder(id, { addressCorrected: true });
+      order = await prisma.order.findUniqueOrThrow({ where: { id } });
+    }
+
+    emitEvent('order:updated', order);
+
+    const warning = await checkPinPlacement(order.postalCode, coordinates.latitude, coordinates.longitude);
+
+    res.json({
+      message: 'Order location corrected',
+      order,
+      warnings: warning ? [warning] : [],
+    });
+  } catch (error) {
+    console.error('Correct order location error:', error);
+    res.status(500).json({ error: 'Failed to correct order location' });
+  }
+};
+
+// Latitude/longitude within range, or null
+function parseCoordinates(latitude: unknown, longitude: unknown) {
+  if (latitude === undefined || latitude === null || latitude === '') return null;
+  if (longitude === undefined || longitude === null || longitude === '') return null;
+
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+
+  return { latitude: lat, longitude: lng };
+}
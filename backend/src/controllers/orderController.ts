@@ -1,10 +1,58 @@
 import { Request, Response } from 'express';
 import prisma from '../config/database';
-import { Prisma, Priority, OrderStatus } from '@prisma/client';
+import { Prisma, Priority, OrderStatus, RedeliveryStatus } from '@prisma/client';
 import { parseOrdersCSV } from '../utils/csvParser';
+import { processFailedOrder, processAllFailedOrders } from '../utils/redelivery';
+import { isValidTimeWindow } from '../utils/timeWindow';
+import { validatePackageFields } from '../utils/capacity';
+import { geocodeAddress, geocodedCoordinates, manualCoordinates } from '../utils/geocoder';
+import { startGeocodeJob } from '../utils/geocodeJob';
+import { validateAddress, checkPinPlacement } from '../utils/address';
+import { recordAudit } from '../utils/audit';
+import { emitEvent } from '../config/socket';
 import fs from 'fs';
 import path from 'path';
 
+type PackageInput = {
+  weightKg?: unknown;
+  lengthCm?: unknown;
+  widthCm?: unknown;
+  heightCm?: unknown;
+  parcelCount?: unknown;
+};
+
+const toOptionalNumber = (value: unknown): number | null =>
+  value === undefined || value === null || value === '' ? null : Number(value);
+
+// Package weight/dimensions for create (validated with validatePackageFields first)
+const packageData = (data: PackageInput) => ({
+  weightKg: toOptionalNumber(data.weightKg),
+  lengthCm: toOptionalNumber(data.lengthCm),
+  widthCm: toOptionalNumber(data.widthCm),
+  heightCm: toOptionalNumber(data.heightCm),
+  parcelCount: toOptionalNumber(data.parcelCount) ?? 1,
+});
+
+// The package fields an update sent, converted the same way
+const packageUpdate = (data: PackageInput) =>
+  Object.fromEntries(
+    Object.entries(packageData(data)).filter(([field]) => data[field as keyof PackageInput] !== undefined)
+  );
+
+// Orders answer with their current stop; stops detached for redelivery are route history
+const withCurrentStop = <T extends { routeStops: unknown[] }>({ routeStops, ...order }: T) => ({
+  ...order,
+  routeStop: routeStops[0] ?? null,
+});
+
+// Coordinates supplied with the order; null when either is missing
+const enteredCoordinates = (data: { latitude?: unknown; longitude?: unknown }) => {
+  const latitude = toOptionalNumber(data.latitude);
+  const longitude = toOptionalNumber(data.longitude);
+
+  return latitude !== null && longitude !== null ? manualCoordinates(latitude, longitude) : null;
+};
+
 // Create new order
 export const createOrder = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -17,6 +65,7 @@ export const createOrder = async (req: Request, res: Response): Promise<void> =>
       addressLine2,
       city,
       postalCode,
+      country,
       latitude,
       longitude,
       deliveryNotes,
@@ -31,6 +80,30 @@ export const createOrder = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    if (timeWindow && !isValidTimeWindow(timeWindow)) {
+      res.status(400).json({ error: 'Time window must be in HH:MM-HH:MM format' });
+      return;
+    }
+
+    const packageError = validatePackageFields(req.body);
+    if (packageError) {
+      res.status(400).json({ error: packageError });
+      return;
+    }
+
+    const { normalized, errors: addressErrors, warnings } = await validateAddress({
+      address,
+      addressLine2,
+      city,
+      postalCode,
+      country,
+    });
+
+    if (addressErrors.length > 0) {
+      res.status(400).json({ error: addressErrors.join('; ') });
+      return;
+    }
+
     // Check if order number already exists
     const existingOrder = await prisma.order.findUnique({
       where: { orderNumber },
@@ -48,23 +121,31 @@ export const createOrder = async (req: Request, res: Response): Promise<void> =>
         customerName,
         customerPhone,
         customerEmail,
-        address,
-        addressLine2,
-        city,
-        postalCode,
-        latitude: latitude ? parseFloat(latitude) : null,
-        longitude: longitude ? parseFloat(longitude) : null,
+        ...normalized,
+        ...(enteredCoordinates({ latitude, longitude }) ?? geocodedCoordinates(await geocodeAddress(normalized))),
         deliveryNotes,
         orderValue: orderValue ? parseFloat(orderValue) : null,
         priority: priority || 'NORMAL',
         timeWindow,
+        ...packageData(req.body),
         status: 'PENDING',
+        lastUpdatedBy: req.user?.userId,
       },
     });
 
+    await recordAudit(req, { action: 'ORDER_CREATED', entityType: 'Order', entityId: order.id, after: order });
+
+    emitEvent('order:created', order);
+
+    const pinWarning =
+      order.geocodeSource === 'MANUAL'
+        ? await checkPinPlacement(order.postalCode, Number(order.latitude), Number(order.longitude))
+        : null;
+
     res.status(201).json({
       message: 'Order created successfully',
       order,
+      addressWarnings: [...warnings, ...(pinWarning ? [pinWarning] : [])],
     });
   } catch (error) {
     console.error('Create order error:', error);
@@ -81,6 +162,7 @@ export const getOrders = async (req: Request, res: Response): Promise<void> => {
       status,
       priority,
       city,
+      redeliveryStatus,
       search,
       sortBy = 'createdAt',
       sortOrder = 'desc',
@@ -96,6 +178,7 @@ export const getOrders = async (req: Request, res: Response): Promise<void> => {
     if (status) where.status = status as any;
     if (priority) where.priority = priority as any;
     if (city) where.city = { contains: city as string, mode: 'insensitive' };
+    if (redeliveryStatus) where.redeliveryStatus = redeliveryStatus as RedeliveryStatus;
     
     if (search) {
       where.OR = [
@@ -114,7 +197,8 @@ export const getOrders = async (req: Request, res: Response): Promise<void> => {
         take: limitNum,
         orderBy: { [sortBy as string]: sortOrder },
         include: {
-          routeStop: {
+          routeStops: {
+            where: { detachedAt: null },
             include: {
               route: {
                 include: {
@@ -131,7 +215,7 @@ export const getOrders = async (req: Request, res: Response): Promise<void> => {
     ]);
 
     res.json({
-      orders,
+      orders: orders.map(withCurrentStop),
       pagination: {
         total,
         page: pageNum,
@@ -153,7 +237,8 @@ export const getOrderById = async (req: Request, res: Response): Promise<void> =
     const order = await prisma.order.findUnique({
       where: { id },
       include: {
-        routeStop: {
+        routeStops: {
+          where: { detachedAt: null },
           include: {
             route: {
               include: {
@@ -173,13 +258,17 @@ export const getOrderById = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
-    res.json({ order });
+    res.json({ order: withCurrentStop(order) });
   } catch (error) {
     console.error('Get order error:', error);
     res.status(500).json({ error: 'Failed to fetch order' });
   }
 };
 
+const STREET_ADDRESS_FIELDS = ['address', 'addressLine2', 'city', 'postalCode', 'country'] as const;
+const ADDRESS_FIELDS = [...STREET_ADDRESS_FIELDS, 'latitude', 'longitude'] as const;
+const OLD_PIN_KEPT_WARNING = 'The new address could not be located; the previous pin was kept. Check it on the map.';
+
 // Update order
 export const updateOrder = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -196,15 +285,84 @@ export const updateOrder = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    const packageError = validatePackageFields(updateData);
+    if (packageError) {
+      res.status(400).json({ error: packageError });
+      return;
+    }
+
+    // Edited addresses are validated and stored normalized
+    const addressEdited = STREET_ADDRESS_FIELDS.some((field) => updateData[field] !== undefined);
+    const addressCheck = addressEdited ? await validateAddress({ ...existingOrder, ...updateData }) : null;
+
+    if (addressCheck && addressCheck.errors.length > 0) {
+      res.status(400).json({ error: addressCheck.errors.join('; ') });
+      return;
+    }
+
+    const data = {
+      ...updateData,
+      ...addressCheck?.normalized,
+      ...packageUpdate(updateData),
+      ...(updateData.orderValue !== undefined && { orderValue: toOptionalNumber(updateData.orderValue) }),
+    };
+
+    // New coordinates are kept as entered; a new address without them is geocoded again.
+    // When that finds nothing the old pin stays, since it is likely still close, and the
+    // response warns that it may be off.
+    const streetChanged = STREET_ADDRESS_FIELDS.some(
+      (field) => data[field] !== undefined && String(data[field]) !== String(existingOrder[field])
+    );
+    const entered = enteredCoordinates(data);
+    const hadPin = existingOrder.latitude !== null && existingOrder.longitude !== null;
+    const geocoded =
+      !entered && (streetChanged || !hadPin) ? await geocodeAddress({ ...existingOrder, ...data }) : undefined;
+    const keptOldPin = geocoded === null && hadPin;
+
+    const coordinates =
+      entered ??
+      (geocoded === undefined
+        ? {}
+        : keptOldPin
+          ? { geocodedAt: new Date() } // Only the attempt is recorded
+          : geocodedCoordinates(geocoded));
+
+    // Coordinates are only stored as a pair (entered or geocoded), never as sent
+    const { latitude: _latitude, longitude: _longitude, ...fields } = data;
+
     // Update order
-    const order = await prisma.order.update({
+    let order = await prisma.order.update({
       where: { id },
-      data: updateData,
+      data: { ...fields, ...coordinates, lastUpdatedBy: req.user?.userId },
     });
 
+    // A corrected address releases orders held after a wrong-address failure
+    const addressChanged = ADDRESS_FIELDS.some(
+      (field) => data[field] !== undefined && String(data[field]) !== String(existingOrder[field])
+    );
+
+    if (addressChanged && order.redeliveryStatus === RedeliveryStatus.AWAITING_ADDRESS) {
+      await processFailedOrder(id, { addressCorrected: true });
+      order = await prisma.order.findUniqueOrThrow({ where: { id } });
+    }
+
+    await recordAudit(req, {
+      action: 'ORDER_UPDATED',
+      entityType: 'Order',
+      entityId: id,
+      before: existingOrder,
+      after: order,
+    });
+
+    emitEvent('order:updated', order);
+
     res.json({
       message: 'Order updated successfully',
       order,
+      addressWarnings: [
+        ...(addressCheck?.warnings ?? []),
+        ...(keptOldPin ? [OLD_PIN_KEPT_WARNING] : []),
+      ],
     });
   } catch (error) {
     console.error('Update order error:', error);
@@ -220,7 +378,7 @@ export const deleteOrder = async (req: Request, res: Response): Promise<void> =>
     // Check if order exists
     const existingOrder = await prisma.order.findUnique({
       where: { id },
-      include: { routeStop: true },
+      include: { routeStops: true },
     });
 
     if (!existingOrder) {
@@ -229,18 +387,28 @@ export const deleteOrder = async (req: Request, res: Response): Promise<void> =>
     }
 
     // Check if order is assigned to a route
-    if (existingOrder.routeStop) {
+    if (existingOrder.routeStops.some((stop) => stop.detachedAt === null)) {
       res.status(400).json({
         error: 'Cannot delete order that is assigned to a route',
       });
       return;
     }
 
+    // Failed stops it left behind are part of their routes' records
+    if (existingOrder.routeStops.length > 0) {
+      res.status(400).json({
+        error: 'Cannot delete order that has been on a route',
+      });
+      return;
+    }
+
     // Delete order
     await prisma.order.delete({
       where: { id },
     });
 
+    await recordAudit(req, { action: 'ORDER_DELETED', entityType: 'Order', entityId: id, before: existingOrder });
+
     res.json({ message: 'Order deleted successfully' });
   } catch (error) {
     console.error('Delete order error:', error);
@@ -308,10 +476,32 @@ export const bulkCreateOrders = async (req: Request, res: Response): Promise<voi
       success: 0,
       failed: 0,
       errors: [] as any[],
+      warnings: [] as any[],
     };
+    const ungeocodedIds: string[] = [];
 
     for (const orderData of orders) {
       try {
+        const packageError = validatePackageFields(orderData);
+        if (packageError) {
+          results.failed++;
+          results.errors.push({
+            orderNumber: orderData.orderNumber,
+            error: packageError,
+          });
+          continue;
+        }
+
+        const addressCheck = await validateAddress(orderData);
+        if (addressCheck.errors.length > 0) {
+          results.failed++;
+          results.errors.push({
+            orderNumber: orderData.orderNumber,
+            error: addressCheck.errors.join('; '),
+          });
+          continue;
+        }
+
         // Check if order number already exists
         const existing = await prisma.order.findUnique({
           where: { orderNumber: orderData.orderNumber },
@@ -326,26 +516,38 @@ export const bulkCreateOrders = async (req: Request, res: Response): Promise<voi
           continue;
         }
 
-        await prisma.order.create({
+        const order = await prisma.order.create({
           data: {
             orderNumber: orderData.orderNumber,
             customerName: orderData.customerName,
             customerPhone: orderData.customerPhone,
             customerEmail: orderData.customerEmail ?? null,
-            address: orderData.address,
-            addressLine2: orderData.addressLine2 ?? null,
-            city: orderData.city,
-            postalCode: orderData.postalCode,
-            latitude: orderData.latitude ? parseFloat(orderData.latitude as any) : null,
-            longitude: orderData.longitude ? parseFloat(orderData.longitude as any) : null,
+            ...addressCheck.normalized,
+            ...enteredCoordinates(orderData),
             deliveryNotes: orderData.deliveryNotes ?? null,
             orderValue: orderData.orderValue ? parseFloat(orderData.orderValue as any) : null,
             priority: (orderData.priority as Priority) || Priority.NORMAL,
             timeWindow: orderData.timeWindow ?? null,
+            ...packageData(orderData),
             status: OrderStatus.PENDING,
+            lastUpdatedBy: req.user?.userId,
           },
         });
 
+        await recordAudit(req, {
+          action: 'ORDER_CREATED',
+          entityType: 'Order',
+          entityId: order.id,
+          after: order,
+          details: { source: 'bulk' },
+        });
+
+        if (order.latitude === null) ungeocodedIds.push(order.id);
+        addressCheck.warnings.forEach((warning) =>
+          results.warnings.push({ orderNumber: order.orderNumber, warning })
+        );
+
+        emitEvent('order:created', order);
         results.success++;
       } catch (error: any) {
         results.failed++;
@@ -356,9 +558,13 @@ export const bulkCreateOrders = async (req: Request, res: Response): Promise<voi
       }
     }
 
+    // Addresses without coordinates are geocoded in the background
+    const geocodeJob = ungeocodedIds.length > 0 ? startGeocodeJob({ orderIds: ungeocodedIds }) : null;
+
     res.status(201).json({
       message: `Bulk import completed: ${results.success} succeeded, ${results.failed} failed`,
       results,
+      geocodeJob,
     });
   } catch (error) {
     console.error('Bulk create orders error:', error);
@@ -421,8 +627,11 @@ export const uploadOrdersCSV = async (req: Request, res: Response): Promise<void
       success: 0,
       failed: 0,
       errors: [] as any[],
+      warnings: [] as any[],
     };
 
+    const ungeocodedIds: string[] = [];
+
     console.log('🔄 Importing orders...');
     for (const orderData of parsedOrders) {
       try {
@@ -430,6 +639,28 @@ export const uploadOrdersCSV = async (req: Request, res: Response): Promise<void
           where: { orderNumber: orderData.orderNumber },
         });
 
+        const packageError = validatePackageFields(orderData);
+        if (packageError) {
+          console.log(`⚠️ Invalid package: ${orderData.orderNumber}`);
+          results.failed++;
+          results.errors.push({
+            orderNumber: orderData.orderNumber,
+            error: packageError,
+          });
+          continue;
+        }
+
+        const addressCheck = await validateAddress(orderData);
+        if (addressCheck.errors.length > 0) {
+          console.log(`⚠️ Invalid address: ${orderData.orderNumber}`);
+          results.failed++;
+          results.errors.push({
+            orderNumber: orderData.orderNumber,
+            error: addressCheck.errors.join('; '),
+          });
+          continue;
+        }
+
         if (existing) {
           console.log(`⚠️ Duplicate: ${orderData.orderNumber}`);
           results.failed++;
@@ -440,27 +671,38 @@ export const uploadOrdersCSV = async (req: Request, res: Response): Promise<void
           continue;
         }
 
-        await prisma.order.create({
+        const order = await prisma.order.create({
           data: {
             orderNumber: orderData.orderNumber,
             customerName: orderData.customerName,
             customerPhone: orderData.customerPhone,
             customerEmail: orderData.customerEmail || null,
-            address: orderData.address,
-            addressLine2: orderData.addressLine2 || null,
-            city: orderData.city,
-            postalCode: orderData.postalCode,
-            latitude: orderData.latitude || null,
-            longitude: orderData.longitude || null,
+            ...addressCheck.normalized,
+            ...enteredCoordinates(orderData),
             deliveryNotes: orderData.deliveryNotes || null,
             orderValue: orderData.orderValue || null,
             priority: (orderData.priority as any) || 'NORMAL',
             timeWindow: orderData.timeWindow || null,
+            ...packageData(orderData),
             status: 'PENDING',
+            lastUpdatedBy: req.user?.userId,
           },
         });
 
+        await recordAudit(req, {
+          action: 'ORDER_CREATED',
+          entityType: 'Order',
+          entityId: order.id,
+          after: order,
+          details: { source: 'csv' },
+        });
+
         console.log(`✅ Created: ${orderData.orderNumber}`);
+        if (order.latitude === null) ungeocodedIds.push(order.id);
+        addressCheck.warnings.forEach((warning) =>
+          results.warnings.push({ orderNumber: order.orderNumber, warning })
+        );
+        emitEvent('order:created', order);
         results.success++;
       } catch (error: any) {
         console.error(`❌ Failed: ${orderData.orderNumber}`, error.message);
@@ -480,9 +722,13 @@ export const uploadOrdersCSV = async (req: Request, res: Response): Promise<void
 
     console.log(`🎉 Import complete: ${results.success} succeeded, ${results.failed} failed`);
 
+    // Addresses without coordinates are geocoded in the background
+    const geocodeJob = ungeocodedIds.length > 0 ? startGeocodeJob({ orderIds: ungeocodedIds }) : null;
+
     res.status(201).json({
       message: `CSV import completed: ${results.success} succeeded, ${results.failed} failed`,
       results,
+      geocodeJob,
     });
   } catch (error: any) {
     console.error('❌ Upload failed:', error);
@@ -498,4 +744,34 @@ export const uploadOrdersCSV = async (req: Request, res: Response): Promise<void
       details: process.env.NODE_ENV === 'development' ? error.message : undefined
     });
   }
-};
\ No newline at end of file
+};
+
+// Apply the re-delivery retry policy to all failed orders
+export const scheduleRedeliveries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const outcomes = await processAllFailedOrders();
+
+    const summary = Object.values(RedeliveryStatus).reduce(
+      (acc, status) => ({
+        ...acc,
+        [status]: outcomes.filter((outcome) => outcome.redeliveryStatus === status).length,
+      }),
+      {} as Record<RedeliveryStatus, number>
+    );
+
+    await recordAudit(req, {
+      action: 'REDELIVERIES_SCHEDULED',
+      entityType: 'Order',
+      details: { processed: outcomes.length, summary },
+    });
+
+    res.json({
+      message: `Processed ${outcomes.length} failed orders`,
+      summary,
+      outcomes,
+    });
+  } catch (error) {
+    console.error('Schedule redeliveries error:', error);
+    res.status(500).json({ error: 'Failed to schedule redeliveries' });
+  }
+};
@@ -1,8 +1,57 @@
 // filepath: backend/src/controllers/routeController.ts
 import { Request, Response } from 'express';
 import prisma from '../config/database';
-import { Prisma, RouteStatus, DriverStatus, OrderStatus } from '@prisma/client';
-import { optimizeRouteNearestNeighbor, Location } from '../utils/routeOptimizer';
+import { Prisma, RouteStatus, DriverStatus, OrderStatus, StopStatus } from '@prisma/client';
+import {
+  optimizeRouteNearestNeighbor,
+  optimizeRouteWithTimeWindows,
+  improveRoute,
+  buildSchedule,
+  calculateRouteDistance,
+  Location,
+  RouteDepot,
+  TimeWindowMode,
+  TIME_WINDOW_MODES,
+  OptimizationAlgorithm,
+  OPTIMIZATION_ALGORITHMS,
+  DEFAULT_SEARCH_BUDGET_MS,
+} from '../utils/routeOptimizer';
+import { parseTimeWindow, formatMinutes } from '../utils/timeWindow';
+import { toRouteDepot } from '../utils/depot';
+import { getDistanceCacheStats } from '../utils/distanceProvider';
+import { explainPriorityPlacement } from '../utils/priority';
+import { priorityPolicy } from '../config/priorityPolicy';
+import {
+  vehicleCapacity,
+  toLoadedOrder,
+  totalLoad,
+  findOverCapacityOrders,
+  EMPTY_LOAD,
+} from '../utils/capacity';
+import { processFailedOrdersForRoute } from '../utils/redelivery';
+import {
+  closingStopStatus,
+  isTerminalStopStatus,
+  orderStatusForStop,
+  shouldStampActualTime,
+} from '../utils/stopLifecycle';
+import {
+  SequencedStop,
+  toLocation,
+  hasCoordinates,
+  lockedStopCount,
+  measureStops,
+  remainingMatrix,
+  remainingStart,
+  sequenceOperations,
+} from '../utils/routeSequence';
+import { Insertion, findBestInsertion, remainingLoad } from '../utils/insertion';
+import { isUniqueViolation, StaleWriteError } from '../utils/prismaErrors';
+import { emitEvent } from '../config/socket';
+import { recordAudit } from '../utils/audit';
+
+// Routes that are over and take no more changes
+const FINISHED_ROUTE_STATUSES: RouteStatus[] = [RouteStatus.COMPLETED, RouteStatus.PARTIAL, RouteStatus.CANCELLED];
 
 // Create new route
 export const createRoute = async (req: Request, res: Response): Promise<void> => {
@@ -11,6 +60,8 @@ export const createRoute = async (req: Request, res: Response): Promise<void> =>
       driverId,
       date,
       notes,
+      depotId,
+      returnToDepot,
     } = req.body;
 
     // Validate required fields
@@ -34,6 +85,14 @@ export const createRoute = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Routes start from the driver's home depot unless told otherwise
+    const routeDepotId: string | null = depotId || driver.homeDepotId || null;
+
+    if (depotId && !(await prisma.depot.findUnique({ where: { id: depotId } }))) {
+      res.status(404).json({ error: 'Depot not found' });
+      return;
+    }
+
     // Generate unique route number
     const routeCount = await prisma.route.count();
     const routeNumber = `RT-${String(routeCount + 1).padStart(6, '0')}`;
@@ -45,9 +104,13 @@ export const createRoute = async (req: Request, res: Response): Promise<void> =>
         driverId,
         date: date ? new Date(date) : new Date(),
         notes: notes || null,
+        depotId: routeDepotId,
+        returnToDepot: returnToDepot !== undefined ? Boolean(returnToDepot) : true,
         status: RouteStatus.PENDING,
+        lastUpdatedBy: req.user?.userId,
       },
       include: {
+        depot: true,
         driver: {
           select: {
             id: true,
@@ -61,6 +124,8 @@ export const createRoute = async (req: Request, res: Response): Promise<void> =>
       },
     });
 
+    await recordAudit(req, { action: 'ROUTE_CREATED', entityType: 'Route', entityId: route.id, after: route });
+
     res.status(201).json({
       message: 'Route created successfully',
       route,
@@ -80,6 +145,8 @@ export const getRoutes = async (req: Request, res: Response): Promise<void> => {
       status,
       driverId,
       date,
+      from,
+      to,
       search,
       sortBy = 'createdAt',
       sortOrder = 'desc',
@@ -101,6 +168,12 @@ export const getRoutes = async (req: Request, res: Response): Promise<void> => {
         gte: new Date(searchDate.setHours(0, 0, 0, 0)),
         lte: new Date(searchDate.setHours(23, 59, 59, 999)),
       };
+    } else if (from || to) {
+      // Inclusive range of route dates (YYYY-MM-DD)
+      where.date = {
+        ...(from ? { gte: new Date(from as string) } : {}),
+        ...(to ? { lte: new Date(to as string) } : {}),
+      };
     }
 
     if (search) {
@@ -172,6 +245,7 @@ export const getRouteById = async (req: Request, res: Response): Promise<void> =
       where: { id },
       include: {
         driver: true,
+        depot: true,
         stops: {
           include: {
             order: true,
@@ -209,18 +283,24 @@ export const updateRoute = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    // If route is completed, don't allow updates
-    if (existingRoute.status === 'COMPLETED') {
-      res.status(400).json({ error: 'Cannot update completed route' });
+    // Finished routes are a record; don't allow updates
+    if (FINISHED_ROUTE_STATUSES.includes(existingRoute.status)) {
+      res.status(400).json({ error: `Cannot update ${existingRoute.status.toLowerCase()} route` });
+      return;
+    }
+
+    if (updateData.depotId && !(await prisma.depot.findUnique({ where: { id: updateData.depotId } }))) {
+      res.status(404).json({ error: 'Depot not found' });
       return;
     }
 
     // Update route
     const route = await prisma.route.update({
       where: { id },
-      data: updateData,
+      data: { ...updateData, lastUpdatedBy: req.user?.userId },
       include: {
         driver: true,
+        depot: true,
         stops: {
           include: { order: true },
           orderBy: { sequence: 'asc' },
@@ -228,6 +308,14 @@ export const updateRoute = async (req: Request, res: Response): Promise<void> =>
       },
     });
 
+    await recordAudit(req, {
+      action: 'ROUTE_UPDATED',
+      entityType: 'Route',
+      entityId: id,
+      before: existingRoute,
+      after: route,
+    });
+
     res.json({
       message: 'Route updated successfully',
       route,
@@ -264,12 +352,13 @@ export const deleteRoute = async (req: Request, res: Response): Promise<void> =>
     if (existingRoute.stops.length > 0) {
       await prisma.order.updateMany({
         where: {
-          routeStop: {
-            routeId: id,
+          routeStops: {
+            some: { routeId: id, detachedAt: null },
           },
         },
         data: {
           status: OrderStatus.PENDING,
+          lastUpdatedBy: req.user?.userId,
         },
       });
     }
@@ -279,6 +368,14 @@ export const deleteRoute = async (req: Request, res: Response): Promise<void> =>
       where: { id },
     });
 
+    await recordAudit(req, {
+      action: 'ROUTE_DELETED',
+      entityType: 'Route',
+      entityId: id,
+      before: existingRoute,
+      details: { releasedOrderIds: existingRoute.stops.map((stop) => stop.orderId) },
+    });
+
     res.json({ message: 'Route deleted successfully' });
   } catch (error) {
     console.error('Delete route error:', error);
@@ -286,21 +383,51 @@ export const deleteRoute = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
-// Assign orders to route
+const INSERTION_MODES = ['append', 'best'] as const;
+type InsertionMode = (typeof INSERTION_MODES)[number];
+
+/**
+ * Assign orders to route
+ * Body: { orderIds, insertion?: 'append' | 'best', timeWindowMode?: 'hard' | 'soft' }
+ * 'append' adds the stops at the end; 'best' puts each one where it adds the
+ * least time among the stops not yet started, then recalculates ETAs
+ */
 export const assignOrdersToRoute = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { orderIds } = req.body;
+    const { orderIds, insertion = 'append', timeWindowMode = 'soft' } = req.body;
 
     if (!Array.isArray(orderIds) || orderIds.length === 0) {
       res.status(400).json({ error: 'Order IDs array is required' });
       return;
     }
 
+    if (!INSERTION_MODES.includes(insertion)) {
+      res.status(400).json({
+        error: `Invalid insertion mode: ${insertion}`,
+        validModes: INSERTION_MODES,
+      });
+      return;
+    }
+
+    if (!TIME_WINDOW_MODES.includes(timeWindowMode)) {
+      res.status(400).json({
+        error: `Invalid time window mode: ${timeWindowMode}`,
+        validModes: TIME_WINDOW_MODES,
+      });
+      return;
+    }
+
+    const bestInsertion = (insertion as InsertionMode) === 'best';
+
     // Check if route exists
     const route = await prisma.route.findUnique({
       where: { id },
-      include: { stops: true },
+      include: {
+        driver: true,
+        depot: true,
+        stops: { include: { order: true }, orderBy: { sequence: 'asc' } },
+      },
     });
 
     if (!route) {
@@ -308,9 +435,39 @@ export const assignOrdersToRoute = async (req: Request, res: Response): Promise<
       return;
     }
 
-    // Don't allow adding to completed routes
-    if (route.status === 'COMPLETED') {
-      res.status(400).json({ error: 'Cannot add orders to completed route' });
+    // Don't allow adding to finished routes
+    if (FINISHED_ROUTE_STATUSES.includes(route.status)) {
+      res.status(400).json({ error: `Cannot add orders to ${route.status.toLowerCase()} route` });
+      return;
+    }
+
+    if (bestInsertion && route.status !== RouteStatus.PENDING && route.status !== RouteStatus.IN_PROGRESS) {
+      res.status(400).json({ error: `Best insertion needs a pending or in-progress route, not ${route.status.toLowerCase()}` });
+      return;
+    }
+
+    // Capacity check before assigning anything (unknown or already assigned orders are reported below)
+    const requestedOrders = await prisma.order.findMany({
+      where: { id: { in: orderIds }, routeStops: { none: { detachedAt: null } } },
+    });
+    const requestedById = new Map(requestedOrders.map((order) => [order.id, order]));
+
+    const capacity = vehicleCapacity(route.driver);
+    const currentLoad = remainingLoad(route.stops);
+    const requested = orderIds
+      .filter((orderId: string) => requestedById.has(orderId))
+      .map((orderId: string) => toLoadedOrder(requestedById.get(orderId)!));
+
+    const overCapacityOrders = findOverCapacityOrders(capacity, currentLoad, requested);
+
+    if (overCapacityOrders.length > 0) {
+      res.status(400).json({
+        error: `Route capacity exceeded: ${overCapacityOrders.length} orders do not fit the ${route.driver.vehicleType}`,
+        capacity,
+        currentLoad,
+        requestedLoad: totalLoad(requested),
+        overCapacityOrders,
+      });
       return;
     }
 
@@ -324,6 +481,9 @@ export const assignOrdersToRoute = async (req: Request, res: Response): Promise<
       failed: 0,
       errors: [] as any[],
     };
+    const assignedOrderIds: string[] = [];
+    const insertions: (Insertion & { orderId: string; orderNumber: string })[] = [];
+    const stops: SequencedStop[] = [...route.stops]; // Running stop order for best insertion
 
     // Assign each order
     for (let i = 0; i < orderIds.length; i++) {
@@ -333,7 +493,7 @@ export const assignOrdersToRoute = async (req: Request, res: Response): Promise<
         // Check if order exists and is not already assigned
         const order = await prisma.order.findUnique({
           where: { id: orderId },
-          include: { routeStop: true },
+          include: { routeStops: { where: { detachedAt: null } } },
         });
 
         if (!order) {
@@ -345,7 +505,7 @@ export const assignOrdersToRoute = async (req: Request, res: Response): Promise<
           continue;
         }
 
-        if (order.routeStop) {
+        if (order.routeStops.length > 0 || assignedOrderIds.includes(orderId)) {
           results.failed++;
           results.errors.push({
             orderId,
@@ -354,6 +514,26 @@ export const assignOrdersToRoute = async (req: Request, res: Response): Promise<
           continue;
         }
 
+        // Best insertion only plans here; the stops are written together below
+        if (bestInsertion) {
+          // Cheapest gap, or the end for orders without coordinates
+          const placement = hasCoordinates(order)
+            ? await findBestInsertion({ ...route, stops }, order, timeWindowMode as TimeWindowMode)
+            : null;
+          const stop = { status: StopStatus.PENDING, orderId, order };
+
+          if (placement) {
+            stops.splice(placement.position, 0, stop);
+            insertions.push({ orderId, orderNumber: order.orderNumber, ...placement });
+          } else {
+            stops.push(stop);
+          }
+
+          assignedOrderIds.push(orderId);
+          results.success++;
+          continue;
+        }
+
         // Create route stop
         await prisma.routeStop.create({
           data: {
@@ -365,24 +545,79 @@ export const assignOrdersToRoute = async (req: Request, res: Response): Promise<
         });
 
         // Update order status
-        await prisma.order.update({
+        const updatedOrder = await prisma.order.update({
           where: { id: orderId },
-          data: { status: OrderStatus.ASSIGNED },
+          data: { status: OrderStatus.ASSIGNED, lastUpdatedBy: req.user?.userId },
         });
 
+        emitEvent('order:updated', updatedOrder);
+        assignedOrderIds.push(orderId);
         results.success++;
       } catch (error: any) {
         results.failed++;
         results.errors.push({
           orderId,
-          error: error.message,
+          // Another request gave the order a stop after the check above
+          error: isUniqueViolation(error) ? 'Order already assigned to a route' : error.message,
         });
       }
     }
 
+    // New stops, renumbered stops, ETAs and order statuses change together
+    if (bestInsertion && assignedOrderIds.length > 0) {
+      try {
+        await prisma.$transaction([
+          ...(await sequenceOperations(route, stops, req.user?.userId)),
+          prisma.order.updateMany({
+            where: { id: { in: assignedOrderIds } },
+            data: { status: OrderStatus.ASSIGNED, lastUpdatedBy: req.user?.userId },
+          }),
+        ]);
+      } catch (error) {
+        if (!isUniqueViolation(error)) throw error;
+
+        res.status(409).json({ error: 'Some of these orders were assigned to a route meanwhile. Reload and try again.' });
+        return;
+      }
+
+      const [updatedRoute, updatedOrders] = await Promise.all([
+        prisma.route.findUniqueOrThrow({
+          where: { id },
+          include: { driver: true, depot: true, stops: { include: { order: true }, orderBy: { sequence: 'asc' } } },
+        }),
+        prisma.order.findMany({ where: { id: { in: assignedOrderIds } } }),
+      ]);
+      updatedOrders.forEach((order) => emitEvent('order:updated', order));
+      emitEvent('route:updated', updatedRoute);
+    }
+
+    if (assignedOrderIds.length > 0) {
+      await recordAudit(req, {
+        action: 'ROUTE_ORDERS_ASSIGNED',
+        entityType: 'Route',
+        entityId: id,
+        details: {
+          orderIds: assignedOrderIds,
+          insertion,
+          ...(bestInsertion
+            ? { positions: insertions.map(({ orderId, position }) => ({ orderId, sequence: position + 1 })) }
+            : {}),
+        },
+      });
+    }
+
     res.json({
       message: `Assigned ${results.success} orders, ${results.failed} failed`,
       results,
+      ...(bestInsertion
+        ? {
+            // Final sequence numbers, after all orders went in
+            insertions: insertions.map((placement) => ({
+              ...placement,
+              sequence: stops.findIndex((stop) => stop.orderId === placement.orderId) + 1,
+            })),
+          }
+        : {}),
     });
   } catch (error) {
     console.error('Assign orders error:', error);
@@ -416,12 +651,13 @@ export const startRoute = async (req: Request, res: Response): Promise<void> =>
     }
 
     // Update route and driver status
-    const [updatedRoute] = await prisma.$transaction([
+    const [updatedRoute, updatedDriver] = await prisma.$transaction([
       prisma.route.update({
         where: { id },
         data: {
           status: RouteStatus.IN_PROGRESS,
           startTime: new Date(),
+          lastUpdatedBy: req.user?.userId,
         },
         include: {
           driver: true,
@@ -437,6 +673,17 @@ export const startRoute = async (req: Request, res: Response): Promise<void> =>
       }),
     ]);
 
+    await recordAudit(req, {
+      action: 'ROUTE_STARTED',
+      entityType: 'Route',
+      entityId: id,
+      before: route,
+      after: updatedRoute,
+    });
+
+    emitEvent('route:started', updatedRoute);
+    emitEvent('driver:statusChanged', updatedDriver);
+
     res.json({
       message: 'Route started successfully',
       route: updatedRoute,
@@ -447,14 +694,52 @@ export const startRoute = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
-// Complete route
+const DEFAULT_CLOSING_REASON = 'Route completed before the stop was finished';
+
+const routeDetailsInclude = {
+  driver: true,
+  depot: true,
+  stops: {
+    include: { order: true },
+    orderBy: { sequence: 'asc' },
+  },
+} satisfies Prisma.RouteInclude;
+
+// Driver status once a route stops running; still on route if another of theirs is in progress
+async function driverStatusAfterRoute(driverId: string, routeId: string): Promise<DriverStatus> {
+  const otherRunning = await prisma.route.count({
+    where: { driverId, status: RouteStatus.IN_PROGRESS, id: { not: routeId } },
+  });
+
+  return otherRunning > 0 ? DriverStatus.ON_ROUTE : DriverStatus.AVAILABLE;
+}
+
+/**
+ * Complete route
+ * Body: { reason?, stopReasons?: { [stopId]: reason } }
+ * Stops without an outcome are closed as SKIPPED (never reached) or FAILED
+ * (driver arrived), with their own reason, the shared one, or a default.
+ * The route ends COMPLETED when every stop was delivered, PARTIAL otherwise.
+ * A route left without stops (all moved to other routes) is cancelled instead.
+ */
 export const completeRoute = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
+    const { reason, stopReasons = {} } = req.body || {};
+
+    if (
+      typeof stopReasons !== 'object' ||
+      stopReasons === null ||
+      Array.isArray(stopReasons) ||
+      !Object.values(stopReasons).every((stopReason) => typeof stopReason === 'string')
+    ) {
+      res.status(400).json({ error: 'Stop reasons must map stop IDs to reasons' });
+      return;
+    }
 
     const route = await prisma.route.findUnique({
       where: { id },
-      include: { stops: true },
+      include: { stops: { include: { order: true }, orderBy: { sequence: 'asc' } } },
     });
 
     if (!route) {
@@ -467,41 +752,229 @@ export const completeRoute = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    if (route.stops.length === 0) {
+      res.status(400).json({ error: 'Route has no stops left. Cancel it instead.' });
+      return;
+    }
+
     // Calculate actual duration
     const startTime = route.startTime || new Date();
     const endTime = new Date();
     const actualDuration = Math.floor((endTime.getTime() - startTime.getTime()) / 60000); // minutes
 
-    // Update route and driver status
-    const [updatedRoute] = await prisma.$transaction([
+    const closedStops = route.stops
+      .filter((stop) => !isTerminalStopStatus(stop.status))
+      .map((stop) => ({
+        stop,
+        status: closingStopStatus(stop.status),
+        reason: stopReasons[stop.id] || reason || DEFAULT_CLOSING_REASON,
+      }));
+
+    const status = route.stops.every((stop) => stop.status === StopStatus.DELIVERED)
+      ? RouteStatus.COMPLETED
+      : RouteStatus.PARTIAL;
+
+    const driverStatus = await driverStatusAfterRoute(route.driverId, id);
+
+    // Close open stops, then update route and driver status. The route and each
+    // stop only move if they are still in the status read above; otherwise the
+    // whole transaction rolls back and a concurrent update wins.
+    const closed = await prisma
+      .$transaction(async (tx) => {
+        const closedRoute = await tx.route.updateMany({
+          where: { id, status: RouteStatus.IN_PROGRESS },
+          data: {
+            status,
+            endTime,
+            actualDuration,
+            lastUpdatedBy: req.user?.userId,
+          },
+        });
+        if (closedRoute.count === 0) throw new StaleWriteError();
+
+        for (const { stop, status: stopStatus, reason: stopReason } of closedStops) {
+          const closedStop = await tx.routeStop.updateMany({
+            where: { id: stop.id, status: stop.status },
+            data: {
+              status: stopStatus,
+              reason: stopReason,
+              actualTime: shouldStampActualTime(stopStatus, stop.actualTime) ? endTime : undefined,
+            },
+          });
+          if (closedStop.count === 0) throw new StaleWriteError();
+
+          await tx.order.update({
+            where: { id: stop.orderId },
+            data: { status: orderStatusForStop(stopStatus), lastUpdatedBy: req.user?.userId },
+          });
+        }
+
+        await tx.driver.update({
+          where: { id: route.driverId },
+          data: { status: driverStatus },
+        });
+
+        return true;
+      })
+      .catch((error) => {
+        if (error instanceof StaleWriteError) return false;
+        throw error;
+      });
+
+    if (!closed) {
+      res.status(409).json({ error: 'Route was updated by someone else. Reload and try again.' });
+      return;
+    }
+
+    const updatedRoute = await prisma.route.findUniqueOrThrow({ where: { id }, include: routeDetailsInclude });
+
+    emitEvent('route:completed', updatedRoute);
+    emitEvent('driver:statusChanged', updatedRoute.driver);
+    updatedRoute.stops
+      .filter((stop) => closedStops.some((closed) => closed.stop.id === stop.id))
+      .forEach((stop) => emitEvent('order:updated', stop.order));
+
+    // Reschedule or flag orders that failed on this route
+    const redeliveries = await processFailedOrdersForRoute(id);
+
+    const delivered = route.stops.filter((stop) => stop.status === StopStatus.DELIVERED).length;
+
+    await recordAudit(req, {
+      action: 'ROUTE_COMPLETED',
+      entityType: 'Route',
+      entityId: id,
+      before: route,
+      after: updatedRoute,
+      details: {
+        status,
+        delivered,
+        closedStops: closedStops.map(({ stop, status: stopStatus, reason: stopReason }) => ({
+          stopId: stop.id,
+          orderId: stop.orderId,
+          status: stopStatus,
+          reason: stopReason,
+        })),
+        redeliveries: redeliveries.length,
+      },
+    });
+
+    res.json({
+      message:
+        status === RouteStatus.COMPLETED
+          ? 'Route completed successfully'
+          : `Route partially completed: ${delivered} of ${route.stops.length} stops delivered`,
+      route: updatedRoute,
+      closedStops: closedStops.map(({ stop, status: stopStatus, reason: stopReason }) => ({
+        stopId: stop.id,
+        orderId: stop.orderId,
+        orderNumber: stop.order.orderNumber,
+        status: stopStatus,
+        reason: stopReason,
+      })),
+      redeliveries,
+    });
+  } catch (error) {
+    console.error('Complete route error:', error);
+    res.status(500).json({ error: 'Failed to complete route' });
+  }
+};
+
+/**
+ * Cancel route
+ * Body: { reason } (required)
+ * Orders not yet delivered or attempted go back to PENDING for another route;
+ * failed and skipped orders go through the retry policy. Delivered stops stay
+ * on the route as a record of what was done.
+ */
+export const cancelRoute = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body || {};
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'Cancellation reason is required' });
+      return;
+    }
+
+    const route = await prisma.route.findUnique({
+      where: { id },
+      include: { stops: true },
+    });
+
+    if (!route) {
+      res.status(404).json({ error: 'Route not found' });
+      return;
+    }
+
+    if (FINISHED_ROUTE_STATUSES.includes(route.status)) {
+      res.status(400).json({ error: `Cannot cancel ${route.status.toLowerCase()} route` });
+      return;
+    }
+
+    const wasRunning = route.status === RouteStatus.IN_PROGRESS;
+    const released = route.stops.filter((stop) => !isTerminalStopStatus(stop.status));
+    const releasedOrderIds = released.map((stop) => stop.orderId);
+    const now = new Date();
+
+    await prisma.$transaction([
+      prisma.routeStop.deleteMany({ where: { id: { in: released.map((stop) => stop.id) } } }),
+      prisma.order.updateMany({
+        where: { id: { in: releasedOrderIds } },
+        data: { status: OrderStatus.PENDING, lastUpdatedBy: req.user?.userId },
+      }),
       prisma.route.update({
         where: { id },
         data: {
-          status: RouteStatus.COMPLETED,
-          endTime,
-          actualDuration,
-        },
-        include: {
-          driver: true,
-          stops: {
-            include: { order: true },
-            orderBy: { sequence: 'asc' },
-          },
+          status: RouteStatus.CANCELLED,
+          cancelledAt: now,
+          cancelReason: reason.trim(),
+          endTime: wasRunning ? now : undefined,
+          actualDuration:
+            wasRunning && route.startTime
+              ? Math.floor((now.getTime() - route.startTime.getTime()) / 60000)
+              : undefined,
+          lastUpdatedBy: req.user?.userId,
         },
       }),
-      prisma.driver.update({
-        where: { id: route.driverId },
-        data: { status: DriverStatus.AVAILABLE },
-      }),
+      ...(wasRunning
+        ? [
+            prisma.driver.update({
+              where: { id: route.driverId },
+              data: { status: await driverStatusAfterRoute(route.driverId, id) },
+            }),
+          ]
+        : []),
     ]);
 
+    const updatedRoute = await prisma.route.findUniqueOrThrow({ where: { id }, include: routeDetailsInclude });
+
+    emitEvent('route:cancelled', updatedRoute);
+    if (wasRunning) emitEvent('driver:statusChanged', updatedRoute.driver);
+
+    const releasedOrders = await prisma.order.findMany({ where: { id: { in: releasedOrderIds } } });
+    releasedOrders.forEach((order) => emitEvent('order:updated', order));
+
+    // Orders that already failed on this route are not waiting on it any more
+    const redeliveries = await processFailedOrdersForRoute(id);
+
+    await recordAudit(req, {
+      action: 'ROUTE_CANCELLED',
+      entityType: 'Route',
+      entityId: id,
+      before: route,
+      after: updatedRoute,
+      details: { reason: reason.trim(), releasedOrderIds, redeliveries: redeliveries.length },
+    });
+
     res.json({
-      message: 'Route completed successfully',
+      message: `Route cancelled, ${releasedOrderIds.length} orders released`,
       route: updatedRoute,
+      releasedOrderIds,
+      redeliveries,
     });
   } catch (error) {
-    console.error('Complete route error:', error);
-    res.status(500).json({ error: 'Failed to complete route' });
+    console.error('Cancel route error:', error);
+    res.status(500).json({ error: 'Failed to cancel route' });
   }
 };
 
@@ -513,12 +986,16 @@ export const getRouteStats = async (req: Request, res: Response): Promise<void>
       pendingRoutes,
       inProgressRoutes,
       completedRoutes,
+      partialRoutes,
+      cancelledRoutes,
       todayRoutes,
     ] = await Promise.all([
       prisma.route.count(),
       prisma.route.count({ where: { status: 'PENDING' } }),
       prisma.route.count({ where: { status: 'IN_PROGRESS' } }),
       prisma.route.count({ where: { status: 'COMPLETED' } }),
+      prisma.route.count({ where: { status: 'PARTIAL' } }),
+      prisma.route.count({ where: { status: 'CANCELLED' } }),
       prisma.route.count({
         where: {
           date: {
@@ -535,6 +1012,8 @@ export const getRouteStats = async (req: Request, res: Response): Promise<void>
         pending: pendingRoutes,
         inProgress: inProgressRoutes,
         completed: completedRoutes,
+        partial: partialRoutes,
+        cancelled: cancelledRoutes,
         today: todayRoutes,
       },
     });
@@ -544,9 +1023,62 @@ export const getRouteStats = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// Distance matrix cache hit/miss counters since startup
+export const getDistanceCache = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ cache: getDistanceCacheStats() });
+  } catch (error) {
+    console.error('Get distance cache error:', error);
+    res.status(500).json({ error: 'Failed to fetch distance cache statistics' });
+  }
+};
+
+const MAX_SEARCH_BUDGET_MS = 10000;
+const MAX_PRIORITY_WEIGHT = 10;
+
 export const optimizeRoute = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
+    const {
+      timeWindowMode = 'soft',
+      startTime,
+      algorithm = 'nearest_neighbor',
+      timeBudgetMs = DEFAULT_SEARCH_BUDGET_MS,
+      priorityWeight = 1,
+    } = req.body || {};
+
+    if (!TIME_WINDOW_MODES.includes(timeWindowMode)) {
+      res.status(400).json({
+        error: 'Invalid time window mode',
+        validModes: TIME_WINDOW_MODES,
+      });
+      return;
+    }
+
+    if (!OPTIMIZATION_ALGORITHMS.includes(algorithm)) {
+      res.status(400).json({
+        error: 'Invalid optimization algorithm',
+        validAlgorithms: OPTIMIZATION_ALGORITHMS,
+      });
+      return;
+    }
+
+    const searchBudget = Number(timeBudgetMs);
+    if (!Number.isFinite(searchBudget) || searchBudget <= 0 || searchBudget > MAX_SEARCH_BUDGET_MS) {
+      res.status(400).json({ error: `Time budget must be between 1 and ${MAX_SEARCH_BUDGET_MS} ms` });
+      return;
+    }
+
+    const priorityScale = Number(priorityWeight);
+    if (!Number.isFinite(priorityScale) || priorityScale < 0 || priorityScale > MAX_PRIORITY_WEIGHT) {
+      res.status(400).json({ error: `Priority weight must be between 0 and ${MAX_PRIORITY_WEIGHT}` });
+      return;
+    }
+
+    if (startTime && isNaN(new Date(startTime).getTime())) {
+      res.status(400).json({ error: 'Invalid start time' });
+      return;
+    }
 
     console.log(`📊 Optimization requested for route: ${id}`);
 
@@ -554,6 +1086,8 @@ export const optimizeRoute = async (req: Request, res: Response): Promise<void>
     const route = await prisma.route.findUnique({
       where: { id },
       include: {
+        driver: true,
+        depot: true,
         stops: {
           include: {
             order: true,
@@ -573,14 +1107,42 @@ export const optimizeRoute = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Don't optimize completed routes
-    if (route.status === 'COMPLETED') {
-      res.status(400).json({ error: 'Cannot optimize completed route' });
+    // Don't optimize finished routes
+    if (FINISHED_ROUTE_STATUSES.includes(route.status)) {
+      res.status(400).json({ error: `Cannot optimize ${route.status.toLowerCase()} route` });
+      return;
+    }
+
+    // On a running route the stops already started or done keep their place;
+    // only the pending ones after them are optimized
+    const lockedStops =
+      route.status === RouteStatus.IN_PROGRESS ? route.stops.slice(0, lockedStopCount(route.stops)) : [];
+    const openStops = route.stops.slice(lockedStops.length);
+
+    // The vehicle leaves the depot with every parcel on board, and carries them until delivered
+    const capacity = vehicleCapacity(route.driver);
+    const stopLoads = route.stops
+      .filter((stop) => stop.status !== StopStatus.DELIVERED)
+      .map((stop) => toLoadedOrder(stop.order));
+    const overCapacityOrders = findOverCapacityOrders(capacity, EMPTY_LOAD, stopLoads);
+
+    if (overCapacityOrders.length > 0) {
+      res.status(400).json({
+        error: `Route is over capacity: ${overCapacityOrders.length} orders do not fit the ${route.driver.vehicleType}`,
+        capacity,
+        currentLoad: totalLoad(stopLoads),
+        overCapacityOrders,
+      });
+      return;
+    }
+
+    if (openStops.length === 0) {
+      res.status(400).json({ error: 'No pending stops left to optimize' });
       return;
     }
 
     // Filter stops with valid coordinates
-    const validStops = route.stops.filter(
+    const validStops = openStops.filter(
       (stop) =>
         stop.order.latitude !== null &&
         stop.order.longitude !== null
@@ -593,46 +1155,110 @@ export const optimizeRoute = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    if (validStops.length < route.stops.length) {
-      console.log(`⚠️  Warning: ${route.stops.length - validStops.length} stops missing coordinates`);
+    if (validStops.length < openStops.length) {
+      console.log(`⚠️  Warning: ${openStops.length - validStops.length} stops missing coordinates`);
     }
 
     // Prepare locations for optimization
-    const locations: Location[] = validStops.map((stop) => ({
-      id: stop.orderId,
-      orderNumber: stop.order.orderNumber,
-      address: stop.order.address,
-      latitude: stop.order.latitude!,
-      longitude: stop.order.longitude!,
-    }));
-
-    // Run optimization
-    const optimizedResult = optimizeRouteNearestNeighbor(locations);
-
-    // Update route stops with new sequence
+    const locations: Location[] = validStops.map((stop) => toLocation(stop.order));
+
+    // A running route continues now from the driver's current or last stop
+    const remaining = remainingStart(route, lockedStops);
+    const scheduleStart = startTime ? new Date(startTime) : remaining.startTime;
+    const depot = toRouteDepot(route.depot, route.returnToDepot);
+    const startPoint: RouteDepot | null = remaining.origin
+      ? {
+          id: 'current-position',
+          name: 'Current position',
+          ...remaining.origin,
+          returnToDepot: Boolean(depot?.returnToDepot),
+        }
+      : depot;
+
+    // Run optimization (time-window aware when any stop has a window)
+    const hasTimeWindows = locations.some((location) => location.timeWindow);
+
+    const timeWindowOptions = hasTimeWindows
+      ? { startTime: scheduleStart, mode: timeWindowMode as TimeWindowMode }
+      : undefined;
+
+    // Priority weight 0 sequences purely on distance and windows
+    const priorityOptions =
+      priorityScale > 0
+        ? { policy: priorityPolicy, weight: priorityScale, startTime: scheduleStart }
+        : undefined;
+
+    // Road distances and driving times from the configured provider
+    const matrix = await remainingMatrix(locations, depot, remaining.origin);
+
+    // Distance of the current stop order, to report the gain
+    const distanceBefore = calculateRouteDistance(
+      locations,
+      locations.map((location) => location.id),
+      startPoint,
+      matrix
+    );
+
+    const constructedRoute = timeWindowOptions
+      ? optimizeRouteWithTimeWindows(locations, timeWindowOptions, startPoint, matrix)
+      : optimizeRouteNearestNeighbor(locations, startPoint, matrix);
+
+    // Local search on top of the construction
+    const optimizedResult = improveRoute(locations, constructedRoute, {
+      algorithm: algorithm as OptimizationAlgorithm,
+      timeBudgetMs: searchBudget,
+      timeWindows: timeWindowOptions,
+      depot: startPoint,
+      priorities: priorityOptions,
+      matrix,
+    });
+
+    const schedule =
+      optimizedResult.schedule ||
+      buildSchedule(locations, optimizedResult.sequence, scheduleStart, startPoint, matrix);
+    const scheduleById = new Map(schedule.stops.map((stop) => [stop.id, stop]));
+
+    // Locked stops, the optimized ones, then any without coordinates
+    const optimizedStops = [
+      ...optimizedResult.sequence.flatMap((orderId) => validStops.filter((stop) => stop.orderId === orderId)),
+      ...openStops.filter((stop) => !validStops.includes(stop)),
+    ];
+
+    // Totals of a running route still cover the stops already driven
+    const totals =
+      lockedStops.length > 0 ? await measureStops(route, [...lockedStops, ...optimizedStops]) : optimizedResult;
+
+    // Returning after the depot closes needs a dispatcher's attention
+    const depotHours = parseTimeWindow(route.depot?.operatingHours);
+    const returnMinutes = schedule.endTime.getHours() * 60 + schedule.endTime.getMinutes();
+    const returnsAfterClosing = Boolean(depot?.returnToDepot && depotHours && returnMinutes > depotHours.end);
+
+    // Update route stops with new sequence and ETAs
     console.log('💾 Updating database with optimized sequence...');
-    
-    for (let i = 0; i < optimizedResult.sequence.length; i++) {
-      const orderId = optimizedResult.sequence[i];
-      const stop = route.stops.find((s) => s.orderId === orderId);
 
-      if (stop) {
-        await prisma.routeStop.update({
+    await prisma.$transaction(
+      optimizedStops.map((stop, i) =>
+        prisma.routeStop.update({
           where: { id: stop.id },
-          data: { sequence: i + 1 },
-        });
-      }
-    }
+          data: {
+            sequence: lockedStops.length + i + 1,
+            estimatedTime: scheduleById.get(stop.orderId)?.serviceStart ?? null,
+          },
+        })
+      )
+    );
 
     // Update route with optimization results
     const updatedRoute = await prisma.route.update({
       where: { id },
       data: {
-        totalDistance: optimizedResult.totalDistance,
-        estimatedDuration: optimizedResult.estimatedDuration,
+        totalDistance: totals.totalDistance,
+        estimatedDuration: totals.estimatedDuration,
+        lastUpdatedBy: req.user?.userId,
       },
       include: {
         driver: true,
+        depot: true,
         stops: {
           include: { order: true },
           orderBy: { sequence: 'asc' },
@@ -642,18 +1268,210 @@ export const optimizeRoute = async (req: Request, res: Response): Promise<void>
 
     console.log('✅ Route optimization complete and saved!');
 
+    await recordAudit(req, {
+      action: 'ROUTE_OPTIMIZED',
+      entityType: 'Route',
+      entityId: id,
+      before: route,
+      after: updatedRoute,
+      details: {
+        algorithm: optimizedResult.algorithm,
+        sequenceBefore: route.stops.map((stop) => stop.orderId),
+        sequenceAfter: [...lockedStops, ...optimizedStops].map((stop) => stop.orderId),
+      },
+    });
+
     res.json({
       message: 'Route optimized successfully',
       route: updatedRoute,
       optimization: {
-        totalDistance: optimizedResult.totalDistance,
-        estimatedDuration: optimizedResult.estimatedDuration,
+        totalDistance: totals.totalDistance,
+        estimatedDuration: totals.estimatedDuration,
         stopsOptimized: optimizedResult.sequence.length,
+        stopsLocked: lockedStops.length,
         algorithm: optimizedResult.algorithm,
+        distanceProvider: matrix.provider,
+        load: totalLoad(stopLoads),
+        capacity,
+        distanceBefore,
+        distanceAfter: optimizedResult.totalDistance,
+        distanceSaved: Math.round((distanceBefore - optimizedResult.totalDistance) * 100) / 100,
+        improvementPercent:
+          distanceBefore > 0
+            ? Math.round(((distanceBefore - optimizedResult.totalDistance) / distanceBefore) * 1000) / 10
+            : 0,
+        constructionDistance: constructedRoute.totalDistance,
+        timeWindowMode: hasTimeWindows ? timeWindowMode : null,
+        depot: depot
+          ? {
+              id: depot.id,
+              name: depot.name,
+              returnToDepot: depot.returnToDepot,
+              closesAt: depotHours ? formatMinutes(depotHours.end) : null,
+              returnsAfterClosing,
+            }
+          : null,
+        startTime: schedule.startTime,
+        endTime: schedule.endTime,
+        totalWaitMinutes: schedule.totalWaitMinutes,
+        priorityWeight: priorityScale,
+        priorityStops: explainPriorityPlacement(locations, schedule, priorityPolicy),
+        lateStops: schedule.lateStops.map((stop) => ({
+          orderId: stop.id,
+          orderNumber: stop.orderNumber,
+          estimatedTime: stop.serviceStart,
+          timeWindow: stop.timeWindow,
+          lateMinutes: stop.lateMinutes,
+        })),
       },
     });
   } catch (error) {
     console.error('❌ Optimize route error:', error);
     res.status(500).json({ error: 'Failed to optimize route' });
   }
-};
\ No newline at end of file
+};
+
+// Stops that have been started or finished keep their place in the sequence
+const LOCKED_STOP_STATUSES: StopStatus[] = [
+  StopStatus.EN_ROUTE,
+  StopStatus.ARRIVED,
+  StopStatus.DELIVERED,
+  StopStatus.FAILED,
+  StopStatus.SKIPPED,
+];
+
+/**
+ * Set a dispatcher's own stop order
+ * Body: { stopIds: [...all stop IDs in the new order], preview?: boolean }
+ * Distance, duration and ETAs are recalculated; preview returns them without saving
+ */
+export const resequenceRoute = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { stopIds, preview = false } = req.body || {};
+
+    if (!Array.isArray(stopIds) || stopIds.length === 0 || !stopIds.every((stopId) => typeof stopId === 'string')) {
+      res.status(400).json({ error: 'Stop IDs array is required' });
+      return;
+    }
+
+    const route = await prisma.route.findUnique({
+      where: { id },
+      include: {
+        driver: true,
+        depot: true,
+        stops: {
+          include: { order: true },
+          orderBy: { sequence: 'asc' },
+        },
+      },
+    });
+
+    if (!route) {
+      res.status(404).json({ error: 'Route not found' });
+      return;
+    }
+
+    if (route.status !== RouteStatus.PENDING && route.status !== RouteStatus.IN_PROGRESS) {
+      res.status(400).json({ error: `Cannot resequence a ${route.status.toLowerCase()} route` });
+      return;
+    }
+
+    // The new order must contain every stop of the route exactly once
+    const stopsById = new Map(route.stops.map((stop) => [stop.id, stop]));
+    const unknownStopIds = stopIds.filter((stopId: string) => !stopsById.has(stopId));
+    const missingStopIds = route.stops.map((stop) => stop.id).filter((stopId) => !stopIds.includes(stopId));
+
+    if (unknownStopIds.length > 0 || missingStopIds.length > 0 || new Set(stopIds).size !== stopIds.length) {
+      res.status(400).json({
+        error: 'Stop IDs must list every stop of the route exactly once',
+        unknownStopIds,
+        missingStopIds,
+      });
+      return;
+    }
+
+    const movedLockedStops = route.stops
+      .filter((stop, index) => LOCKED_STOP_STATUSES.includes(stop.status) && stopIds[index] !== stop.id)
+      .map((stop) => ({ stopId: stop.id, orderNumber: stop.order.orderNumber, status: stop.status }));
+
+    if (movedLockedStops.length > 0) {
+      res.status(400).json({
+        error: 'Stops that are under way or finished cannot be moved',
+        movedLockedStops,
+      });
+      return;
+    }
+
+    const orderedStops = stopIds.map((stopId: string) => stopsById.get(stopId)!);
+
+    const distanceBefore = Number(route.totalDistance ?? 0);
+    const lockedStops = route.status === RouteStatus.IN_PROGRESS ? lockedStopCount(orderedStops) : 0;
+    const { totalDistance, estimatedDuration, schedule, distanceProvider, estimatedTimes } = await measureStops(
+      route,
+      orderedStops
+    );
+
+    const summary = {
+      totalDistance,
+      estimatedDuration,
+      distanceBefore,
+      distanceProvider,
+      lateStops: schedule.lateStops.map((stop) => ({
+        orderId: stop.id,
+        orderNumber: stop.orderNumber,
+        estimatedTime: stop.serviceStart,
+        lateMinutes: stop.lateMinutes,
+      })),
+      stops: orderedStops.map((stop, index) => ({
+        stopId: stop.id,
+        sequence: index + 1,
+        // Stops under way or done on a running route keep their ETAs
+        estimatedTime: estimatedTimes.get(stop.orderId) ?? (index < lockedStops ? stop.estimatedTime : null),
+      })),
+    };
+
+    if (preview) {
+      res.json({ preview: summary });
+      return;
+    }
+
+    // All stops and the route totals change together
+    await prisma.$transaction(await sequenceOperations(route, orderedStops, req.user?.userId));
+
+    const updatedRoute = await prisma.route.findUniqueOrThrow({
+      where: { id },
+      include: {
+        driver: true,
+        depot: true,
+        stops: {
+          include: { order: true },
+          orderBy: { sequence: 'asc' },
+        },
+      },
+    });
+
+    await recordAudit(req, {
+      action: 'ROUTE_RESEQUENCED',
+      entityType: 'Route',
+      entityId: id,
+      before: route,
+      after: updatedRoute,
+      details: {
+        sequenceBefore: route.stops.map((stop) => stop.orderId),
+        sequenceAfter: orderedStops.map((stop) => stop.orderId),
+      },
+    });
+
+    emitEvent('route:updated', updatedRoute);
+
+    res.json({
+      message: 'Route resequenced successfully',
+      route: updatedRoute,
+      resequence: summary,
+    });
+  } catch (error) {
+    console.error('Resequence route error:', error);
+    res.status(500).json({ error: 'Failed to resequence route' });
+  }
+};
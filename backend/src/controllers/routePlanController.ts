@@ -0,0 +1,508 @@
+// filepath: backend/src/controllers/routePlanController.ts
+import { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import prisma from '../config/database';
+import { Prisma, DriverStatus, OrderStatus, RouteStatus, VehicleType } from '@prisma/client';
+import {
+  optimizeRouteNearestNeighbor,
+  optimizeRouteWithTimeWindows,
+  improveRoute,
+  buildSchedule,
+  TimeWindowMode,
+  TIME_WINDOW_MODES,
+  OptimizationAlgorithm,
+  OPTIMIZATION_ALGORITHMS,
+} from '../utils/routeOptimizer';
+import { clusterOrders, PlanOrder, PlanVehicle, VEHICLE_STOP_CAPACITY } from '../utils/fleetPlanner';
+import { getScheduleStart, toRouteDepot } from '../utils/depot';
+import { getRouteMatrix } from '../utils/distanceProvider';
+import { priorityPolicy } from '../config/priorityPolicy';
+import { orderLoad, vehicleCapacity, addLoad, Load, EMPTY_LOAD } from '../utils/capacity';
+import { Capacity } from '../config/vehicleCapacity';
+import { parseTimeWindow } from '../utils/timeWindow';
+import { emitEvent } from '../config/socket';
+import { recordAudit } from '../utils/audit';
+import { parseRouteDay, routeDayRange } from '../utils/routeDay';
+import { isSerializationFailure, isUniqueViolation } from '../utils/prismaErrors';
+
+/**
+ * Fleet planning previews are kept in memory until committed, discarded or
+ * expired. A restart drops open previews; the dispatcher simply plans again.
+ */
+
+interface PlannedStop {
+  orderId: string;
+  orderNumber: string;
+  sequence: number;
+  estimatedTime: Date;
+  timeWindow: string | null;
+  lateMinutes: number;
+}
+
+interface PlannedRoute {
+  driverId: string;
+  driverName: string;
+  vehicleType: VehicleType;
+  depotId: string | null;
+  depotName: string | null;
+  returnToDepot: boolean;
+  load: Load;
+  capacity: Capacity;
+  totalDistance: number;
+  estimatedDuration: number;
+  algorithm: string;
+  startTime: Date;
+  endTime: Date;
+  stops: PlannedStop[];
+}
+
+interface RoutePlan {
+  id: string;
+  date: Date;
+  createdAt: Date;
+  expiresAt: Date;
+  routes: PlannedRoute[];
+  unassigned: { orderId: string; orderNumber: string; reason: string }[];
+  summary: {
+    routes: number;
+    ordersPlanned: number;
+    ordersUnassigned: number;
+    totalDistance: number;
+  };
+}
+
+const PLAN_TTL_MS = 30 * 60 * 1000;
+const PLAN_SEARCH_BUDGET_MS = 500; // Per route
+const plans = new Map<string, RoutePlan>();
+
+const committedRouteInclude = {
+  driver: true,
+  depot: true,
+  stops: {
+    include: { order: true },
+    orderBy: { sequence: 'asc' },
+  },
+} satisfies Prisma.RouteInclude;
+
+type CommittedRoute = Prisma.RouteGetPayload<{ include: typeof committedRouteInclude }>;
+
+// The routes a commit created, or what made its plan out of date
+interface CommitOutcome {
+  routes?: CommittedRoute[];
+  conflicts?: { orders: string[]; drivers: { id: string; name: string }[] };
+}
+
+const purgeExpiredPlans = (): void => {
+  const now = Date.now();
+  plans.forEach((plan, id) => {
+    if (plan.expiresAt.getTime() <= now) plans.delete(id);
+  });
+};
+
+const findPlan = (planId: string): RoutePlan | undefined => {
+  purgeExpiredPlans();
+  return plans.get(planId);
+};
+
+// Plan routes for a day: split pending orders across available drivers
+export const createRoutePlan = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      date,
+      driverIds,
+      maxStopsPerRoute,
+      algorithm = 'two_opt_or_opt',
+      timeWindowMode = 'soft',
+    } = req.body;
+
+    const planDate = parseRouteDay(date);
+    if (!planDate) {
+      res.status(400).json({ error: 'Valid plan date is required' });
+      return;
+    }
+
+    if (driverIds !== undefined && (!Array.isArray(driverIds) || driverIds.length === 0)) {
+      res.status(400).json({ error: 'Driver IDs must be a non-empty array' });
+      return;
+    }
+
+    if (maxStopsPerRoute !== undefined && !(Number.isInteger(maxStopsPerRoute) && maxStopsPerRoute > 0)) {
+      res.status(400).json({ error: 'Max stops per route must be a positive integer' });
+      return;
+    }
+
+    if (!OPTIMIZATION_ALGORITHMS.includes(algorithm)) {
+      res.status(400).json({
+        error: 'Invalid optimization algorithm',
+        validAlgorithms: OPTIMIZATION_ALGORITHMS,
+      });
+      return;
+    }
+
+    if (!TIME_WINDOW_MODES.includes(timeWindowMode)) {
+      res.status(400).json({
+        error: 'Invalid time window mode',
+        validModes: TIME_WINDOW_MODES,
+      });
+      return;
+    }
+
+    console.log(`🗺️  Fleet planning requested for ${planDate.toISOString().slice(0, 10)}`);
+
+    // Drivers free for the day: available and without a route on that date
+    const driverWhere: Prisma.DriverWhereInput = {
+      status: DriverStatus.AVAILABLE,
+      isActive: true,
+      deletedAt: null,
+      routes: {
+        none: {
+          date: routeDayRange(planDate),
+          deletedAt: null,
+          status: { not: RouteStatus.CANCELLED },
+        },
+      },
+    };
+
+    if (driverIds) driverWhere.id = { in: driverIds };
+
+    // Pending, unassigned orders that are due (redeliveries wait for their scheduled date)
+    const [drivers, orders] = await Promise.all([
+      prisma.driver.findMany({
+        where: driverWhere,
+        include: { homeDepot: true },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.order.findMany({
+        where: {
+          status: OrderStatus.PENDING,
+          deletedAt: null,
+          routeStops: { none: { detachedAt: null } },
+          OR: [{ scheduledDate: null }, { scheduledDate: { lte: planDate } }],
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    if (drivers.length === 0) {
+      res.status(400).json({ error: 'No available drivers for this date' });
+      return;
+    }
+
+    if (orders.length === 0) {
+      res.status(400).json({ error: 'No pending orders to plan' });
+      return;
+    }
+
+    const unassigned: RoutePlan['unassigned'] = orders
+      .filter((order) => order.latitude === null || order.longitude === null)
+      .map((order) => ({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        reason: 'Missing GPS coordinates',
+      }));
+
+    const planOrders: PlanOrder[] = orders
+      .filter((order) => order.latitude !== null && order.longitude !== null)
+      .map((order) => ({
+        id: order.id,
+        orderNumber: order.orderNumber,
+        address: order.address,
+        latitude: Number(order.latitude),
+        longitude: Number(order.longitude),
+        timeWindow: parseTimeWindow(order.timeWindow),
+        priority: order.priority,
+        load: orderLoad(order),
+      }));
+
+    const vehicles: PlanVehicle[] = drivers.map((driver) => ({
+      driverId: driver.id,
+      capacity: vehicleCapacity(driver),
+      maxStops: maxStopsPerRoute ?? VEHICLE_STOP_CAPACITY[driver.vehicleType],
+      depot: toRouteDepot(driver.homeDepot, true),
+    }));
+
+    // Cluster, then sequence each driver's orders
+    const { clusters, unassigned: overCapacity } = clusterOrders(planOrders, vehicles);
+
+    overCapacity.forEach((order) =>
+      unassigned.push({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        reason: 'Fleet capacity exceeded',
+      })
+    );
+
+    const routes: PlannedRoute[] = [];
+
+    for (const driver of drivers) {
+      const locations = clusters.get(driver.id);
+      if (!locations || locations.length === 0) continue;
+
+      const depot = toRouteDepot(driver.homeDepot, true);
+      const scheduleStart = getScheduleStart({ date: planDate, startTime: null, depot: driver.homeDepot });
+      const timeWindowOptions = locations.some((location) => location.timeWindow)
+        ? { startTime: scheduleStart, mode: timeWindowMode as TimeWindowMode }
+        : undefined;
+
+      const matrix = await getRouteMatrix(locations, depot);
+
+      const constructedRoute = timeWindowOptions
+        ? optimizeRouteWithTimeWindows(locations, timeWindowOptions, depot, matrix)
+        : optimizeRouteNearestNeighbor(locations, depot, matrix);
+
+      const optimizedRoute = improveRoute(locations, constructedRoute, {
+        algorithm: algorithm as OptimizationAlgorithm,
+        timeBudgetMs: PLAN_SEARCH_BUDGET_MS,
+        timeWindows: timeWindowOptions,
+        depot,
+        priorities: { policy: priorityPolicy, weight: 1, startTime: scheduleStart },
+        matrix,
+      });
+
+      const schedule =
+        optimizedRoute.schedule ||
+        buildSchedule(locations, optimizedRoute.sequence, scheduleStart, depot, matrix);
+
+      routes.push({
+        driverId: driver.id,
+        driverName: driver.name,
+        vehicleType: driver.vehicleType,
+        depotId: driver.homeDepot?.id ?? null,
+        depotName: driver.homeDepot?.name ?? null,
+        returnToDepot: true,
+        load: locations.reduce((load, location) => addLoad(load, location.load), EMPTY_LOAD),
+        capacity: vehicleCapacity(driver),
+        totalDistance: optimizedRoute.totalDistance,
+        estimatedDuration: optimizedRoute.estimatedDuration,
+        algorithm: optimizedRoute.algorithm,
+        startTime: schedule.startTime,
+        endTime: schedule.endTime,
+        stops: schedule.stops.map((stop, index) => ({
+          orderId: stop.id,
+          orderNumber: stop.orderNumber,
+          sequence: index + 1,
+          estimatedTime: stop.serviceStart,
+          timeWindow: stop.timeWindow,
+          lateMinutes: stop.lateMinutes,
+        })),
+      });
+    }
+
+    const now = new Date();
+    const plan: RoutePlan = {
+      id: randomUUID(),
+      date: planDate,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + PLAN_TTL_MS),
+      routes,
+      unassigned,
+      summary: {
+        routes: routes.length,
+        ordersPlanned: routes.reduce((sum, route) => sum + route.stops.length, 0),
+        ordersUnassigned: unassigned.length,
+        totalDistance: Math.round(routes.reduce((sum, route) => sum + route.totalDistance, 0) * 100) / 100,
+      },
+    };
+
+    purgeExpiredPlans();
+    plans.set(plan.id, plan);
+
+    console.log(
+      `✅ Plan ${plan.id}: ${plan.summary.routes} routes, ${plan.summary.ordersPlanned} orders, ` +
+        `${plan.summary.ordersUnassigned} unassigned`
+    );
+
+    res.status(201).json({
+      message: 'Route plan created. Commit it to create the routes.',
+      plan,
+    });
+  } catch (error) {
+    console.error('Create route plan error:', error);
+    res.status(500).json({ error: 'Failed to create route plan' });
+  }
+};
+
+// Get a plan preview
+export const getRoutePlan = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const plan = findPlan(req.params.planId);
+
+    if (!plan) {
+      res.status(404).json({ error: 'Route plan not found or expired' });
+      return;
+    }
+
+    res.json({ plan });
+  } catch (error) {
+    console.error('Get route plan error:', error);
+    res.status(500).json({ error: 'Failed to fetch route plan' });
+  }
+};
+
+// Create the planned routes and stops in one transaction
+export const commitRoutePlan = async (req: Request, res: Response): Promise<void> => {
+  const { planId } = req.params;
+  const plan = findPlan(planId);
+  let committed = false;
+
+  try {
+    if (!plan) {
+      res.status(404).json({ error: 'Route plan not found or expired' });
+      return;
+    }
+
+    // Claim the plan before the first await so a second commit of it gets a 404.
+    // It goes back into the store below if this commit doesn't go through.
+    plans.delete(planId);
+
+    const orderIds = plan.routes.flatMap((route) => route.stops.map((stop) => stop.orderId));
+    const driverIds = plan.routes.map((route) => route.driverId);
+
+    // Things may have moved since the preview was made. The checks and the writes
+    // run serializably, so a concurrent assignment either shows up here or makes
+    // this commit fail.
+    const result = await prisma
+      .$transaction(
+        async (tx): Promise<CommitOutcome> => {
+          const [availableOrders, busyDrivers] = await Promise.all([
+            tx.order.findMany({
+              where: {
+                id: { in: orderIds },
+                status: OrderStatus.PENDING,
+                deletedAt: null,
+                routeStops: { none: { detachedAt: null } },
+              },
+              select: { id: true },
+            }),
+            tx.driver.findMany({
+              where: {
+                id: { in: driverIds },
+                OR: [
+                  { isActive: false },
+                  { deletedAt: { not: null } },
+                  {
+                    routes: {
+                      some: {
+                        date: routeDayRange(plan.date),
+                        deletedAt: null,
+                        status: { not: RouteStatus.CANCELLED },
+                      },
+                    },
+                  },
+                ],
+              },
+              select: { id: true, name: true },
+            }),
+          ]);
+
+          const availableOrderIds = new Set(availableOrders.map((order) => order.id));
+          const staleOrders = orderIds.filter((orderId) => !availableOrderIds.has(orderId));
+
+          if (staleOrders.length > 0 || busyDrivers.length > 0) {
+            return { conflicts: { orders: staleOrders, drivers: busyDrivers } };
+          }
+
+          const routeCount = await tx.route.count();
+          const routes: CommittedRoute[] = [];
+
+          for (const [index, plannedRoute] of plan.routes.entries()) {
+            routes.push(
+              await tx.route.create({
+                data: {
+                  routeNumber: `RT-${String(routeCount + index + 1).padStart(6, '0')}`,
+                  driverId: plannedRoute.driverId,
+                  date: plan.date,
+                  depotId: plannedRoute.depotId,
+                  returnToDepot: plannedRoute.returnToDepot,
+                  totalDistance: plannedRoute.totalDistance,
+                  estimatedDuration: plannedRoute.estimatedDuration,
+                  status: RouteStatus.PENDING,
+                  lastUpdatedBy: req.user?.userId,
+                  stops: {
+                    create: plannedRoute.stops.map((stop) => ({
+                      orderId: stop.orderId,
+                      sequence: stop.sequence,
+                      estimatedTime: stop.estimatedTime,
+                    })),
+                  },
+                },
+                include: committedRouteInclude,
+              })
+            );
+          }
+
+          await tx.order.updateMany({
+            where: { id: { in: orderIds } },
+            data: { status: OrderStatus.ASSIGNED, lastUpdatedBy: req.user?.userId },
+          });
+
+          return { routes };
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      )
+      .catch((error): CommitOutcome => {
+        // Lost to a concurrent commit or assignment: serialization failure, or an order that got a stop
+        if (isSerializationFailure(error) || isUniqueViolation(error)) return {};
+        throw error;
+      });
+
+    const { routes, conflicts } = result;
+
+    if (!routes) {
+      res.status(409).json({
+        error: 'Route plan is out of date. Create a new plan.',
+        ...(conflicts && { conflicts }),
+      });
+      return;
+    }
+
+    committed = true;
+
+    routes.forEach((route) =>
+      route.stops.forEach((stop) =>
+        emitEvent('order:updated', { ...stop.order, status: OrderStatus.ASSIGNED })
+      )
+    );
+
+    for (const route of routes) {
+      await recordAudit(req, {
+        action: 'ROUTE_CREATED',
+        entityType: 'Route',
+        entityId: route.id,
+        after: route,
+        details: { planId, orderIds: route.stops.map((stop) => stop.orderId) },
+      });
+    }
+
+    console.log(`💾 Plan ${planId} committed: ${routes.length} routes created`);
+
+    res.status(201).json({
+      message: `Created ${routes.length} routes with ${orderIds.length} stops`,
+      routes,
+    });
+  } catch (error) {
+    console.error('Commit route plan error:', error);
+    res.status(500).json({ error: 'Failed to commit route plan' });
+  } finally {
+    if (plan && !committed) plans.set(planId, plan);
+  }
+};
+
+// Discard a plan preview
+export const discardRoutePlan = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { planId } = req.params;
+
+    if (!findPlan(planId)) {
+      res.status(404).json({ error: 'Route plan not found or expired' });
+      return;
+    }
+
+    plans.delete(planId);
+
+    res.json({ message: 'Route plan discarded' });
+  } catch (error) {
+    console.error('Discard route plan error:', error);
+    res.status(500).json({ error: 'Failed to discard route plan' });
+  }
+};
@@ -0,0 +1,170 @@
+// filepath: backend/src/controllers/routeRecommendationController.ts
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import { DriverStatus, OrderStatus, RouteStatus, StopStatus } from '@prisma/client';
+import { LATE_PENALTY_WEIGHT, TimeWindowMode, TIME_WINDOW_MODES } from '../utils/routeOptimizer';
+import { vehicleCapacity, toLoadedOrder, findOverCapacityOrders } from '../utils/capacity';
+import { Insertion, findBestInsertion, remainingLoad } from '../utils/insertion';
+import { hasCoordinates } from '../utils/routeSequence';
+import { parseRouteDay, routeDayRange } from '../utils/routeDay';
+
+/**
+ * Route Recommendations
+ * "Which driver should take this order?" Best insertion is tried on every
+ * open route of the day; routes that cannot take the order are listed with
+ * the reason.
+ */
+
+interface RouteCandidate {
+  routeId: string;
+  routeNumber: string;
+  status: RouteStatus;
+  driver: { id: string; name: string; vehicleType: string; status: DriverStatus };
+  remainingStops: number;
+  feasible: boolean;
+  reason: string | null;   // Why the route can't take the order
+  score: number | null;    // Lower is better: added minutes plus lateness penalty
+  insertion: Insertion | null;
+}
+
+const UNAVAILABLE_DRIVER_STATUSES: DriverStatus[] = [DriverStatus.OFF_DUTY, DriverStatus.UNAVAILABLE];
+
+// Feasible routes first, then on-time ones (hard mode), then cheapest
+function compareCandidates(mode: TimeWindowMode) {
+  return (a: RouteCandidate, b: RouteCandidate): number => {
+    if (a.feasible !== b.feasible) return a.feasible ? -1 : 1;
+    if (!a.insertion || !b.insertion) return 0;
+
+    if (mode === 'hard' && a.insertion.addedLateMinutes !== b.insertion.addedLateMinutes) {
+      return a.insertion.addedLateMinutes - b.insertion.addedLateMinutes;
+    }
+    return a.score! - b.score! || a.insertion.addedDistance - b.insertion.addedDistance;
+  };
+}
+
+/**
+ * Rank the day's open routes for an unassigned order
+ * Query: orderId, date? (default today), timeWindowMode? ('hard' | 'soft')
+ */
+export const recommendRoutes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { orderId, date, timeWindowMode = 'soft' } = req.query;
+
+    if (!orderId) {
+      res.status(400).json({ error: 'Order ID is required' });
+      return;
+    }
+
+    if (!TIME_WINDOW_MODES.includes(timeWindowMode as TimeWindowMode)) {
+      res.status(400).json({
+        error: `Invalid time window mode: ${timeWindowMode}`,
+        validModes: TIME_WINDOW_MODES,
+      });
+      return;
+    }
+
+    const day = date ? parseRouteDay(date) : new Date();
+    if (!day) {
+      res.status(400).json({ error: 'Invalid date' });
+      return;
+    }
+
+    const mode = timeWindowMode as TimeWindowMode;
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId as string },
+      include: { routeStops: { where: { detachedAt: null } } },
+    });
+
+    if (!order) {
+      res.status(404).json({ error: 'Order not found' });
+      return;
+    }
+
+    if (order.routeStops.length > 0 || order.status !== OrderStatus.PENDING) {
+      res.status(400).json({ error: `Order ${order.orderNumber} is not waiting for a route` });
+      return;
+    }
+
+    if (!hasCoordinates(order)) {
+      res.status(400).json({ error: `Order ${order.orderNumber} has no coordinates; geocode it first` });
+      return;
+    }
+
+    const routes = await prisma.route.findMany({
+      where: {
+        status: { in: [RouteStatus.PENDING, RouteStatus.IN_PROGRESS] },
+        date: routeDayRange(day),
+        driver: { isActive: true },
+      },
+      include: {
+        driver: true,
+        depot: true,
+        stops: { include: { order: true }, orderBy: { sequence: 'asc' } },
+      },
+      orderBy: { routeNumber: 'asc' },
+    });
+
+    const candidates: RouteCandidate[] = [];
+
+    // One at a time: each route may need a distance matrix from the provider
+    for (const route of routes) {
+      const candidate: RouteCandidate = {
+        routeId: route.id,
+        routeNumber: route.routeNumber,
+        status: route.status,
+        driver: {
+          id: route.driver.id,
+          name: route.driver.name,
+          vehicleType: route.driver.vehicleType,
+          status: route.driver.status,
+        },
+        remainingStops: route.stops.filter((stop) => stop.status === StopStatus.PENDING).length,
+        feasible: false,
+        reason: null,
+        score: null,
+        insertion: null,
+      };
+      candidates.push(candidate);
+
+      if (UNAVAILABLE_DRIVER_STATUSES.includes(route.driver.status)) {
+        candidate.reason = `Driver is ${route.driver.status.toLowerCase().replace('_', ' ')}`;
+        continue;
+      }
+
+      const overCapacity = findOverCapacityOrders(
+        vehicleCapacity(route.driver),
+        remainingLoad(route.stops),
+        [toLoadedOrder(order)]
+      );
+      if (overCapacity.length > 0) {
+        candidate.reason = `Over ${route.driver.vehicleType} capacity (${overCapacity[0].exceeds.join(', ')})`;
+        continue;
+      }
+
+      const insertion = await findBestInsertion(route, order, mode);
+
+      candidate.feasible = true;
+      candidate.insertion = insertion;
+      candidate.score =
+        insertion.addedMinutes + (mode === 'soft' ? insertion.addedLateMinutes * LATE_PENALTY_WEIGHT : 0);
+    }
+
+    candidates.sort(compareCandidates(mode));
+
+    res.json({
+      order: {
+        id: order.id,
+        orderNumber: order.orderNumber,
+        priority: order.priority,
+        timeWindow: order.timeWindow,
+      },
+      timeWindowMode: mode,
+      recommendation: candidates[0]?.feasible ? candidates[0] : null,
+      candidates,
+    });
+  } catch (error) {
+    console.error('❌ Recommend routes error:', error);
+    res.status(500).json({ error: 'Failed to recommend a route' });
+  }
+};
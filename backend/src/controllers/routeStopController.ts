@@ -0,0 +1,177 @@
+// filepath: backend/src/controllers/routeStopController.ts
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import { AttemptResult, RouteStatus, StopStatus } from '@prisma/client';
+import {
+  STOP_TRANSITIONS,
+  REASON_REQUIRED_STATUSES,
+  canTransitionStop,
+  orderStatusForStop,
+  shouldStampActualTime,
+} from '../utils/stopLifecycle';
+import { emitEvent } from '../config/socket';
+import { recordAudit } from '../utils/audit';
+
+// Move a stop to a new status and sync its order
+const transitionStop = async (
+  req: Request,
+  res: Response,
+  nextStatus: StopStatus
+): Promise<void> => {
+  const { id, stopId } = req.params;
+  const { reason, attemptResult } = req.body || {};
+
+  const stop = await prisma.routeStop.findFirst({
+    where: { id: stopId, routeId: id },
+    include: { route: true },
+  });
+
+  if (!stop) {
+    res.status(404).json({ error: 'Route stop not found' });
+    return;
+  }
+
+  if (stop.route.status !== RouteStatus.IN_PROGRESS) {
+    res.status(400).json({ error: 'Route is not in progress' });
+    return;
+  }
+
+  if (!canTransitionStop(stop.status, nextStatus)) {
+    res.status(400).json({
+      error: `Cannot move stop from ${stop.status} to ${nextStatus}`,
+      allowedTransitions: STOP_TRANSITIONS[stop.status],
+    });
+    return;
+  }
+
+  if (REASON_REQUIRED_STATUSES.includes(nextStatus) && !reason) {
+    res.status(400).json({ error: 'Reason is required' });
+    return;
+  }
+
+  // A failed stop may carry the attempt outcome the retry policy needs
+  const recordAttempt = nextStatus === StopStatus.FAILED && attemptResult !== undefined;
+
+  if (
+    recordAttempt &&
+    (attemptResult === AttemptResult.SUCCESS || !Object.values(AttemptResult).includes(attemptResult))
+  ) {
+    res.status(400).json({
+      error: 'Valid failed attempt result is required',
+      validResults: Object.values(AttemptResult).filter((result) => result !== AttemptResult.SUCCESS),
+    });
+    return;
+  }
+
+  const now = new Date();
+
+  // Update stop and order status together. The stop only moves if it is still
+  // in the status checked above; a concurrent update in between wins.
+  const updated = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.routeStop.updateMany({
+      where: { id: stop.id, status: stop.status },
+      data: {
+        status: nextStatus,
+        actualTime: shouldStampActualTime(nextStatus, stop.actualTime) ? now : undefined,
+        reason: REASON_REQUIRED_STATUSES.includes(nextStatus) ? reason : undefined,
+      },
+    });
+    if (claimed.count === 0) return null;
+
+    const updatedOrder = await tx.order.update({
+      where: { id: stop.orderId },
+      data: { status: orderStatusForStop(nextStatus), lastUpdatedBy: req.user?.userId },
+    });
+
+    if (recordAttempt) {
+      await tx.deliveryAttempt.create({
+        data: {
+          orderId: stop.orderId,
+          attemptedAt: now,
+          result: attemptResult,
+          reason,
+        },
+      });
+    }
+
+    const updatedStop = await tx.routeStop.findUniqueOrThrow({
+      where: { id: stop.id },
+      include: { order: true },
+    });
+
+    return { updatedStop, updatedOrder };
+  });
+
+  if (!updated) {
+    res.status(409).json({ error: 'Stop was updated by someone else. Reload and try again.' });
+    return;
+  }
+
+  const { updatedStop, updatedOrder } = updated;
+
+  await recordAudit(req, {
+    action: `STOP_${nextStatus}`,
+    entityType: 'RouteStop',
+    entityId: stop.id,
+    before: stop,
+    after: updatedStop,
+    details: { routeId: id, orderId: stop.orderId },
+  });
+
+  emitEvent('order:updated', updatedOrder);
+
+  res.json({
+    message: `Stop marked as ${nextStatus}`,
+    stop: updatedStop,
+  });
+};
+
+// Driver has left for the stop
+export const markStopEnRoute = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await transitionStop(req, res, StopStatus.EN_ROUTE);
+  } catch (error) {
+    console.error('Mark stop en route error:', error);
+    res.status(500).json({ error: 'Failed to update stop' });
+  }
+};
+
+// Driver has arrived at the stop
+export const markStopArrived = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await transitionStop(req, res, StopStatus.ARRIVED);
+  } catch (error) {
+    console.error('Mark stop arrived error:', error);
+    res.status(500).json({ error: 'Failed to update stop' });
+  }
+};
+
+// Order handed over
+export const markStopDelivered = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await transitionStop(req, res, StopStatus.DELIVERED);
+  } catch (error) {
+    console.error('Mark stop delivered error:', error);
+    res.status(500).json({ error: 'Failed to update stop' });
+  }
+};
+
+// Delivery could not be made (reason required, attemptResult optional)
+export const markStopFailed = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await transitionStop(req, res, StopStatus.FAILED);
+  } catch (error) {
+    console.error('Mark stop failed error:', error);
+    res.status(500).json({ error: 'Failed to update stop' });
+  }
+};
+
+// Stop was not visited (reason required)
+export const markStopSkipped = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await transitionStop(req, res, StopStatus.SKIPPED);
+  } catch (error) {
+    console.error('Mark stop skipped error:', error);
+    res.status(500).json({ error: 'Failed to update stop' });
+  }
+};
@@ -0,0 +1,356 @@
+// filepath: backend/src/controllers/stopTransferController.ts
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import { OrderStatus, Prisma, RouteStatus, StopStatus } from '@prisma/client';
+import { vehicleCapacity, toLoadedOrder, totalLoad, findOverCapacityOrders } from '../utils/capacity';
+import { remainingLoad } from '../utils/insertion';
+import { prepareSequence } from '../utils/routeSequence';
+import { StaleWriteError } from '../utils/prismaErrors';
+import { emitEvent } from '../config/socket';
+import { recordAudit } from '../utils/audit';
+
+/**
+ * Stop Transfers
+ * Take stops off a route, move them to another route, or swap them between
+ * two routes. Every route touched is renumbered and re-measured in the same
+ * transaction as the move. Stops only move while they are still pending on the
+ * route they were read from; if a concurrent update got there first, nothing is
+ * written and the request gets a 409.
+ */
+
+const routeInclude = {
+  driver: true,
+  depot: true,
+  stops: {
+    include: { order: true },
+    orderBy: { sequence: 'asc' },
+  },
+} satisfies Prisma.RouteInclude;
+
+type RouteWithStops = Prisma.RouteGetPayload<{ include: typeof routeInclude }>;
+type StopWithOrder = RouteWithStops['stops'][number];
+
+const OPEN_ROUTE_STATUSES: RouteStatus[] = [RouteStatus.PENDING, RouteStatus.IN_PROGRESS];
+
+const STALE_STOPS_ERROR = 'Stops were updated by someone else. Reload and try again.';
+
+const findRoute = (id: string) => prisma.route.findUnique({ where: { id }, include: routeInclude });
+
+// Selected stops that are still pending on the route they were read from
+const pendingStopsWhere = (routeId: string, stopIds: string[]): Prisma.RouteStopWhereInput => ({
+  id: { in: stopIds },
+  routeId,
+  status: StopStatus.PENDING,
+});
+
+// A transfer write has to match every selected stop, else the transaction rolls back
+function expectAllStops(written: Prisma.BatchPayload, stopIds: string[]): void {
+  if (written.count !== stopIds.length) throw new StaleWriteError();
+}
+
+// Run a transfer in one transaction; false when a concurrent update got there first
+function runTransfer(writes: (tx: Prisma.TransactionClient) => Promise<void>): Promise<boolean> {
+  return prisma
+    .$transaction(writes)
+    .then(() => true)
+    .catch((error) => {
+      if (error instanceof StaleWriteError) return false;
+      throw error;
+    });
+}
+
+// Why these stops can't leave the route, or null when they can
+function stopSelectionError(route: RouteWithStops, stopIds: unknown): string | null {
+  if (!OPEN_ROUTE_STATUSES.includes(route.status)) {
+    return `Cannot change stops of ${route.status.toLowerCase()} route ${route.routeNumber}`;
+  }
+
+  if (!Array.isArray(stopIds) || stopIds.length === 0 || !stopIds.every((stopId) => typeof stopId === 'string')) {
+    return 'Stop IDs array is required';
+  }
+
+  if (new Set(stopIds).size !== stopIds.length) return 'Stop IDs must not repeat';
+
+  const unknown = stopIds.filter((stopId) => !route.stops.some((stop) => stop.id === stopId));
+  if (unknown.length > 0) return `Stops not on route ${route.routeNumber}: ${unknown.join(', ')}`;
+
+  // Stops the driver has started or finished stay where they are
+  const locked = route.stops.filter((stop) => stopIds.includes(stop.id) && stop.status !== StopStatus.PENDING);
+  if (locked.length > 0) {
+    return `Only pending stops can be moved: ${locked.map((stop) => stop.order.orderNumber).join(', ')}`;
+  }
+
+  return null;
+}
+
+// Capacity error body when the incoming stops don't fit next to what the kept ones still carry
+function capacityError(route: RouteWithStops, kept: StopWithOrder[], incoming: StopWithOrder[]) {
+  const capacity = vehicleCapacity(route.driver);
+  const currentLoad = remainingLoad(kept);
+  const requested = incoming.map((stop) => toLoadedOrder(stop.order));
+  const overCapacityOrders = findOverCapacityOrders(capacity, currentLoad, requested);
+
+  if (overCapacityOrders.length === 0) return null;
+
+  return {
+    error: `Route ${route.routeNumber} capacity exceeded: ${overCapacityOrders.length} orders do not fit the ${route.driver.vehicleType}`,
+    capacity,
+    currentLoad,
+    requestedLoad: totalLoad(requested),
+    overCapacityOrders,
+  };
+}
+
+// Incoming stops take the places of the outgoing ones; extras go at the end
+function replaceStops(stops: StopWithOrder[], outgoing: StopWithOrder[], incoming: StopWithOrder[]): StopWithOrder[] {
+  const queue = [...incoming];
+  const replaced = stops.flatMap((stop) => {
+    if (!outgoing.includes(stop)) return [stop];
+    const next = queue.shift();
+    return next ? [next] : [];
+  });
+
+  return [...replaced, ...queue];
+}
+
+// Reload routes after a transfer and tell connected clients
+async function publishRoutes(ids: string[]): Promise<RouteWithStops[]> {
+  const routes = await Promise.all(
+    ids.map((id) => prisma.route.findUniqueOrThrow({ where: { id }, include: routeInclude }))
+  );
+
+  routes.forEach((route) => emitEvent('route:updated', route));
+  return routes;
+}
+
+// Take stops off a route; their orders go back to PENDING
+export const unassignStops = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { stopIds } = req.body || {};
+
+    const route = await findRoute(id);
+
+    if (!route) {
+      res.status(404).json({ error: 'Route not found' });
+      return;
+    }
+
+    const selectionError = stopSelectionError(route, stopIds);
+    if (selectionError) {
+      res.status(400).json({ error: selectionError });
+      return;
+    }
+
+    const removed = route.stops.filter((stop) => stopIds.includes(stop.id));
+    const remaining = route.stops.filter((stop) => !stopIds.includes(stop.id));
+    const orderIds = removed.map((stop) => stop.orderId);
+
+    const writeSequence = await prepareSequence(route, remaining, req.user?.userId);
+
+    const unassigned = await runTransfer(async (tx) => {
+      expectAllStops(await tx.routeStop.deleteMany({ where: pendingStopsWhere(id, stopIds) }), stopIds);
+      await tx.order.updateMany({
+        where: { id: { in: orderIds } },
+        data: { status: OrderStatus.PENDING, lastUpdatedBy: req.user?.userId },
+      });
+      await writeSequence(tx);
+    });
+
+    if (!unassigned) {
+      res.status(409).json({ error: STALE_STOPS_ERROR });
+      return;
+    }
+
+    const [updatedRoute] = await publishRoutes([id]);
+
+    const orders = await prisma.order.findMany({ where: { id: { in: orderIds } } });
+    orders.forEach((order) => emitEvent('order:updated', order));
+
+    await recordAudit(req, {
+      action: 'ROUTE_STOPS_UNASSIGNED',
+      entityType: 'Route',
+      entityId: id,
+      details: { orderIds },
+    });
+
+    res.json({
+      message: `Unassigned ${removed.length} stops from ${route.routeNumber}`,
+      route: updatedRoute,
+      orderIds,
+    });
+  } catch (error) {
+    console.error('Unassign stops error:', error);
+    res.status(500).json({ error: 'Failed to unassign stops' });
+  }
+};
+
+// Move stops to the end of another route
+export const moveStops = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { stopIds, targetRouteId } = req.body || {};
+
+    if (!targetRouteId || targetRouteId === id) {
+      res.status(400).json({ error: 'A different target route is required' });
+      return;
+    }
+
+    const [route, targetRoute] = await Promise.all([findRoute(id), findRoute(targetRouteId)]);
+
+    if (!route || !targetRoute) {
+      res.status(404).json({ error: route ? 'Target route not found' : 'Route not found' });
+      return;
+    }
+
+    const selectionError = stopSelectionError(route, stopIds);
+    if (selectionError) {
+      res.status(400).json({ error: selectionError });
+      return;
+    }
+
+    if (!OPEN_ROUTE_STATUSES.includes(targetRoute.status)) {
+      res.status(400).json({ error: `Cannot add stops to ${targetRoute.status.toLowerCase()} route ${targetRoute.routeNumber}` });
+      return;
+    }
+
+    const moved = route.stops.filter((stop) => stopIds.includes(stop.id));
+    const overCapacity = capacityError(targetRoute, targetRoute.stops, moved);
+
+    if (overCapacity) {
+      res.status(400).json(overCapacity);
+      return;
+    }
+
+    const remaining = route.stops.filter((stop) => !stopIds.includes(stop.id));
+
+    const writeSequences = await Promise.all([
+      prepareSequence(route, remaining, req.user?.userId),
+      prepareSequence(targetRoute, [...targetRoute.stops, ...moved], req.user?.userId),
+    ]);
+
+    const transferred = await runTransfer(async (tx) => {
+      expectAllStops(
+        await tx.routeStop.updateMany({ where: pendingStopsWhere(id, stopIds), data: { routeId: targetRouteId } }),
+        stopIds
+      );
+      for (const writeSequence of writeSequences) await writeSequence(tx);
+    });
+
+    if (!transferred) {
+      res.status(409).json({ error: STALE_STOPS_ERROR });
+      return;
+    }
+
+    const [updatedRoute, updatedTargetRoute] = await publishRoutes([id, targetRouteId]);
+    const orderIds = moved.map((stop) => stop.orderId);
+
+    for (const routeId of [id, targetRouteId]) {
+      await recordAudit(req, {
+        action: 'ROUTE_STOPS_MOVED',
+        entityType: 'Route',
+        entityId: routeId,
+        details: { orderIds, fromRouteId: id, toRouteId: targetRouteId },
+      });
+    }
+
+    res.json({
+      message: `Moved ${moved.length} stops from ${route.routeNumber} to ${targetRoute.routeNumber}`,
+      route: updatedRoute,
+      targetRoute: updatedTargetRoute,
+    });
+  } catch (error) {
+    console.error('Move stops error:', error);
+    res.status(500).json({ error: 'Failed to move stops' });
+  }
+};
+
+// Exchange stops between two routes; each side takes the other's places
+export const swapStops = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { stopIds, targetRouteId, targetStopIds } = req.body || {};
+
+    if (!targetRouteId || targetRouteId === id) {
+      res.status(400).json({ error: 'A different target route is required' });
+      return;
+    }
+
+    const [route, targetRoute] = await Promise.all([findRoute(id), findRoute(targetRouteId)]);
+
+    if (!route || !targetRoute) {
+      res.status(404).json({ error: route ? 'Target route not found' : 'Route not found' });
+      return;
+    }
+
+    const selectionError = stopSelectionError(route, stopIds) ?? stopSelectionError(targetRoute, targetStopIds);
+    if (selectionError) {
+      res.status(400).json({ error: selectionError });
+      return;
+    }
+
+    const outgoing = route.stops.filter((stop) => stopIds.includes(stop.id));
+    const incoming = targetRoute.stops.filter((stop) => targetStopIds.includes(stop.id));
+
+    const overCapacity =
+      capacityError(route, route.stops.filter((stop) => !outgoing.includes(stop)), incoming) ??
+      capacityError(targetRoute, targetRoute.stops.filter((stop) => !incoming.includes(stop)), outgoing);
+
+    if (overCapacity) {
+      res.status(400).json(overCapacity);
+      return;
+    }
+
+    const writeSequences = await Promise.all([
+      prepareSequence(route, replaceStops(route.stops, outgoing, incoming), req.user?.userId),
+      prepareSequence(targetRoute, replaceStops(targetRoute.stops, incoming, outgoing), req.user?.userId),
+    ]);
+
+    const swapped = await runTransfer(async (tx) => {
+      expectAllStops(
+        await tx.routeStop.updateMany({ where: pendingStopsWhere(id, stopIds), data: { routeId: targetRouteId } }),
+        stopIds
+      );
+      expectAllStops(
+        await tx.routeStop.updateMany({
+          where: pendingStopsWhere(targetRouteId, targetStopIds),
+          data: { routeId: id },
+        }),
+        targetStopIds
+      );
+      for (const writeSequence of writeSequences) await writeSequence(tx);
+    });
+
+    if (!swapped) {
+      res.status(409).json({ error: STALE_STOPS_ERROR });
+      return;
+    }
+
+    const [updatedRoute, updatedTargetRoute] = await publishRoutes([id, targetRouteId]);
+
+    const sent = outgoing.map((stop) => stop.orderId);
+    const received = incoming.map((stop) => stop.orderId);
+
+    await recordAudit(req, {
+      action: 'ROUTE_STOPS_SWAPPED',
+      entityType: 'Route',
+      entityId: id,
+      details: { otherRouteId: targetRouteId, sent, received },
+    });
+    await recordAudit(req, {
+      action: 'ROUTE_STOPS_SWAPPED',
+      entityType: 'Route',
+      entityId: targetRouteId,
+      details: { otherRouteId: id, sent: received, received: sent },
+    });
+
+    res.json({
+      message: `Swapped ${outgoing.length} stops of ${route.routeNumber} with ${incoming.length} of ${targetRoute.routeNumber}`,
+      route: updatedRoute,
+      targetRoute: updatedTargetRoute,
+    });
+  } catch (error) {
+    console.error('Swap stops error:', error);
+    res.status(500).json({ error: 'Failed to swap stops' });
+  }
+};
@@ -0,0 +1,267 @@
+// filepath: backend/src/controllers/userController.ts
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import { Prisma, UserRole } from '@prisma/client';
+import { hashPassword, generateTemporaryPassword } from '../utils/password';
+import { recordAudit } from '../utils/audit';
+import { revokeUserRefreshTokens } from '../utils/refreshToken';
+import { disconnectUser } from '../config/socket';
+
+// Never return password hashes
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  deletedAt: true,
+  lastUpdatedBy: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+// Removing or demoting the last active admin would lock everyone out
+const isLastActiveAdmin = async (userId: string): Promise<boolean> => {
+  const otherAdmins = await prisma.user.count({
+    where: {
+      id: { not: userId },
+      role: UserRole.ADMIN,
+      isActive: true,
+      deletedAt: null,
+    },
+  });
+
+  return otherAdmins === 0;
+};
+
+// Invite a user with a one-time password
+export const inviteUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, name, role = UserRole.VIEWER } = req.body;
+
+    if (!email || !name) {
+      res.status(400).json({ error: 'Email and name are required' });
+      return;
+    }
+
+    if (!Object.values(UserRole).includes(role)) {
+      res.status(400).json({
+        error: 'Valid role is required',
+        validRoles: Object.values(UserRole),
+      });
+      return;
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (existingUser) {
+      res.status(409).json({
+        error: existingUser.deletedAt
+          ? 'A deleted user already has this email'
+          : 'User with this email already exists',
+      });
+      return;
+    }
+
+    const temporaryPassword = generateTemporaryPassword();
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        name,
+        role,
+        password: await hashPassword(temporaryPassword),
+        isActive: true,
+        lastUpdatedBy: req.user?.userId,
+      },
+      select: userSelect,
+    });
+
+    await recordAudit(req, { action: 'USER_INVITED', entityType: 'User', entityId: user.id, after: user });
+
+    res.status(201).json({
+      message: 'User invited successfully',
+      user,
+      temporaryPassword, // Shown once; share it with the user
+    });
+  } catch (error) {
+    console.error('Invite user error:', error);
+    res.status(500).json({ error: 'Failed to invite user' });
+  }
+};
+
+// Get all users with filtering
+export const getUsers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { role, isActive, search, includeDeleted } = req.query;
+
+    const where: Prisma.UserWhereInput = {};
+
+    if (includeDeleted !== 'true') where.deletedAt = null;
+    if (role) where.role = role as UserRole;
+    if (isActive !== undefined) where.isActive = isActive === 'true';
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search as string, mode: 'insensitive' } },
+        { email: { contains: search as string, mode: 'insensitive' } },
+      ];
+    }
+
+    const users = await prisma.user.findMany({
+      where,
+      orderBy: { name: 'asc' },
+      select: userSelect,
+    });
+
+    res.json({ users });
+  } catch (error) {
+    console.error('Get users error:', error);
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+};
+
+// Get single user by ID
+export const getUserById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: userSelect,
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json({ user });
+  } catch (error) {
+    console.error('Get user error:', error);
+    res.status(500).json({ error: 'Failed to fetch user' });
+  }
+};
+
+// Update name, role or active flag
+export const updateUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, role, isActive } = req.body;
+
+    if (role !== undefined && !Object.values(UserRole).includes(role)) {
+      res.status(400).json({
+        error: 'Valid role is required',
+        validRoles: Object.values(UserRole),
+      });
+      return;
+    }
+
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      res.status(400).json({ error: 'isActive must be a boolean' });
+      return;
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id },
+      select: userSelect,
+    });
+
+    if (!existingUser || existingUser.deletedAt) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const demoted = role !== undefined && role !== UserRole.ADMIN;
+    const deactivated = isActive === false;
+
+    if (existingUser.role === UserRole.ADMIN && (demoted || deactivated) && (await isLastActiveAdmin(id))) {
+      res.status(400).json({ error: 'Cannot demote or deactivate the last active admin' });
+      return;
+    }
+
+    if (id === req.user?.userId && deactivated) {
+      res.status(400).json({ error: 'You cannot deactivate your own account' });
+      return;
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: {
+        name,
+        role,
+        isActive,
+        lastUpdatedBy: req.user?.userId,
+      },
+      select: userSelect,
+    });
+
+    // Deactivated users lose real-time updates now and are signed out once their access token expires
+    if (deactivated) {
+      await revokeUserRefreshTokens(id);
+      disconnectUser(id);
+    }
+
+    await recordAudit(req, {
+      action: 'USER_UPDATED',
+      entityType: 'User',
+      entityId: id,
+      before: existingUser,
+      after: user,
+    });
+
+    res.json({
+      message: 'User updated successfully',
+      user,
+    });
+  } catch (error) {
+    console.error('Update user error:', error);
+    res.status(500).json({ error: 'Failed to update user' });
+  }
+};
+
+// Soft delete (audit history keeps pointing at the user)
+export const deleteUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (id === req.user?.userId) {
+      res.status(400).json({ error: 'You cannot delete your own account' });
+      return;
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id },
+      select: userSelect,
+    });
+
+    if (!existingUser || existingUser.deletedAt) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (existingUser.role === UserRole.ADMIN && (await isLastActiveAdmin(id))) {
+      res.status(400).json({ error: 'Cannot delete the last active admin' });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id },
+      data: {
+        isActive: false,
+        deletedAt: new Date(),
+        lastUpdatedBy: req.user?.userId,
+      },
+    });
+
+    await revokeUserRefreshTokens(id);
+    disconnectUser(id);
+
+    await recordAudit(req, { action: 'USER_DELETED', entityType: 'User', entityId: id, before: existingUser });
+
+    res.json({ message: 'User deleted successfully' });
+  } catch (error) {
+    console.error('Delete user error:', error);
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+};
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, JwtPayload } from '../utils/jwt';
+import { Permission, rolesWithPermission } from '../config/permissions';
 
 // Extend Express Request to include user
 declare global {
@@ -28,7 +29,8 @@ export const authenticateToken = (
     req.user = decoded;
     next();
   } catch (error) {
-    res.status(403).json({ error: 'Invalid or expired token' });
+    // 401 tells the client to refresh; 403 is reserved for missing permissions
+    res.status(401).json({ error: 'Invalid or expired token' });
   }
 };
 
@@ -47,4 +49,6 @@ export const authorizeRoles = (...allowedRoles: string[]) => {
 
     next();
   };
-};
\ No newline at end of file
+};
+// Authorization by permission (see config/permissions.ts)
+export const requirePermission = (permission: Permission) => authorizeRoles(...rolesWithPermission(permission));
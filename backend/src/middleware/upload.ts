@@ -1,6 +1,8 @@
+import { Request, RequestHandler } from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import { IMAGE_EXTENSIONS } from '../utils/fileStorage';
 
 const uploadsDir = path.join(__dirname, '../../uploads');
 
@@ -33,3 +35,54 @@ export const upload = multer({
     fileSize: 5 * 1024 * 1024,
   },
 });
+
+// Proof-of-delivery images (photo, signature)
+const IMAGE_MIME_TYPES = Object.keys(IMAGE_EXTENSIONS);
+
+const imageFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (IMAGE_MIME_TYPES.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only JPEG, PNG and WebP images are allowed'));
+  }
+};
+
+// Kept in memory; the controller hands buffers to the file storage
+export const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: imageFileFilter,
+  limits: {
+    fileSize: 5 * 1024 * 1024,
+  },
+});
+
+// Leading bytes of each accepted image type (WebP: "RIFF", 4 size bytes, "WEBP")
+const IMAGE_SIGNATURES: Record<string, (buffer: Buffer) => boolean> = {
+  'image/jpeg': (buffer) => buffer.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  'image/png': (buffer) =>
+    buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/webp': (buffer) =>
+    buffer.subarray(0, 4).toString('latin1') === 'RIFF' && buffer.subarray(8, 12).toString('latin1') === 'WEBP',
+};
+
+/**
+ * Whether an uploaded image's content matches its declared type
+ * (the mimetype multer reports comes from the client)
+ */
+export const hasImageContent = (file: Express.Multer.File): boolean =>
+  IMAGE_SIGNATURES[file.mimetype]?.(file.buffer) ?? false;
+
+/**
+ * Runs a multer middleware and answers rejected uploads (type, size, field) with a 400
+ */
+export const handleUpload =
+  (middleware: RequestHandler): RequestHandler =>
+  (req, res, next) => {
+    middleware(req, res, (error?: unknown) => {
+      if (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid upload' });
+        return;
+      }
+      next();
+    });
+  };
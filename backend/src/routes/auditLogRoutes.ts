@@ -0,0 +1,14 @@
+// filepath: backend/src/routes/auditLogRoutes.ts
+import { Router } from 'express';
+import { getAuditLogs } from '../controllers/auditLogController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+// Audit trail (who changed what)
+router.get('/', requirePermission('audit:read'), getAuditLogs);
+
+export default router;
@@ -1,5 +1,14 @@
 import { Router } from 'express';
-import { register, login, getProfile } from '../controllers/authController';
+import {
+  register,
+  login,
+  refresh,
+  logout,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  getProfile,
+} from '../controllers/authController';
 import { authenticateToken } from '../middleware/auth';
 
 const router = Router();
@@ -7,8 +16,13 @@ const router = Router();
 // Public routes
 router.post('/register', register);
 router.post('/login', login);
+router.post('/refresh', refresh);
+router.post('/logout', logout);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
 
 // Protected routes
 router.get('/profile', authenticateToken, getProfile);
+router.post('/change-password', authenticateToken, changePassword);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,27 @@
+// filepath: backend/src/routes/depotRoutes.ts
+import { Router } from 'express';
+import {
+  createDepot,
+  getDepots,
+  getDepotById,
+  updateDepot,
+  deleteDepot,
+} from '../controllers/depotController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+const canRead = requirePermission('depots:read');
+const canWrite = requirePermission('depots:write');
+
+// Depot CRUD
+router.post('/', canWrite, createDepot);
+router.get('/', canRead, getDepots);
+router.get('/:id', canRead, getDepotById);
+router.put('/:id', canWrite, updateDepot);
+router.delete('/:id', canWrite, deleteDepot);
+
+export default router;
@@ -9,22 +9,35 @@ import {
   updateDriverStatus,
   getDriverStats,
 } from '../controllers/driverController';
-import { authenticateToken } from '../middleware/auth';
+import {
+  recordDriverLocations,
+  getDriverLocations,
+  getFleetLocations,
+} from '../controllers/driverLocationController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticateToken);
 
+const canRead = requirePermission('drivers:read');
+const canWrite = requirePermission('drivers:write');
+
 // Driver CRUD
-router.post('/', createDriver);
-router.get('/', getDrivers);
-router.get('/stats', getDriverStats);
-router.get('/:id', getDriverById);
-router.put('/:id', updateDriver);
-router.delete('/:id', deleteDriver);
+router.post('/', canWrite, createDriver);
+router.get('/', canRead, getDrivers);
+router.get('/stats', canRead, getDriverStats);
+router.get('/locations/live', canRead, getFleetLocations);
+router.get('/:id', canRead, getDriverById);
+router.put('/:id', canWrite, updateDriver);
+router.delete('/:id', requirePermission('drivers:delete'), deleteDriver);
 
 // Status management
-router.patch('/:id/status', updateDriverStatus);
+router.patch('/:id/status', canWrite, updateDriverStatus);
+
+// Location tracking
+router.post('/:id/locations', canWrite, recordDriverLocations);
+router.get('/:id/locations', canRead, getDriverLocations);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,23 @@
+// filepath: backend/src/routes/fileRoutes.ts
+import express, { Router } from 'express';
+import { LOCAL_STORAGE_DIR } from '../utils/fileStorage';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+// Stored uploads are proof-of-delivery images, so they are read like the orders they belong to
+router.use(authenticateToken, requirePermission('orders:read'));
+
+// The admin portal loads them cross-origin. They are only ever handed out as
+// downloads so a browser never renders one as a page.
+router.use(
+  express.static(LOCAL_STORAGE_DIR, {
+    setHeaders: (res) => {
+      res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      res.setHeader('Content-Disposition', 'attachment');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+    },
+  })
+);
+
+export default router;
@@ -8,8 +8,21 @@ import {
   getOrderStats,
   bulkCreateOrders,
   uploadOrdersCSV,
+  scheduleRedeliveries,
 } from '../controllers/orderController';
-import { authenticateToken } from '../middleware/auth';
+import {
+  recordDeliveryAttempt,
+  getDeliveryAttempts,
+} from '../controllers/deliveryAttemptController';
+import {
+  geocodeOrders,
+  getGeocodeJobStatus,
+  validateOrderAddress,
+  reverseGeocodeLocation,
+  correctOrderLocation,
+} from '../controllers/geocodeController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { imageUpload, handleUpload } from '../middleware/upload';
 import multer from 'multer';
 
 const upload = multer({ storage: multer.memoryStorage() });
@@ -19,16 +32,41 @@ const router = Router();
 // All routes require authentication
 router.use(authenticateToken);
 
+const canRead = requirePermission('orders:read');
+const canWrite = requirePermission('orders:write');
+
 // Order CRUD
-router.post('/', createOrder);
-router.get('/', getOrders);
-router.get('/stats', getOrderStats);
-router.get('/:id', getOrderById);
-router.put('/:id', updateOrder);
-router.delete('/:id', deleteOrder);
+router.post('/', canWrite, createOrder);
+router.get('/', canRead, getOrders);
+router.get('/stats', canRead, getOrderStats);
+router.get('/:id', canRead, getOrderById);
+router.put('/:id', canWrite, updateOrder);
+router.delete('/:id', requirePermission('orders:delete'), deleteOrder);
 
 // Bulk operations
-router.post('/bulk', bulkCreateOrders);
-router.post('/upload-csv', upload.single('file'), uploadOrdersCSV);
+router.post('/bulk', canWrite, bulkCreateOrders);
+router.post('/upload-csv', canWrite, upload.single('file'), uploadOrdersCSV);
+router.post('/redeliveries/schedule', canWrite, scheduleRedeliveries);
+
+// Geocoding
+router.post('/geocode', canWrite, geocodeOrders);
+router.get('/geocode/:jobId', canRead, getGeocodeJobStatus);
+router.post('/address/validate', canRead, validateOrderAddress);
+router.get('/address/reverse', canRead, reverseGeocodeLocation);
+router.patch('/:id/location', canWrite, correctOrderLocation);
+
+// Delivery attempts (proof of delivery)
+router.get('/:id/attempts', canRead, getDeliveryAttempts);
+router.post(
+  '/:id/attempts',
+  canWrite,
+  handleUpload(
+    imageUpload.fields([
+      { name: 'photo', maxCount: 1 },
+      { name: 'signature', maxCount: 1 },
+    ])
+  ),
+  recordDeliveryAttempt
+);
 
 export default router;
\ No newline at end of file
@@ -9,29 +9,71 @@ import {
   assignOrdersToRoute,
   startRoute,
   completeRoute,
+  cancelRoute,
   getRouteStats,
   optimizeRoute,
-
+  resequenceRoute,
+  getDistanceCache,
 } from '../controllers/routeController';
-import { authenticateToken } from '../middleware/auth';
+import {
+  markStopEnRoute,
+  markStopArrived,
+  markStopDelivered,
+  markStopFailed,
+  markStopSkipped,
+} from '../controllers/routeStopController';
+import {
+  createRoutePlan,
+  getRoutePlan,
+  commitRoutePlan,
+  discardRoutePlan,
+} from '../controllers/routePlanController';
+import { unassignStops, moveStops, swapStops } from '../controllers/stopTransferController';
+import { recommendRoutes } from '../controllers/routeRecommendationController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticateToken);
 
+const canRead = requirePermission('routes:read');
+const canWrite = requirePermission('routes:write');
+
 // Route CRUD
-router.post('/', createRoute);
-router.get('/', getRoutes);
-router.get('/stats', getRouteStats);
-router.get('/:id', getRouteById);
-router.put('/:id', updateRoute);
-router.delete('/:id', deleteRoute);
+router.post('/', canWrite, createRoute);
+router.get('/', canRead, getRoutes);
+router.get('/stats', canRead, getRouteStats);
+router.get('/distance-cache', canRead, getDistanceCache);
+router.get('/recommendations', canRead, recommendRoutes);
+router.get('/:id', canRead, getRouteById);
+router.put('/:id', canWrite, updateRoute);
+router.delete('/:id', requirePermission('routes:delete'), deleteRoute);
+
+// Fleet planning
+router.post('/plans', canWrite, createRoutePlan);
+router.get('/plans/:planId', canRead, getRoutePlan);
+router.post('/plans/:planId/commit', canWrite, commitRoutePlan);
+router.delete('/plans/:planId', canWrite, discardRoutePlan);
 
 // Route operations
-router.post('/:id/assign-orders', assignOrdersToRoute);
-router.post('/:id/optimize', optimizeRoute);
-router.patch('/:id/start', startRoute);
-router.patch('/:id/complete', completeRoute);
+router.post('/:id/assign-orders', canWrite, assignOrdersToRoute);
+router.post('/:id/optimize', canWrite, optimizeRoute);
+router.put('/:id/sequence', canWrite, resequenceRoute);
+router.patch('/:id/start', canWrite, startRoute);
+router.patch('/:id/complete', canWrite, completeRoute);
+router.patch('/:id/cancel', canWrite, cancelRoute);
+
+// Stop transfers between routes
+router.post('/:id/stops/unassign', canWrite, unassignStops);
+router.post('/:id/stops/move', canWrite, moveStops);
+router.post('/:id/stops/swap', canWrite, swapStops);
+
+// Stop lifecycle
+router.patch('/:id/stops/:stopId/en-route', canWrite, markStopEnRoute);
+router.patch('/:id/stops/:stopId/arrive', canWrite, markStopArrived);
+router.patch('/:id/stops/:stopId/deliver', canWrite, markStopDelivered);
+router.patch('/:id/stops/:stopId/fail', canWrite, markStopFailed);
+router.patch('/:id/stops/:stopId/skip', canWrite, markStopSkipped);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,24 @@
+// filepath: backend/src/routes/userRoutes.ts
+import { Router } from 'express';
+import {
+  inviteUser,
+  getUsers,
+  getUserById,
+  updateUser,
+  deleteUser,
+} from '../controllers/userController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require an admin
+router.use(authenticateToken, requirePermission('users:manage'));
+
+// User management
+router.post('/', inviteUser);
+router.get('/', getUsers);
+router.get('/:id', getUserById);
+router.put('/:id', updateUser);
+router.delete('/:id', deleteUser);
+
+export default router;
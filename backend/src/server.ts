@@ -9,6 +9,13 @@ import authRoutes from './routes/authRoutes';
 import orderRoutes from './routes/orderRoutes';
 import driverRoutes from './routes/driverRoutes';
 import routeRoutes from './routes/routeRoutes';
+import depotRoutes from './routes/depotRoutes';
+import auditLogRoutes from './routes/auditLogRoutes';
+import userRoutes from './routes/userRoutes';
+import fileRoutes from './routes/fileRoutes';
+import { LOCAL_STORAGE_PUBLIC_PATH } from './utils/fileStorage';
+import { initSocket, closeSocket } from './config/socket';
+import { closeRedis } from './config/redis';
 
 
 dotenv.config();
@@ -26,7 +33,11 @@ app.use('/api/auth', authRoutes);
 app.use('/api/orders', orderRoutes);
 app.use('/api/drivers', driverRoutes);
 app.use('/api/routes', routeRoutes);
+app.use('/api/depots', depotRoutes);
+app.use('/api/audit-logs', auditLogRoutes);
+app.use('/api/users', userRoutes);
 
+app.use(LOCAL_STORAGE_PUBLIC_PATH, fileRoutes);
 
 app.get('/api/health', (req: Request, res: Response) => {
   res.json({
@@ -61,6 +72,9 @@ const server = app.listen(PORT, async () => {
   await testDatabaseConnection();
 });
 
+// Real-time events share the HTTP server
+initSocket(server);
+
 // Handle server errors
 server.on('error', (error: any) => {
   if (error.code === 'EADDRINUSE') {
@@ -75,6 +89,8 @@ server.on('error', (error: any) => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('👋 SIGTERM received, shutting down gracefully');
+  closeSocket();
+  closeRedis();
   server.close(() => {
     console.log('✅ Server closed');
     process.exit(0);
@@ -83,6 +99,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('\n👋 SIGINT received, shutting down gracefully');
+  closeSocket();
+  closeRedis();
   server.close(() => {
     console.log('✅ Server closed');
     process.exit(0);
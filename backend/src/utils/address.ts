@@ -0,0 +1,156 @@
+// filepath: backend/src/utils/address.ts
+import env from '../config/env';
+import { calculateDistance } from './routeOptimizer';
+import { getPostalCodeTable, normalizePostalCode } from './geocoder';
+
+/**
+ * Address Normalization & Validation
+ * Tidies addresses before they are stored and geocoded. Postal codes are
+ * checked against the country's format (errors); the postal code centroid
+ * table, when loaded, flags cities and pins that do not match it (warnings).
+ */
+
+export interface AddressInput {
+  address: string;
+  addressLine2?: string | null;
+  city: string;
+  postalCode: string;
+  country?: string | null;
+}
+
+export interface NormalizedAddress {
+  address: string;
+  addressLine2: string | null;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface AddressValidation {
+  normalized: NormalizedAddress;
+  errors: string[];   // Reject the address
+  warnings: string[]; // Worth a dispatcher's look, but accepted
+}
+
+interface PostalCodeFormat {
+  pattern: RegExp;                  // Against the code without spaces, uppercase
+  format: (code: string) => string; // Canonical spacing
+  example: string;
+}
+
+const asIs = (code: string) => code;
+const splitAt = (position: number) => (code: string) =>
+  `${code.slice(0, position)} ${code.slice(position)}`;
+
+const POSTAL_CODE_FORMATS: Record<string, PostalCodeFormat> = {
+  CA: {
+    pattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z]\d[ABCEGHJ-NPRSTV-Z]\d$/,
+    format: splitAt(3),
+    example: 'M5V 2T6',
+  },
+  US: {
+    pattern: /^\d{5}(\d{4})?$/,
+    format: (code) => (code.length === 9 ? `${code.slice(0, 5)}-${code.slice(5)}` : code),
+    example: '94105',
+  },
+  GB: {
+    pattern: /^[A-Z]{1,2}\d[A-Z\d]?\d[A-Z]{2}$/,
+    format: (code) => `${code.slice(0, -3)} ${code.slice(-3)}`,
+    example: 'SW1A 1AA',
+  },
+  NL: { pattern: /^\d{4}[A-Z]{2}$/, format: splitAt(4), example: '1012 AB' },
+  DE: { pattern: /^\d{5}$/, format: asIs, example: '10115' },
+  FR: { pattern: /^\d{5}$/, format: asIs, example: '75001' },
+  ES: { pattern: /^\d{5}$/, format: asIs, example: '28001' },
+  IT: { pattern: /^\d{5}$/, format: asIs, example: '00118' },
+  AU: { pattern: /^\d{4}$/, format: asIs, example: '2000' },
+  IN: { pattern: /^\d{6}$/, format: asIs, example: '110001' },
+};
+
+// Pins farther than this from their postal code's centroid are flagged
+const MAX_PIN_DISTANCE_KM = 2;
+const MAX_PIN_DISTANCE_PREFIX_KM = 10;
+
+const collapseSpaces = (value: string): string => value.trim().replace(/\s+/g, ' ');
+
+// Case, accent and punctuation-insensitive comparison key
+const placeKey = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+/**
+ * Normalize an address and check it
+ * Unknown countries get whitespace cleanup only
+ */
+export async function validateAddress(input: AddressInput): Promise<AddressValidation> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const country = collapseSpaces(input.country || env.DEFAULT_COUNTRY).toUpperCase();
+  const compactPostalCode = normalizePostalCode(input.postalCode || '');
+  const postalFormat = POSTAL_CODE_FORMATS[country];
+
+  if (!/^[A-Z]{2}$/.test(country)) {
+    errors.push('Country must be a 2-letter ISO code');
+  }
+
+  let postalCode = collapseSpaces(input.postalCode || '').toUpperCase();
+
+  if (postalFormat) {
+    if (postalFormat.pattern.test(compactPostalCode)) {
+      postalCode = postalFormat.format(compactPostalCode);
+    } else {
+      errors.push(`"${input.postalCode}" is not a valid ${country} postal code (e.g. ${postalFormat.example})`);
+    }
+  }
+
+  const normalized: NormalizedAddress = {
+    address: collapseSpaces(input.address || ''),
+    addressLine2: input.addressLine2 ? collapseSpaces(input.addressLine2) || null : null,
+    city: collapseSpaces(input.city || ''),
+    postalCode,
+    country,
+  };
+
+  if (errors.length === 0) {
+    const match = await lookupPostalCode(postalCode);
+
+    if (match?.city && normalized.city && placeKey(match.city) !== placeKey(normalized.city)) {
+      warnings.push(`Postal code ${postalCode} is in ${match.city}, not ${normalized.city}`);
+    }
+  }
+
+  return { normalized, errors, warnings };
+}
+
+/**
+ * Warning when a pin is far from its postal code area, null otherwise
+ */
+export async function checkPinPlacement(
+  postalCode: string,
+  latitude: number,
+  longitude: number
+): Promise<string | null> {
+  const match = await lookupPostalCode(postalCode);
+  if (!match) return null;
+
+  const distance = calculateDistance(latitude, longitude, match.latitude, match.longitude);
+  const limit = match.exact ? MAX_PIN_DISTANCE_KM : MAX_PIN_DISTANCE_PREFIX_KM;
+
+  return distance > limit
+    ? `Pin is ${distance.toFixed(1)} km from postal code area ${match.postalCode}`
+    : null;
+}
+
+// A missing or unreadable centroid table skips the consistency checks
+async function lookupPostalCode(postalCode: string) {
+  try {
+    return await getPostalCodeTable().lookup(postalCode);
+  } catch (error) {
+    console.error('⚠️  Postal code table unavailable:', (error as Error).message);
+    return null;
+  }
+}
@@ -0,0 +1,100 @@
+// filepath: backend/src/utils/audit.ts
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+
+/**
+ * Audit Trail
+ * Records who changed what from the mutating controllers. Updates keep
+ * only the fields that changed ({ field: { from, to } }); creates and
+ * deletes keep a snapshot of the record. Secrets are never written.
+ */
+
+export type AuditEntityType = 'Order' | 'Driver' | 'Route' | 'RouteStop' | 'Depot' | 'User';
+
+export interface AuditEntry {
+  userId?: string | null; // Acting user when the request is not authenticated (login)
+  action: string; // e.g. ORDER_UPDATED
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: object | null; // Record before the change (updates, deletes)
+  after?: object | null;  // Record after the change (creates, updates)
+  details?: Record<string, unknown>; // Extra context: reason, counts, ...
+}
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+const REDACTED_FIELDS = new Set(['password', 'passwordHash', 'token', 'tokenHash']);
+const UNTRACKED_FIELDS = new Set(['updatedAt', 'lastUpdatedBy']);
+
+const isRelation = (value: unknown): boolean =>
+  Array.isArray(value) ||
+  (typeof value === 'object' && value !== null && !(value instanceof Date) && !Prisma.Decimal.isDecimal(value));
+
+// JSON-safe value: Decimals become numbers, dates ISO strings
+const toJsonValue = (value: unknown): unknown => {
+  if (Prisma.Decimal.isDecimal(value)) return Number(value);
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+};
+
+/**
+ * Scalar fields of a record, without relations or secrets
+ */
+export function snapshot(record: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record)
+      .filter(([field, value]) => !REDACTED_FIELDS.has(field) && !isRelation(value))
+      .map(([field, value]) => [field, toJsonValue(value)])
+  );
+}
+
+/**
+ * Fields whose value differs between two snapshots
+ */
+export function diffChanges(before: Record<string, unknown>, after: Record<string, unknown>): FieldChanges {
+  const changes: FieldChanges = {};
+
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes[field] = { from, to };
+  }
+
+  return changes;
+}
+
+/**
+ * Audit log row for a request, for use inside prisma.$transaction
+ */
+export function auditLogData(req: Request, entry: AuditEntry): Prisma.AuditLogUncheckedCreateInput {
+  const before = entry.before ? snapshot(entry.before) : null;
+  const after = entry.after ? snapshot(entry.after) : null;
+
+  const changes =
+    before && after ? { changes: diffChanges(before, after) } : before ? { before } : after ? { after } : {};
+
+  return {
+    userId: entry.userId ?? req.user?.userId ?? null,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId ?? null,
+    details: { ...changes, ...entry.details } as Prisma.InputJsonObject,
+    ipAddress: req.ip ?? null,
+    userAgent: req.get('user-agent') ?? null,
+  };
+}
+
+/**
+ * Write an audit entry after a change has been saved
+ * A failed write is logged; it never fails the request that made the change
+ */
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  try {
+    await prisma.auditLog.create({ data: auditLogData(req, entry) });
+  } catch (error) {
+    console.error('⚠️  Audit log write failed:', (error as Error).message);
+  }
+}
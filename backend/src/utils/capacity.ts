@@ -0,0 +1,183 @@
+// filepath: backend/src/utils/capacity.ts
+import { Prisma, VehicleType } from '@prisma/client';
+import { Capacity, DEFAULT_VEHICLE_CAPACITY } from '../config/vehicleCapacity';
+
+/**
+ * Vehicle Capacity
+ * Orders carry a load (weight, volume, parcels); drivers' vehicles a capacity.
+ * Routes only drop parcels off, so the load leaving the depot is the peak.
+ */
+
+export type Load = Capacity;
+
+export type CapacityDimension = 'weight' | 'volume' | 'parcels';
+
+export interface LoadedOrder {
+  id: string;
+  orderNumber: string;
+  load: Load;
+}
+
+export interface OverCapacityOrder {
+  orderId: string;
+  orderNumber: string;
+  load: Load;
+  exceeds: CapacityDimension[];
+}
+
+type Numeric = Prisma.Decimal | number | null;
+
+export const EMPTY_LOAD: Load = { weightKg: 0, volumeM3: 0, parcels: 0 };
+
+/**
+ * Load of an order; unknown weight or dimensions count as zero
+ */
+export function orderLoad(order: {
+  weightKg: Numeric;
+  lengthCm: Numeric;
+  widthCm: Numeric;
+  heightCm: Numeric;
+  parcelCount: number;
+}): Load {
+  const hasDimensions = order.lengthCm !== null && order.widthCm !== null && order.heightCm !== null;
+  const parcelVolume = hasDimensions
+    ? (Number(order.lengthCm) * Number(order.widthCm) * Number(order.heightCm)) / 1_000_000
+    : 0;
+
+  return {
+    weightKg: order.weightKg !== null ? Number(order.weightKg) : 0,
+    volumeM3: parcelVolume * order.parcelCount,
+    parcels: order.parcelCount,
+  };
+}
+
+/**
+ * Capacity of a driver's vehicle: their own limits, else the vehicle type default
+ */
+export function vehicleCapacity(driver: {
+  vehicleType: VehicleType;
+  capacityWeightKg: Numeric;
+  capacityVolumeM3: Numeric;
+  capacityParcels: number | null;
+}): Capacity {
+  const defaults = DEFAULT_VEHICLE_CAPACITY[driver.vehicleType];
+
+  return {
+    weightKg: driver.capacityWeightKg !== null ? Number(driver.capacityWeightKg) : defaults.weightKg,
+    volumeM3: driver.capacityVolumeM3 !== null ? Number(driver.capacityVolumeM3) : defaults.volumeM3,
+    parcels: driver.capacityParcels ?? defaults.parcels,
+  };
+}
+
+export function addLoad(a: Load, b: Load): Load {
+  return {
+    weightKg: a.weightKg + b.weightKg,
+    volumeM3: a.volumeM3 + b.volumeM3,
+    parcels: a.parcels + b.parcels,
+  };
+}
+
+export function exceededDimensions(load: Load, capacity: Capacity): CapacityDimension[] {
+  const exceeded: CapacityDimension[] = [];
+  if (load.weightKg > capacity.weightKg) exceeded.push('weight');
+  if (load.volumeM3 > capacity.volumeM3) exceeded.push('volume');
+  if (load.parcels > capacity.parcels) exceeded.push('parcels');
+  return exceeded;
+}
+
+/**
+ * Load orders one by one (in the given order) on top of an existing load
+ * Returns the orders that no longer fit
+ */
+export function findOverCapacityOrders(
+  capacity: Capacity,
+  baseLoad: Load,
+  orders: LoadedOrder[]
+): OverCapacityOrder[] {
+  const overCapacity: OverCapacityOrder[] = [];
+  let load = baseLoad;
+
+  for (const order of orders) {
+    const next = addLoad(load, order.load);
+    const exceeds = exceededDimensions(next, capacity);
+
+    if (exceeds.length > 0) {
+      overCapacity.push({ orderId: order.id, orderNumber: order.orderNumber, load: order.load, exceeds });
+      continue;
+    }
+
+    load = next;
+  }
+
+  return overCapacity;
+}
+
+export function toLoadedOrder(order: {
+  id: string;
+  orderNumber: string;
+  weightKg: Numeric;
+  lengthCm: Numeric;
+  widthCm: Numeric;
+  heightCm: Numeric;
+  parcelCount: number;
+}): LoadedOrder {
+  return { id: order.id, orderNumber: order.orderNumber, load: orderLoad(order) };
+}
+
+export function totalLoad(orders: LoadedOrder[]): Load {
+  return orders.reduce((load, order) => addLoad(load, order.load), EMPTY_LOAD);
+}
+
+// Returns an error message, or null when the package fields are usable
+export function validatePackageFields(data: {
+  weightKg?: unknown;
+  lengthCm?: unknown;
+  widthCm?: unknown;
+  heightCm?: unknown;
+  parcelCount?: unknown;
+}): string | null {
+  for (const field of ['weightKg', 'lengthCm', 'widthCm', 'heightCm'] as const) {
+    const value = data[field];
+    if (value === undefined || value === null || value === '') continue;
+
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) {
+      return `${field} must be a non-negative number`;
+    }
+  }
+
+  if (data.parcelCount !== undefined && data.parcelCount !== null && data.parcelCount !== '') {
+    const count = Number(data.parcelCount);
+    if (!Number.isInteger(count) || count < 1) {
+      return 'parcelCount must be a positive integer';
+    }
+  }
+
+  return null;
+}
+
+// Returns an error message, or null when the vehicle capacity fields are usable
+export function validateCapacityFields(data: {
+  capacityWeightKg?: unknown;
+  capacityVolumeM3?: unknown;
+  capacityParcels?: unknown;
+}): string | null {
+  for (const field of ['capacityWeightKg', 'capacityVolumeM3'] as const) {
+    const value = data[field];
+    if (value === undefined || value === null || value === '') continue;
+
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0) {
+      return `${field} must be a positive number`;
+    }
+  }
+
+  if (data.capacityParcels !== undefined && data.capacityParcels !== null && data.capacityParcels !== '') {
+    const count = Number(data.capacityParcels);
+    if (!Number.isInteger(count) || count < 1) {
+      return 'capacityParcels must be a positive integer';
+    }
+  }
+
+  return null;
+}
@@ -10,14 +10,23 @@ export interface ParsedOrder {
   addressLine2?: string;
   city: string;
   postalCode: string;
+  country?: string;
   latitude?: number;
   longitude?: number;
   deliveryNotes?: string;
   orderValue?: number;
   priority?: string;
   timeWindow?: string;
+  weightKg?: number;
+  lengthCm?: number;
+  widthCm?: number;
+  heightCm?: number;
+  parcelCount?: number;
 }
 
+const parseOptionalNumber = (value: string | undefined): number | undefined =>
+  value ? parseFloat(value) : undefined;
+
 export const parseOrdersCSV = (filePath: string): Promise<ParsedOrder[]> => {
   return new Promise((resolve, reject) => {
     const orders: ParsedOrder[] = [];
@@ -35,12 +44,18 @@ export const parseOrdersCSV = (filePath: string): Promise<ParsedOrder[]> => {
             addressLine2: row.addressLine2 || row['Address Line 2'] || undefined,
             city: row.city || row['City'] || '',
             postalCode: row.postalCode || row['Postal Code'] || '',
+            country: row.country || row['Country'] || undefined,
             latitude: row.latitude ? parseFloat(row.latitude) : undefined,
             longitude: row.longitude ? parseFloat(row.longitude) : undefined,
             deliveryNotes: row.deliveryNotes || row['Notes'] || undefined,
             orderValue: row.orderValue ? parseFloat(row.orderValue) : undefined,
             priority: row.priority || row['Priority'] || 'NORMAL',
             timeWindow: row.timeWindow || row['Time Window'] || undefined,
+            weightKg: parseOptionalNumber(row.weightKg || row['Weight (kg)']),
+            lengthCm: parseOptionalNumber(row.lengthCm || row['Length (cm)']),
+            widthCm: parseOptionalNumber(row.widthCm || row['Width (cm)']),
+            heightCm: parseOptionalNumber(row.heightCm || row['Height (cm)']),
+            parcelCount: parseOptionalNumber(row.parcelCount || row['Parcels']),
           };
 
           // Basic validation
@@ -0,0 +1,46 @@
+// filepath: backend/src/utils/depot.ts
+import { Depot } from '@prisma/client';
+import { RouteDepot } from './routeOptimizer';
+import { parseTimeWindow } from './timeWindow';
+
+/**
+ * Depot Helpers
+ * Shared by route optimization and fleet planning
+ */
+
+export type DepotRecord = Pick<Depot, 'id' | 'name' | 'latitude' | 'longitude' | 'operatingHours'>;
+
+const DEFAULT_ROUTE_START_HOUR = 8;
+
+/**
+ * When the driver leaves: explicit start, actual start, or the route day's default start
+ * (depot opening time when the depot has operating hours)
+ */
+export function getScheduleStart(
+  route: { date: Date; startTime: Date | null; depot: DepotRecord | null },
+  startTime?: string
+): Date {
+  if (startTime) return new Date(startTime);
+  if (route.startTime) return route.startTime;
+
+  const opening = parseTimeWindow(route.depot?.operatingHours)?.start ?? DEFAULT_ROUTE_START_HOUR * 60;
+
+  // Route dates are stored as UTC midnight
+  const date = new Date(route.date);
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 0, opening);
+}
+
+/**
+ * Depot record → optimizer input
+ */
+export function toRouteDepot(depot: DepotRecord | null, returnToDepot: boolean): RouteDepot | null {
+  if (!depot) return null;
+
+  return {
+    id: depot.id,
+    name: depot.name,
+    latitude: Number(depot.latitude),
+    longitude: Number(depot.longitude),
+    returnToDepot,
+  };
+}
@@ -0,0 +1,478 @@
+// filepath: backend/src/utils/distanceProvider.ts
+import Redis from 'ioredis';
+import env from '../config/env';
+import redis from '../config/redis';
+import {
+  Location,
+  RouteDepot,
+  RouteMatrix,
+  calculateDistance,
+  calculateTravelMinutes,
+  calculateRouteMatrix,
+} from './routeOptimizer';
+
+/**
+ * Distance Providers
+ * Distances and driving times between route points for the optimizer.
+ * Straight-line Haversine is the default; the OSRM and Valhalla adapters
+ * call a routing server's table API for road-network figures.
+ * Legs are cached per coordinate pair (Redis when configured).
+ * Swap providers with setDistanceProvider()
+ */
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface TravelMatrix {
+  distances: number[][]; // km, [from][to]
+  minutes: number[][];   // Driving minutes, [from][to]
+}
+
+export interface DistanceProvider {
+  readonly name: string;
+  readonly profile?: string; // Travel mode (OSRM profile, Valhalla costing); legs differ per mode
+  getMatrix(points: Coordinates[]): Promise<TravelMatrix>;
+}
+
+export interface TravelLeg {
+  distance: number; // km
+  minutes: number;
+}
+
+export interface MatrixCache {
+  readonly backend: string;
+  readonly ttlSeconds: number;
+  getMany(keys: string[]): Promise<(TravelLeg | null)[]>;
+  setMany(entries: [string, TravelLeg][]): Promise<void>;
+}
+
+export interface DistanceCacheStats {
+  provider: string;
+  backend: string;
+  ttlSeconds: number;
+  hits: number;     // Coordinate pairs served from the cache
+  misses: number;   // Coordinate pairs fetched from the provider
+  hitRate: number;  // Percent
+}
+
+// ==========================================
+// HAVERSINE
+// ==========================================
+
+function straightLine(from: Coordinates, to: Coordinates): TravelLeg {
+  const distance = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+  return { distance, minutes: calculateTravelMinutes(distance) };
+}
+
+export class HaversineProvider implements DistanceProvider {
+  readonly name = 'haversine';
+
+  async getMatrix(points: Coordinates[]): Promise<TravelMatrix> {
+    const legs = points.map((from) => points.map((to) => straightLine(from, to)));
+
+    return {
+      distances: legs.map((row) => row.map((leg) => leg.distance)),
+      minutes: legs.map((row) => row.map((leg) => leg.minutes)),
+    };
+  }
+}
+
+// ==========================================
+// ROUTING SERVER TABLES
+// ==========================================
+
+async function requestJson<T>(url: string, init: RequestInit, timeoutMs: number): Promise<T> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}: ${await response.text()}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Matrix from a routing server's table, in km and minutes
+ * Pairs the server cannot route (null) fall back to straight-line figures
+ */
+function completeMatrix(
+  points: Coordinates[],
+  distances: (number | null)[][],
+  minutes: (number | null)[][]
+): TravelMatrix {
+  const fill = (table: (number | null)[][], field: keyof TravelLeg) =>
+    points.map((from, i) =>
+      points.map((to, j) => table[i]?.[j] ?? straightLine(from, to)[field])
+    );
+
+  return { distances: fill(distances, 'distance'), minutes: fill(minutes, 'minutes') };
+}
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  distances?: (number | null)[][]; // Meters
+  durations?: (number | null)[][]; // Seconds
+}
+
+/**
+ * OSRM Table service
+ * GET {baseUrl}/table/v1/{profile}/{lon,lat;lon,lat;...}?annotations=distance,duration
+ */
+export class OsrmTableProvider implements DistanceProvider {
+  readonly name = 'osrm';
+
+  constructor(
+    private baseUrl: string,
+    readonly profile: string = 'driving',
+    private timeoutMs: number = 5000
+  ) {}
+
+  async getMatrix(points: Coordinates[]): Promise<TravelMatrix> {
+    if (points.length < 2) return new HaversineProvider().getMatrix(points);
+
+    const coordinates = points.map((point) => `${point.longitude},${point.latitude}`).join(';');
+    const url =
+      `${this.baseUrl.replace(/\/+$/, '')}/table/v1/${this.profile}/${coordinates}` +
+      '?annotations=distance,duration';
+
+    const body = await requestJson<OsrmTableResponse>(url, {}, this.timeoutMs);
+
+    if (body.code !== 'Ok' || !body.distances || !body.durations) {
+      throw new Error(`OSRM table failed: ${body.message || body.code}`);
+    }
+
+    return completeMatrix(
+      points,
+      body.distances.map((row) => row.map((meters) => (meters === null ? null : meters / 1000))),
+      body.durations.map((row) => row.map((seconds) => (seconds === null ? null : seconds / 60)))
+    );
+  }
+}
+
+interface ValhallaMatrixResponse {
+  sources_to_targets?: { distance: number | null; time: number | null }[][]; // km, seconds
+  error?: string;
+}
+
+/**
+ * Valhalla Matrix service
+ * POST {baseUrl}/sources_to_targets with every point as source and target
+ */
+export class ValhallaMatrixProvider implements DistanceProvider {
+  readonly name = 'valhalla';
+
+  constructor(
+    private baseUrl: string,
+    private costing: string = 'auto',
+    private timeoutMs: number = 5000
+  ) {}
+
+  get profile(): string {
+    return this.costing;
+  }
+
+  async getMatrix(points: Coordinates[]): Promise<TravelMatrix> {
+    if (points.length < 2) return new HaversineProvider().getMatrix(points);
+
+    const locations = points.map((point) => ({ lat: point.latitude, lon: point.longitude }));
+
+    const body = await requestJson<ValhallaMatrixResponse>(
+      `${this.baseUrl.replace(/\/+$/, '')}/sources_to_targets`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sources: locations,
+          targets: locations,
+          costing: this.costing,
+          units: 'kilometers',
+        }),
+      },
+      this.timeoutMs
+    );
+
+    if (!body.sources_to_targets) {
+      throw new Error(`Valhalla matrix failed: ${body.error || 'empty response'}`);
+    }
+
+    const table = body.sources_to_targets;
+
+    return completeMatrix(
+      points,
+      table.map((row) => row.map((cell) => cell.distance)),
+      table.map((row) => row.map((cell) => (cell.time === null ? null : cell.time / 60)))
+    );
+  }
+}
+
+// ==========================================
+// CACHING
+// ==========================================
+
+const MAX_CACHED_LEGS = 100000;
+const CACHE_KEY_PREFIX = 'distance';
+
+export class MemoryMatrixCache implements MatrixCache {
+  readonly backend = 'memory';
+  private legs = new Map<string, { leg: TravelLeg; expiresAt: number }>();
+
+  constructor(
+    readonly ttlSeconds: number = env.DISTANCE_CACHE_TTL_SECONDS,
+    private maxEntries: number = MAX_CACHED_LEGS
+  ) {}
+
+  async getMany(keys: string[]): Promise<(TravelLeg | null)[]> {
+    const now = Date.now();
+
+    return keys.map((key) => {
+      const entry = this.legs.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt > now) return entry.leg;
+
+      this.legs.delete(key);
+      return null;
+    });
+  }
+
+  async setMany(entries: [string, TravelLeg][]): Promise<void> {
+    const expiresAt = Date.now() + this.ttlSeconds * 1000;
+
+    for (const [key, leg] of entries) {
+      this.legs.delete(key);
+      this.legs.set(key, { leg, expiresAt });
+    }
+
+    // Oldest entries go first
+    for (const key of this.legs.keys()) {
+      if (this.legs.size <= this.maxEntries) break;
+      this.legs.delete(key);
+    }
+  }
+}
+
+/**
+ * Legs stored as "km,minutes" strings with a TTL
+ * Redis errors count as misses so optimization never depends on the cache
+ */
+export class RedisMatrixCache implements MatrixCache {
+  readonly backend = 'redis';
+
+  constructor(
+    private client: Redis,
+    readonly ttlSeconds: number = env.DISTANCE_CACHE_TTL_SECONDS
+  ) {}
+
+  async getMany(keys: string[]): Promise<(TravelLeg | null)[]> {
+    if (keys.length === 0) return [];
+
+    try {
+      const values = await this.client.mget(keys);
+
+      return values.map((value) => {
+        if (!value) return null;
+        const [distance, minutes] = value.split(',').map(Number);
+        return { distance, minutes };
+      });
+    } catch (error) {
+      console.error('⚠️  Distance cache read failed:', (error as Error).message);
+      return keys.map(() => null);
+    }
+  }
+
+  async setMany(entries: [string, TravelLeg][]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const pipeline = this.client.pipeline();
+    entries.forEach(([key, leg]) =>
+      pipeline.set(key, `${leg.distance},${leg.minutes}`, 'EX', this.ttlSeconds)
+    );
+
+    try {
+      await pipeline.exec();
+    } catch (error) {
+      console.error('⚠️  Distance cache write failed:', (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Caches another provider's legs per directed coordinate pair
+ * Keys use the provider and its travel mode, and coordinates rounded to
+ * `precision` decimals, so the same address geocoded twice shares its legs. Only the points of uncached
+ * pairs are sent to the wrapped provider.
+ */
+export class CachedDistanceProvider implements DistanceProvider {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private provider: DistanceProvider,
+    private cache: MatrixCache = new MemoryMatrixCache(),
+    private precision: number = env.DISTANCE_CACHE_PRECISION
+  ) {}
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  private pairKey(from: Coordinates, to: Coordinates): string {
+    const point = ({ latitude, longitude }: Coordinates) =>
+      `${latitude.toFixed(this.precision)},${longitude.toFixed(this.precision)}`;
+
+    const source = this.provider.profile ? `${this.provider.name}/${this.provider.profile}` : this.provider.name;
+
+    return `${CACHE_KEY_PREFIX}:${source}:${point(from)};${point(to)}`;
+  }
+
+  stats(): DistanceCacheStats {
+    const lookups = this.hits + this.misses;
+
+    return {
+      provider: this.provider.name,
+      backend: this.cache.backend,
+      ttlSeconds: this.cache.ttlSeconds,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 10 : 0,
+    };
+  }
+
+  async getMatrix(points: Coordinates[]): Promise<TravelMatrix> {
+    const pairs: [number, number][] = [];
+    points.forEach((_, i) => points.forEach((_, j) => i !== j && pairs.push([i, j])));
+
+    const keys = pairs.map(([i, j]) => this.pairKey(points[i], points[j]));
+    const cached = await this.cache.getMany(keys);
+    const legs = new Map<string, TravelLeg>();
+
+    const missing = new Set<number>();
+    cached.forEach((leg, k) => {
+      if (leg) {
+        legs.set(keys[k], leg);
+      } else {
+        missing.add(pairs[k][0]);
+        missing.add(pairs[k][1]);
+      }
+    });
+
+    const hits = cached.filter((leg) => leg !== null).length;
+    this.hits += hits;
+    this.misses += keys.length - hits;
+
+    if (missing.size > 0) {
+      const subset = [...missing];
+      const fetched = await this.provider.getMatrix(subset.map((index) => points[index]));
+      const entries: [string, TravelLeg][] = [];
+
+      subset.forEach((from, a) =>
+        subset.forEach((to, b) => {
+          if (a === b) return;
+          entries.push([
+            this.pairKey(points[from], points[to]),
+            { distance: fetched.distances[a][b], minutes: fetched.minutes[a][b] },
+          ]);
+        })
+      );
+
+      await this.cache.setMany(entries);
+      entries.forEach(([key, leg]) => legs.set(key, leg));
+    }
+
+    const field = (key: keyof TravelLeg) =>
+      points.map((from, i) =>
+        points.map((to, j) => (i === j ? 0 : legs.get(this.pairKey(from, to))![key]))
+      );
+
+    return { distances: field('distance'), minutes: field('minutes') };
+  }
+}
+
+// ==========================================
+// CONFIGURED PROVIDER
+// ==========================================
+
+type DistanceConfig = Pick<
+  typeof env,
+  'DISTANCE_PROVIDER' | 'DISTANCE_PROVIDER_URL' | 'DISTANCE_PROVIDER_PROFILE' | 'DISTANCE_PROVIDER_TIMEOUT_MS'
+>;
+
+function createBaseProvider(config: DistanceConfig): DistanceProvider {
+  const url = config.DISTANCE_PROVIDER_URL;
+  const profile = config.DISTANCE_PROVIDER_PROFILE;
+  const timeoutMs = config.DISTANCE_PROVIDER_TIMEOUT_MS;
+
+  switch (config.DISTANCE_PROVIDER) {
+    case 'osrm':
+      return new OsrmTableProvider(url!, profile || 'driving', timeoutMs);
+    case 'valhalla':
+      return new ValhallaMatrixProvider(url!, profile || 'auto', timeoutMs);
+    default:
+      return new HaversineProvider();
+  }
+}
+
+export function createDistanceProvider(config: DistanceConfig = env): CachedDistanceProvider {
+  const cache = redis ? new RedisMatrixCache(redis) : new MemoryMatrixCache();
+  return new CachedDistanceProvider(createBaseProvider(config), cache);
+}
+
+let distanceProvider: DistanceProvider = createDistanceProvider();
+
+export const getDistanceProvider = (): DistanceProvider => distanceProvider;
+
+export const setDistanceProvider = (provider: DistanceProvider): void => {
+  distanceProvider = provider;
+};
+
+// Null when the current provider is not cached
+export const getDistanceCacheStats = (): DistanceCacheStats | null =>
+  distanceProvider instanceof CachedDistanceProvider ? distanceProvider.stats() : null;
+
+/**
+ * Route matrix from the configured provider
+ * The depot (when there is one) is sent as the first point. If the
+ * provider fails, the route is optimized on straight-line figures instead.
+ */
+export async function getRouteMatrix(
+  locations: Location[],
+  depot?: RouteDepot | null
+): Promise<RouteMatrix> {
+  const provider = getDistanceProvider();
+  const points: Coordinates[] = depot ? [depot, ...locations] : locations;
+
+  let travel: TravelMatrix;
+
+  try {
+    travel = await provider.getMatrix(points);
+  } catch (error) {
+    console.error(`⚠️  ${provider.name} distance matrix failed, using straight-line distances:`, error);
+    return calculateRouteMatrix(locations, depot);
+  }
+
+  const offset = depot ? 1 : 0;
+  const stops = locations.map((_, index) => index + offset);
+  const table = (values: number[][]) => stops.map((from) => stops.map((to) => values[from][to]));
+
+  const depotLegs = depot
+    ? {
+        start: stops.map((to) => travel.distances[0][to]),
+        end: stops.map((from) => (depot.returnToDepot ? travel.distances[from][0] : 0)),
+        startMinutes: stops.map((to) => travel.minutes[0][to]),
+        endMinutes: stops.map((from) => (depot.returnToDepot ? travel.minutes[from][0] : 0)),
+      }
+    : null;
+
+  return {
+    distances: table(travel.distances),
+    minutes: table(travel.minutes),
+    depot: depotLegs,
+    provider: provider.name,
+  };
+}
@@ -0,0 +1,63 @@
+// filepath: backend/src/utils/fileStorage.ts
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * File Storage
+ * Pluggable storage for uploaded files (proof-of-delivery photos, signatures)
+ * Local disk is the default; swap in another backend with setFileStorage()
+ */
+
+export interface FileStorage {
+  save(buffer: Buffer, mimeType: string, folder: string): Promise<string>; // Returns public URL
+  remove(url: string): Promise<void>;
+}
+
+// Stored files get their extension from the validated type, never from the client's file name
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+};
+
+export const LOCAL_STORAGE_DIR = path.join(__dirname, '../../uploads/storage');
+export const LOCAL_STORAGE_PUBLIC_PATH = '/files';
+
+export class LocalDiskStorage implements FileStorage {
+  constructor(
+    private rootDir: string = LOCAL_STORAGE_DIR,
+    private publicPath: string = LOCAL_STORAGE_PUBLIC_PATH
+  ) {}
+
+  async save(buffer: Buffer, mimeType: string, folder: string): Promise<string> {
+    const extension = IMAGE_EXTENSIONS[mimeType];
+    if (!extension) throw new Error(`Unsupported file type: ${mimeType}`);
+
+    const dir = path.join(this.rootDir, folder);
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    // Random names so stored files can't be guessed from the public URL
+    const fileName = `${Date.now()}-${crypto.randomBytes(12).toString('hex')}${extension}`;
+    await fs.promises.writeFile(path.join(dir, fileName), buffer);
+
+    return `${this.publicPath}/${folder}/${fileName}`;
+  }
+
+  async remove(url: string): Promise<void> {
+    if (!url.startsWith(`${this.publicPath}/`)) return;
+
+    const filePath = path.join(this.rootDir, url.slice(this.publicPath.length + 1));
+    if (!filePath.startsWith(this.rootDir)) return;
+
+    await fs.promises.rm(filePath, { force: true });
+  }
+}
+
+let storage: FileStorage = new LocalDiskStorage();
+
+export const getFileStorage = (): FileStorage => storage;
+
+export const setFileStorage = (fileStorage: FileStorage): void => {
+  storage = fileStorage;
+};
@@ -0,0 +1,184 @@
+// filepath: backend/src/utils/fleetPlanner.ts
+
+/**
+ * Fleet Planning
+ * Splits a day's orders across vehicles (capacitated clustering).
+ * Each cluster is then sequenced with the route optimizer.
+ */
+
+import { Priority, VehicleType } from '@prisma/client';
+import { Location, RouteDepot, calculateDistance } from './routeOptimizer';
+import { Capacity } from '../config/vehicleCapacity';
+import { Load, EMPTY_LOAD, addLoad, exceededDimensions } from './capacity';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface PlanOrder extends Location {
+  priority: Priority;
+  load: Load;
+}
+
+export interface PlanVehicle {
+  driverId: string;
+  capacity: Capacity;        // Weight, volume and parcel limits
+  maxStops: number;          // Stops one driver can make in a day
+  depot: RouteDepot | null;  // Clusters grow around the depot
+}
+
+export interface FleetClustering {
+  clusters: Map<string, PlanOrder[]>; // Driver ID → orders
+  unassigned: PlanOrder[];            // Fleet capacity exceeded
+}
+
+interface Point {
+  latitude: number;
+  longitude: number;
+}
+
+// ==========================================
+// CAPACITY
+// ==========================================
+
+// Default stops per driver for a working day, by vehicle
+export const VEHICLE_STOP_CAPACITY: Record<VehicleType, number> = {
+  BIKE: 10,
+  SCOOTER: 15,
+  CAR: 20,
+  VAN: 30,
+  TRUCK: 40,
+};
+
+// ==========================================
+// CLUSTERING
+// ==========================================
+
+const MAX_ITERATIONS = 10;
+
+// Scarce capacity goes to urgent orders first
+const PRIORITY_RANK: Record<Priority, number> = {
+  URGENT: 3,
+  HIGH: 2,
+  NORMAL: 1,
+  LOW: 0,
+};
+
+function distanceBetween(a: Point, b: Point): number {
+  return calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+}
+
+function centroid(points: Point[]): Point {
+  return {
+    latitude: points.reduce((sum, p) => sum + p.latitude, 0) / points.length,
+    longitude: points.reduce((sum, p) => sum + p.longitude, 0) / points.length,
+  };
+}
+
+/**
+ * Initial cluster centers
+ * Vehicles with a depot start there; the rest take the orders farthest
+ * from every center chosen so far (deterministic k-means++)
+ */
+function seedCenters(orders: PlanOrder[], vehicles: PlanVehicle[]): Point[] {
+  const centers: (Point | null)[] = vehicles.map((vehicle) => vehicle.depot);
+  const chosen = centers.filter((center): center is Point => center !== null);
+
+  if (chosen.length === 0) chosen.push(centroid(orders));
+
+  return centers.map((center) => {
+    if (center) return center;
+
+    const farthest = orders.reduce((best, order) =>
+      Math.min(...chosen.map((c) => distanceBetween(order, c))) >
+      Math.min(...chosen.map((c) => distanceBetween(best, c)))
+        ? order
+        : best
+    );
+
+    chosen.push(farthest);
+    return { latitude: farthest.latitude, longitude: farthest.longitude };
+  });
+}
+
+/**
+ * Capacitated clustering (k-means with capacity limits)
+ *
+ * Each pass assigns orders to the nearest center whose vehicle still has
+ * room (stops, weight, volume and parcels), highest priority first and,
+ * within a priority, the orders with the most to lose (largest regret
+ * between nearest and second-nearest center).
+ * Centers then move to the centroid of their orders (and depot) until
+ * assignments stop changing.
+ */
+export function clusterOrders(orders: PlanOrder[], vehicles: PlanVehicle[]): FleetClustering {
+  if (orders.length === 0 || vehicles.length === 0) {
+    return { clusters: new Map(), unassigned: [...orders] };
+  }
+
+  let centers = seedCenters(orders, vehicles);
+  let assignment = new Map<string, number>();
+  let unassigned: PlanOrder[] = [];
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const stops = vehicles.map(() => 0);
+    const loads = vehicles.map(() => EMPTY_LOAD);
+    const next = new Map<string, number>();
+    unassigned = [];
+
+    const ranked = orders
+      .map((order) => {
+        const byDistance = centers
+          .map((center, index) => ({ index, distance: distanceBetween(order, center) }))
+          .sort((a, b) => a.distance - b.distance);
+        const regret = byDistance.length > 1 ? byDistance[1].distance - byDistance[0].distance : 0;
+        return { order, byDistance, regret };
+      })
+      .sort(
+        (a, b) =>
+          PRIORITY_RANK[b.order.priority] - PRIORITY_RANK[a.order.priority] || b.regret - a.regret
+      );
+
+    for (const { order, byDistance } of ranked) {
+      const target = byDistance.find(
+        ({ index }) =>
+          stops[index] < vehicles[index].maxStops &&
+          exceededDimensions(addLoad(loads[index], order.load), vehicles[index].capacity).length === 0
+      );
+
+      if (!target) {
+        unassigned.push(order);
+        continue;
+      }
+
+      next.set(order.id, target.index);
+      stops[target.index]++;
+      loads[target.index] = addLoad(loads[target.index], order.load);
+    }
+
+    const changed =
+      next.size !== assignment.size ||
+      [...next].some(([orderId, index]) => assignment.get(orderId) !== index);
+
+    assignment = next;
+    if (!changed) break;
+
+    centers = vehicles.map((vehicle, index) => {
+      const members: Point[] = orders.filter((order) => assignment.get(order.id) === index);
+      if (vehicle.depot) members.push(vehicle.depot);
+      return members.length > 0 ? centroid(members) : centers[index];
+    });
+  }
+
+  const clusters = new Map<string, PlanOrder[]>();
+
+  for (const order of orders) {
+    const index = assignment.get(order.id);
+    if (index === undefined) continue;
+
+    const driverId = vehicles[index].driverId;
+    clusters.set(driverId, [...(clusters.get(driverId) || []), order]);
+  }
+
+  return { clusters, unassigned };
+}
@@ -0,0 +1,122 @@
+// filepath: backend/src/utils/geocodeJob.ts
+import { randomUUID } from 'crypto';
+import { OrderStatus, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { emitEvent } from '../config/socket';
+import { geocodeAddress, geocodedCoordinates } from './geocoder';
+
+/**
+ * Background geocoding of orders without coordinates
+ * Jobs run in this process and are kept in memory for an hour after they
+ * finish; poll them with getGeocodeJob()
+ */
+
+export type GeocodeJobStatus = 'running' | 'completed' | 'failed';
+
+export interface GeocodeJob {
+  id: string;
+  status: GeocodeJobStatus;
+  total: number;
+  processed: number;
+  geocoded: number;
+  unmatched: { orderId: string; orderNumber: string }[];
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface GeocodeJobOptions {
+  orderIds?: string[];       // Only these orders (e.g. a fresh import)
+  retryUnmatched?: boolean;  // Include orders a previous attempt could not match
+}
+
+const JOB_TTL_MS = 60 * 60 * 1000;
+const jobs = new Map<string, GeocodeJob>();
+
+const purgeFinishedJobs = (): void => {
+  const now = Date.now();
+  jobs.forEach((job, id) => {
+    if (job.finishedAt && job.finishedAt.getTime() + JOB_TTL_MS <= now) jobs.delete(id);
+  });
+};
+
+async function runGeocodeJob(job: GeocodeJob, where: Prisma.OrderWhereInput): Promise<void> {
+  const orders = await prisma.order.findMany({
+    where,
+    select: { id: true, orderNumber: true, address: true, addressLine2: true, city: true, postalCode: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  job.total = orders.length;
+  console.log(`🌍 Geocoding ${orders.length} orders (job ${job.id})...`);
+
+  for (const order of orders) {
+    const result = await geocodeAddress(order);
+
+    const updated = await prisma.order.update({
+      where: { id: order.id },
+      data: geocodedCoordinates(result),
+    });
+
+    if (result) {
+      job.geocoded++;
+      emitEvent('order:updated', updated);
+    } else {
+      job.unmatched.push({ orderId: order.id, orderNumber: order.orderNumber });
+    }
+
+    job.processed++;
+  }
+
+  console.log(`✅ Geocoding job ${job.id}: ${job.geocoded}/${job.total} geocoded`);
+}
+
+/**
+ * Geocode active orders that have no coordinates
+ * Returns immediately; the job keeps running in the background
+ */
+export function startGeocodeJob({ orderIds, retryUnmatched = false }: GeocodeJobOptions = {}): GeocodeJob {
+  purgeFinishedJobs();
+
+  const job: GeocodeJob = {
+    id: randomUUID(),
+    status: 'running',
+    total: 0,
+    processed: 0,
+    geocoded: 0,
+    unmatched: [],
+    error: null,
+    startedAt: new Date(),
+    finishedAt: null,
+  };
+
+  const where: Prisma.OrderWhereInput = {
+    deletedAt: null,
+    status: { notIn: [OrderStatus.DELIVERED, OrderStatus.CANCELLED] },
+    OR: [{ latitude: null }, { longitude: null }],
+    ...(orderIds ? { id: { in: orderIds } } : {}),
+    ...(retryUnmatched ? {} : { geocodedAt: null }),
+  };
+
+  jobs.set(job.id, job);
+
+  runGeocodeJob(job, where)
+    .then(() => {
+      job.status = 'completed';
+    })
+    .catch((error) => {
+      console.error(`❌ Geocoding job ${job.id} failed:`, error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    })
+    .finally(() => {
+      job.finishedAt = new Date();
+    });
+
+  return job;
+}
+
+export const getGeocodeJob = (jobId: string): GeocodeJob | undefined => {
+  purgeFinishedJobs();
+  return jobs.get(jobId);
+};
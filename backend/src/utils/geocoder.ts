@@ -0,0 +1,380 @@
+// filepath: backend/src/utils/geocoder.ts
+import fs from 'fs';
+import csv from 'csv-parser';
+import { GeocodeSource } from '@prisma/client';
+import env from '../config/env';
+import { calculateDistance } from './routeOptimizer';
+
+/**
+ * Geocoding
+ * Coordinates for orders that arrive with an address only, and the
+ * address near a point (reverse geocoding) for manual pin corrections.
+ * Geocoders are tried in the order configured in GEOCODERS; the first
+ * match wins. Swap them with setGeocoders()
+ */
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface AddressQuery {
+  address: string;
+  addressLine2?: string | null;
+  city: string;
+  postalCode: string;
+  country?: string | null; // ISO 3166-1 alpha-2
+}
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  confidence: number; // 0-1, how precise the match is
+  source: GeocodeSource;
+}
+
+export interface ReverseGeocodeResult {
+  address: string | null;
+  city: string | null;
+  postalCode: string | null;
+  country: string | null;
+  displayName: string;
+  source: GeocodeSource;
+}
+
+export interface Geocoder {
+  readonly source: GeocodeSource;
+  geocode(query: AddressQuery): Promise<GeocodeResult | null>;
+  reverse?(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null>;
+}
+
+// ==========================================
+// NOMINATIM
+// ==========================================
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  place_rank: number; // 30 = building, 26-27 = street, 16 = city
+  display_name: string;
+  address?: {
+    house_number?: string;
+    road?: string;
+    city?: string;
+    town?: string;
+    village?: string;
+    postcode?: string;
+    country_code?: string;
+  };
+}
+
+// Public Nominatim allows one request per second
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+const BUILDING_PLACE_RANK = 30;
+
+/**
+ * Nominatim search API (OpenStreetMap), structured query
+ * GET {baseUrl}/search?street=&city=&postalcode=&format=jsonv2&limit=1
+ */
+export class NominatimGeocoder implements Geocoder {
+  readonly source = GeocodeSource.NOMINATIM;
+  private nextRequestAt = 0;
+
+  constructor(
+    private baseUrl: string,
+    private options: {
+      email?: string;
+      countryCodes?: string;
+      timeoutMs?: number;
+      minIntervalMs?: number;
+    } = {}
+  ) {}
+
+  // Requests are spaced out even when several jobs geocode at once
+  private async throttle(): Promise<void> {
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextRequestAt);
+    this.nextRequestAt = startAt + (this.options.minIntervalMs ?? NOMINATIM_MIN_INTERVAL_MS);
+
+    if (startAt > now) await new Promise((resolve) => setTimeout(resolve, startAt - now));
+  }
+
+  private async request<T>(endpoint: string, params: URLSearchParams): Promise<T> {
+    params.set('format', 'jsonv2');
+    if (this.options.email) params.set('email', this.options.email);
+
+    await this.throttle();
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/${endpoint}?${params}`, {
+      headers: { 'User-Agent': 'SwiftRoute/1.0' },
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 5000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Nominatim ${response.status} ${response.statusText}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  async geocode({ address, city, postalCode, country }: AddressQuery): Promise<GeocodeResult | null> {
+    const params = new URLSearchParams({
+      street: address,
+      city,
+      postalcode: postalCode,
+      limit: '1',
+    });
+    const countryCodes = country || this.options.countryCodes;
+    if (countryCodes) params.set('countrycodes', countryCodes.toLowerCase());
+
+    const [place] = await this.request<NominatimPlace[]>('search', params);
+    if (!place) return null;
+
+    return {
+      latitude: parseFloat(place.lat),
+      longitude: parseFloat(place.lon),
+      confidence: Math.round(Math.min(1, place.place_rank / BUILDING_PLACE_RANK) * 100) / 100,
+      source: this.source,
+    };
+  }
+
+  async reverse(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null> {
+    const params = new URLSearchParams({
+      lat: String(latitude),
+      lon: String(longitude),
+      addressdetails: '1',
+    });
+
+    const place = await this.request<NominatimPlace & { error?: string }>('reverse', params);
+    if (place.error || !place.display_name) return null;
+
+    const address = place.address || {};
+    const street = [address.house_number, address.road].filter(Boolean).join(' ');
+
+    return {
+      address: street || null,
+      city: address.city || address.town || address.village || null,
+      postalCode: address.postcode || null,
+      country: address.country_code?.toUpperCase() || null,
+      displayName: place.display_name,
+      source: this.source,
+    };
+  }
+}
+
+// ==========================================
+// POSTAL CODE CENTROIDS
+// ==========================================
+
+// A postal code area is coarser than any street match
+const POSTAL_CODE_CONFIDENCE = 0.5;
+const POSTAL_PREFIX_CONFIDENCE = 0.3;
+const MIN_POSTAL_PREFIX = 3; // e.g. Canadian FSA "M5V", UK outward code
+
+export const normalizePostalCode = (postalCode: string): string =>
+  postalCode.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+type Centroid = { latitude: number; longitude: number; city?: string | null };
+
+export interface PostalCodeMatch {
+  postalCode: string;   // Matched code or prefix, normalized
+  latitude: number;
+  longitude: number;
+  city: string | null;  // When the table has a city column
+  exact: boolean;       // Full code rather than a prefix
+}
+
+// Nearest centroid within this distance when reverse geocoding
+const MAX_REVERSE_DISTANCE_KM = 10;
+
+const loadCentroids = (filePath: string): Promise<Map<string, Centroid>> =>
+  new Promise((resolve, reject) => {
+    const centroids = new Map<string, Centroid>();
+
+    fs.createReadStream(filePath)
+      .pipe(csv())
+      .on('data', (row) => {
+        const latitude = parseFloat(row.latitude);
+        const longitude = parseFloat(row.longitude);
+
+        if (row.postalCode && !isNaN(latitude) && !isNaN(longitude)) {
+          centroids.set(normalizePostalCode(row.postalCode), { latitude, longitude, city: row.city || null });
+        }
+      })
+      .on('end', () => resolve(centroids))
+      .on('error', reject);
+  });
+
+/**
+ * Offline lookup in a postal code centroid table
+ * CSV with postalCode,latitude,longitude and an optional city column.
+ * Full codes match first, then shorter prefixes down to the area code.
+ */
+export class PostalCodeGeocoder implements Geocoder {
+  readonly source = GeocodeSource.POSTAL_CODE;
+  private centroids: Promise<Map<string, Centroid>> | null = null;
+
+  constructor(private table: string | Map<string, Centroid> | undefined) {}
+
+  private getCentroids(): Promise<Map<string, Centroid>> {
+    if (!this.centroids) {
+      const table = this.table;
+
+      this.centroids =
+        table instanceof Map
+          ? Promise.resolve(new Map([...table].map(([code, centroid]) => [normalizePostalCode(code), centroid])))
+          : table
+            ? loadCentroids(table)
+            : Promise.resolve(new Map());
+    }
+
+    return this.centroids;
+  }
+
+  async lookup(postalCode: string): Promise<PostalCodeMatch | null> {
+    const centroids = await this.getCentroids();
+    const code = normalizePostalCode(postalCode);
+
+    for (let length = code.length; length >= MIN_POSTAL_PREFIX; length--) {
+      const centroid = centroids.get(code.slice(0, length));
+      if (!centroid) continue;
+
+      return {
+        postalCode: code.slice(0, length),
+        latitude: centroid.latitude,
+        longitude: centroid.longitude,
+        city: centroid.city ?? null,
+        exact: length === code.length,
+      };
+    }
+
+    return null;
+  }
+
+  async geocode({ postalCode }: AddressQuery): Promise<GeocodeResult | null> {
+    const match = await this.lookup(postalCode);
+    if (!match) return null;
+
+    return {
+      latitude: match.latitude,
+      longitude: match.longitude,
+      confidence: match.exact ? POSTAL_CODE_CONFIDENCE : POSTAL_PREFIX_CONFIDENCE,
+      source: this.source,
+    };
+  }
+
+  // Nearest centroid: the postal code area a point most likely belongs to
+  async reverse(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null> {
+    const centroids = await this.getCentroids();
+    let nearest: { code: string; centroid: Centroid; distance: number } | null = null;
+
+    for (const [code, centroid] of centroids) {
+      const distance = calculateDistance(latitude, longitude, centroid.latitude, centroid.longitude);
+      if (distance <= MAX_REVERSE_DISTANCE_KM && (!nearest || distance < nearest.distance)) {
+        nearest = { code, centroid, distance };
+      }
+    }
+
+    if (!nearest) return null;
+    const { code, centroid } = nearest;
+
+    return {
+      address: null,
+      city: centroid.city ?? null,
+      postalCode: code,
+      country: null,
+      displayName: [code, centroid.city].filter(Boolean).join(' '),
+      source: this.source,
+    };
+  }
+}
+
+// ==========================================
+// CONFIGURED GEOCODERS
+// ==========================================
+
+export function createGeocoders(config: typeof env = env): Geocoder[] {
+  return config.GEOCODERS.map((name) =>
+    name === 'nominatim'
+      ? new NominatimGeocoder(config.NOMINATIM_URL, {
+          email: config.NOMINATIM_EMAIL,
+          countryCodes: config.GEOCODER_COUNTRY_CODES,
+          timeoutMs: config.GEOCODER_TIMEOUT_MS,
+        })
+      : new PostalCodeGeocoder(config.POSTAL_CODE_CENTROIDS_FILE)
+  );
+}
+
+let geocoders: Geocoder[] = createGeocoders();
+let postalCodeTable: PostalCodeGeocoder | null = null;
+
+export const getGeocoders = (): Geocoder[] => geocoders;
+
+export const setGeocoders = (chain: Geocoder[]): void => {
+  geocoders = chain;
+};
+
+// Centroid table for address checks, whether or not it is used for geocoding
+export const getPostalCodeTable = (): PostalCodeGeocoder => {
+  const configured = geocoders.find((geocoder): geocoder is PostalCodeGeocoder => geocoder instanceof PostalCodeGeocoder);
+  if (configured) return configured;
+
+  if (!postalCodeTable) postalCodeTable = new PostalCodeGeocoder(env.POSTAL_CODE_CENTROIDS_FILE);
+  return postalCodeTable;
+};
+
+/**
+ * First match from the configured geocoders
+ * A failing geocoder is logged and skipped; null when nothing matched
+ */
+export async function geocodeAddress(query: AddressQuery): Promise<GeocodeResult | null> {
+  for (const geocoder of geocoders) {
+    try {
+      const result = await geocoder.geocode(query);
+      if (result) return result;
+    } catch (error) {
+      console.error(`⚠️  ${geocoder.source} geocoding failed:`, (error as Error).message);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Address near a point from the first geocoder that can reverse geocode
+ */
+export async function reverseGeocode(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null> {
+  for (const geocoder of geocoders) {
+    if (!geocoder.reverse) continue;
+
+    try {
+      const result = await geocoder.reverse(latitude, longitude);
+      if (result) return result;
+    } catch (error) {
+      console.error(`⚠️  ${geocoder.source} reverse geocoding failed:`, (error as Error).message);
+    }
+  }
+
+  return null;
+}
+
+// ==========================================
+// ORDER FIELDS
+// ==========================================
+
+// Coordinates entered by a user or imported with the order
+export const manualCoordinates = (latitude: number, longitude: number) => ({
+  latitude,
+  longitude,
+  geocodeSource: GeocodeSource.MANUAL,
+  geocodeConfidence: null,
+  geocodedAt: null,
+});
+
+// Outcome of a geocoding attempt; clears coordinates when nothing matched
+export const geocodedCoordinates = (result: GeocodeResult | null) => ({
+  latitude: result?.latitude ?? null,
+  longitude: result?.longitude ?? null,
+  geocodeSource: result?.source ?? null,
+  geocodeConfidence: result?.confidence ?? null,
+  geocodedAt: new Date(),
+});
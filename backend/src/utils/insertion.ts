@@ -0,0 +1,130 @@
+// filepath: backend/src/utils/insertion.ts
+import { Order, StopStatus } from '@prisma/client';
+import {
+  TimeWindowMode,
+  LATE_PENALTY_WEIGHT,
+  buildSchedule,
+  calculateRouteDistance,
+} from './routeOptimizer';
+import { toRouteDepot } from './depot';
+import {
+  SequencedStop,
+  TimedRoute,
+  hasCoordinates,
+  lockedStopCount,
+  remainingMatrix,
+  remainingStart,
+  toLocation,
+} from './routeSequence';
+import { Load, toLoadedOrder, totalLoad } from './capacity';
+
+/**
+ * Best Insertion
+ * Where a new order fits into a route that is already planned or under way.
+ * Stops the driver has started or finished stay in place; the remaining ones
+ * are timed like routeSequence times them, so the ETA shown for an insertion
+ * is the one the stop gets.
+ */
+
+export interface InsertionRoute extends TimedRoute {
+  stops: SequencedStop[]; // In sequence order
+}
+
+export interface InsertionLateStop {
+  orderId: string;
+  orderNumber: string;
+  lateMinutes: number;
+}
+
+export interface Insertion {
+  position: number;            // Index in the route's stop list the new stop takes
+  insertAfter: string | null;  // Order number of the stop before it (null: first stop)
+  addedDistance: number;       // km
+  addedMinutes: number;        // Extra time to finish the remaining stops
+  addedLateMinutes: number;    // Extra lateness over the remaining stops, the new one included
+  estimatedTime: Date;         // Service start at the new stop
+  lateStops: InsertionLateStop[]; // Remaining stops that are late with the new one in
+  distanceProvider: string;
+}
+
+/**
+ * Load still to carry on a route; delivered parcels have left the vehicle
+ */
+export function remainingLoad(stops: { status: StopStatus; order: Order }[]): Load {
+  return totalLoad(
+    stops.filter((stop) => stop.status !== StopStatus.DELIVERED).map((stop) => toLoadedOrder(stop.order))
+  );
+}
+
+/**
+ * Cheapest place for an order (with coordinates) among a route's remaining stops
+ *
+ * Every gap after the locked stops is tried. Cost is the extra driving and
+ * waiting time; soft mode adds a lateness penalty, hard mode first picks the
+ * place that makes the fewest late minutes.
+ */
+export async function findBestInsertion(
+  route: InsertionRoute,
+  order: Order,
+  mode: TimeWindowMode = 'soft'
+): Promise<Insertion> {
+  const locked = route.stops.slice(0, lockedStopCount(route.stops));
+  const remaining = route.stops.slice(locked.length);
+
+  const { startTime, origin } = remainingStart(route, locked);
+  const locations = [...remaining.map((stop) => stop.order).filter(hasCoordinates), order].map(toLocation);
+  const matrix = await remainingMatrix(locations, toRouteDepot(route.depot, route.returnToDepot), origin);
+
+  const measure = (sequence: string[]) => {
+    const schedule = buildSchedule(locations, sequence, startTime, null, matrix);
+    return {
+      schedule,
+      distance: calculateRouteDistance(locations, sequence, null, matrix),
+      minutes: (schedule.endTime.getTime() - schedule.startTime.getTime()) / 60000,
+      lateMinutes: schedule.lateStops.reduce((sum, stop) => sum + stop.lateMinutes, 0),
+    };
+  };
+
+  const current = remaining.map((stop) => stop.orderId);
+  const base = measure(current);
+
+  const candidates = Array.from({ length: current.length + 1 }, (_, offset) => {
+    const result = measure([...current.slice(0, offset), order.id, ...current.slice(offset)]);
+    const addedMinutes = result.minutes - base.minutes;
+    const addedLateMinutes = result.lateMinutes - base.lateMinutes;
+
+    return {
+      offset,
+      result,
+      addedMinutes,
+      addedLateMinutes,
+      cost: addedMinutes + (mode === 'soft' ? addedLateMinutes * LATE_PENALTY_WEIGHT : 0),
+    };
+  });
+
+  const best = candidates.reduce((best, candidate) => {
+    if (mode === 'hard' && candidate.addedLateMinutes !== best.addedLateMinutes) {
+      return candidate.addedLateMinutes < best.addedLateMinutes ? candidate : best;
+    }
+    if (candidate.cost !== best.cost) return candidate.cost < best.cost ? candidate : best;
+    return candidate.result.distance < best.result.distance ? candidate : best;
+  });
+
+  const position = locked.length + best.offset;
+  const newStop = best.result.schedule.stops.find((stop) => stop.id === order.id)!;
+
+  return {
+    position,
+    insertAfter: position > 0 ? route.stops[position - 1].order.orderNumber : null,
+    addedDistance: Math.round((best.result.distance - base.distance) * 100) / 100,
+    addedMinutes: Math.round(best.addedMinutes),
+    addedLateMinutes: Math.round(best.addedLateMinutes),
+    estimatedTime: newStop.serviceStart,
+    lateStops: best.result.schedule.lateStops.map((stop) => ({
+      orderId: stop.id,
+      orderNumber: stop.orderNumber,
+      lateMinutes: stop.lateMinutes,
+    })),
+    distanceProvider: matrix.provider,
+  };
+}
@@ -1,7 +1,7 @@
 import jwt, { Secret } from 'jsonwebtoken';
 
 const JWT_SECRET: Secret = (process.env.JWT_SECRET as Secret) || 'fallback-secret-change-this';
-const JWT_EXPIRES_IN: jwt.SignOptions['expiresIn'] = (process.env.JWT_EXPIRES_IN as jwt.SignOptions['expiresIn']) || '7d';
+const JWT_EXPIRES_IN: jwt.SignOptions['expiresIn'] = (process.env.JWT_EXPIRES_IN as jwt.SignOptions['expiresIn']) || '15m';
 
 export interface JwtPayload {
   userId: string;
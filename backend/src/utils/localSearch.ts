@@ -0,0 +1,151 @@
+// filepath: backend/src/utils/localSearch.ts
+
+/**
+ * Local Search Improvement
+ * Improves an existing visiting order (indices into a location list) against
+ * any cost function: 2-opt, Or-opt and simulated annealing
+ */
+
+export type SequenceCost = (sequence: number[]) => number;
+
+// Ignore improvements smaller than this (floating point noise)
+const EPSILON = 1e-9;
+
+function reverseSegment(sequence: number[], i: number, j: number): number[] {
+  return [
+    ...sequence.slice(0, i),
+    ...sequence.slice(i, j + 1).reverse(),
+    ...sequence.slice(j + 1),
+  ];
+}
+
+function moveSegment(sequence: number[], from: number, length: number, to: number): number[] {
+  const segment = sequence.slice(from, from + length);
+  const rest = [...sequence.slice(0, from), ...sequence.slice(from + length)];
+  return [...rest.slice(0, to), ...segment, ...rest.slice(to)];
+}
+
+/**
+ * 2-opt: reverse any sub-path that shortens the route (removes crossings)
+ * Repeats until no reversal improves or the deadline passes
+ */
+export function twoOpt(sequence: number[], cost: SequenceCost, deadline: number): number[] {
+  let best = sequence;
+  let bestCost = cost(best);
+  let improved = true;
+
+  while (improved && Date.now() < deadline) {
+    improved = false;
+
+    for (let i = 0; i < best.length - 1 && Date.now() < deadline; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = reverseSegment(best, i, j);
+        const candidateCost = cost(candidate);
+
+        if (candidateCost < bestCost - EPSILON) {
+          best = candidate;
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Or-opt: relocate segments of 1-3 consecutive stops to a better position
+ */
+export function orOpt(sequence: number[], cost: SequenceCost, deadline: number): number[] {
+  let best = sequence;
+  let bestCost = cost(best);
+  let improved = true;
+
+  while (improved && Date.now() < deadline) {
+    improved = false;
+
+    for (let length = 1; length <= 3; length++) {
+      for (let from = 0; from + length <= best.length && Date.now() < deadline; from++) {
+        for (let to = 0; to <= best.length - length; to++) {
+          if (to === from) continue;
+
+          const candidate = moveSegment(best, from, length, to);
+          const candidateCost = cost(candidate);
+
+          if (candidateCost < bestCost - EPSILON) {
+            best = candidate;
+            bestCost = candidateCost;
+            improved = true;
+          }
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+function randomInt(max: number): number {
+  return Math.floor(Math.random() * max);
+}
+
+// Random 2-opt reversal or single-stop relocation
+function randomNeighbor(sequence: number[]): number[] {
+  const n = sequence.length;
+
+  if (Math.random() < 0.5) {
+    const i = randomInt(n - 1);
+    const j = i + 1 + randomInt(n - i - 1);
+    return reverseSegment(sequence, i, j);
+  }
+
+  const from = randomInt(n);
+  let to = randomInt(n - 1);
+  if (to >= from) to++;
+  return moveSegment(sequence, from, 1, Math.min(to, n - 1));
+}
+
+/**
+ * Simulated annealing within a time budget
+ * Accepts worse neighbors with probability exp(-delta / T) while the
+ * temperature cools geometrically to 0.1% of its start over the budget
+ */
+export function simulatedAnnealing(
+  sequence: number[],
+  cost: SequenceCost,
+  deadline: number
+): number[] {
+  if (sequence.length < 3) return sequence;
+
+  const startedAt = Date.now();
+  const budget = Math.max(deadline - startedAt, 1);
+
+  let current = sequence;
+  let currentCost = cost(current);
+  let best = current;
+  let bestCost = currentCost;
+
+  const initialTemperature = Math.max(currentCost * 0.05, EPSILON);
+
+  while (Date.now() < deadline) {
+    const progress = (Date.now() - startedAt) / budget;
+    const temperature = initialTemperature * Math.pow(0.001, progress);
+
+    const candidate = randomNeighbor(current);
+    const candidateCost = cost(candidate);
+    const delta = candidateCost - currentCost;
+
+    if (delta < 0 || Math.random() < Math.exp(-delta / temperature)) {
+      current = candidate;
+      currentCost = candidateCost;
+
+      if (currentCost < bestCost - EPSILON) {
+        best = current;
+        bestCost = currentCost;
+      }
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,64 @@
+// filepath: backend/src/utils/mailer.ts
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import env from '../config/env';
+
+/**
+ * Mailer
+ * Pluggable outgoing email. Development transports print messages to the
+ * console or write them to an outbox directory; swap in a real provider
+ * with setMailer()
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class ConsoleMailer implements Mailer {
+  constructor(private from: string = env.MAIL_FROM) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Mail from ${this.from} to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// One .eml file per message, readable by any mail client
+export class FileMailer implements Mailer {
+  constructor(
+    private outboxDir: string = path.resolve(env.MAIL_OUTBOX_DIR),
+    private from: string = env.MAIL_FROM
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    const content = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+
+    await fs.promises.writeFile(path.join(this.outboxDir, fileName), content);
+    console.log(`📧 Mail to ${message.to} written to ${path.join(this.outboxDir, fileName)}`);
+  }
+}
+
+let mailer: Mailer = env.MAIL_TRANSPORT === 'file' ? new FileMailer() : new ConsoleMailer();
+
+export const getMailer = (): Mailer => mailer;
+
+export const setMailer = (transport: Mailer): void => {
+  mailer = transport;
+};
@@ -1,4 +1,5 @@
 import bcrypt from 'bcryptjs';
+import { randomBytes } from 'crypto';
 
 export const hashPassword = async (password: string): Promise<string> => {
   const salt = await bcrypt.genSalt(10);
@@ -10,4 +11,54 @@ export const comparePassword = async (
   hashedPassword: string
 ): Promise<boolean> => {
   return bcrypt.compare(password, hashedPassword);
-};
\ No newline at end of file
+};
+// One-time password for invited users, shown to the inviting admin once
+export const generateTemporaryPassword = (): string => randomBytes(12).toString('base64url');
+
+// ============================================
+// STRENGTH RULES
+// ============================================
+
+export const PASSWORD_MIN_LENGTH = 10;
+const PASSWORD_MAX_LENGTH = 72; // bcrypt ignores everything after 72 bytes
+
+const COMMON_PASSWORDS = new Set([
+  'password', 'password1', 'password123', 'passw0rd', '123456789', '1234567890', 'qwerty123',
+  'qwertyuiop', 'iloveyou', 'admin123', 'welcome1', 'letmein123', 'swiftroute', 'changeme',
+]);
+
+/**
+ * Problems with a new password; empty when it is acceptable
+ * `email` and `name` keep users from choosing their own identity as a password
+ */
+export function validatePasswordStrength(
+  password: unknown,
+  user: { email?: string; name?: string } = {}
+): string[] {
+  if (typeof password !== 'string' || password.length === 0) return ['Password is required'];
+
+  const errors: string[] = [];
+  const lower = password.toLowerCase();
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    errors.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (Buffer.byteLength(password) > PASSWORD_MAX_LENGTH) {
+    errors.push(`Password must be at most ${PASSWORD_MAX_LENGTH} bytes`);
+  }
+  if (!/[a-z]/i.test(password) || !/\d/.test(password)) {
+    errors.push('Password must contain both letters and numbers');
+  }
+  if (COMMON_PASSWORDS.has(lower)) {
+    errors.push('Password is too common');
+  }
+
+  const identity = [user.email?.split('@')[0], user.name]
+    .filter((value): value is string => !!value && value.length >= 3)
+    .map((value) => value.toLowerCase());
+  if (identity.some((value) => lower.includes(value))) {
+    errors.push('Password must not contain your name or email');
+  }
+
+  return errors;
+}
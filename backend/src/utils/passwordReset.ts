@@ -0,0 +1,79 @@
+// filepath: backend/src/utils/passwordReset.ts
+import { createHash, randomBytes } from 'crypto';
+import { User } from '@prisma/client';
+import prisma from '../config/database';
+import env from '../config/env';
+import { hashPassword } from './password';
+
+/**
+ * Password Reset Tokens
+ * Single-use, expiring tokens sent by email. Only a SHA-256 hash is stored,
+ * and requesting a new link invalidates any earlier one for the same user.
+ */
+
+export interface IssuedResetToken {
+  token: string;
+  expiresAt: Date;
+}
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+/**
+ * New reset token for a user; earlier unused tokens stop working
+ */
+export async function issuePasswordResetToken(userId: string, ipAddress?: string | null): Promise<IssuedResetToken> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + env.PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({ where: { userId, usedAt: null } }),
+    prisma.passwordResetToken.create({
+      data: { userId, tokenHash: hashToken(token), expiresAt, ipAddress: ipAddress ?? null },
+    }),
+  ]);
+
+  return { token, expiresAt };
+}
+
+/**
+ * User a reset token belongs to, or null when it is unknown, used, expired,
+ * or the account can no longer sign in
+ */
+export async function findPasswordResetUser(token: string): Promise<User | null> {
+  const stored = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  if (!stored || stored.usedAt || stored.expiresAt <= new Date()) return null;
+  if (!stored.user.isActive || stored.user.deletedAt) return null;
+
+  return stored.user;
+}
+
+/**
+ * Spend a reset token and set the new password
+ * Returns false when the token was already used (e.g. submitted twice)
+ */
+export async function resetPasswordWithToken(token: string, newPassword: string): Promise<boolean> {
+  const now = new Date();
+
+  // Claim the token first; a concurrent reset with the same token loses here
+  const claimed = await prisma.passwordResetToken.updateMany({
+    where: { tokenHash: hashToken(token), usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now },
+  });
+
+  if (claimed.count === 0) return false;
+
+  const stored = await prisma.passwordResetToken.findUniqueOrThrow({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  await prisma.user.update({
+    where: { id: stored.userId },
+    data: { password: await hashPassword(newPassword), lastUpdatedBy: stored.userId },
+  });
+
+  return true;
+}
@@ -0,0 +1,108 @@
+// filepath: backend/src/utils/priority.ts
+import { Priority } from '@prisma/client';
+import { PriorityPolicy, PriorityRule } from '../config/priorityPolicy';
+import { Location, RouteSchedule } from './routeOptimizer';
+import { parseTimeOfDay, formatMinutes } from './timeWindow';
+
+/**
+ * Priority Sequencing
+ * Penalizes high-priority stops that land too far down a route or too late
+ * in the day, and explains where each one ended up
+ */
+
+export interface PriorityOptions {
+  policy: PriorityPolicy;
+  weight: number;   // Multiplier on every penalty
+  startTime: Date;  // Clock for cutoff checks on routes without time windows
+}
+
+export interface PriorityPlacement {
+  orderId: string;
+  orderNumber: string;
+  priority: Priority;
+  position: number;
+  maxPosition: number | null;
+  estimatedTime: Date;
+  cutoffTime: string | null;
+  stopsOverLimit: number;
+  minutesPastCutoff: number;
+  onTarget: boolean;
+  explanation: string;
+}
+
+function evaluateRule(rule: PriorityRule, position: number, serviceStart: number) {
+  const cutoff = parseTimeOfDay(rule.cutoffTime);
+
+  return {
+    cutoff,
+    stopsOverLimit: rule.maxPosition ? Math.max(0, position - rule.maxPosition) : 0,
+    minutesPastCutoff: cutoff !== null ? Math.max(0, serviceStart - cutoff) : 0,
+  };
+}
+
+/**
+ * Penalty for serving a stop at `position` (1-based), starting service at
+ * `serviceStart` minutes since midnight
+ */
+export function priorityPenalty(
+  location: Location,
+  position: number,
+  serviceStart: number,
+  { policy, weight }: PriorityOptions
+): number {
+  const rule = location.priority ? policy[location.priority] : null;
+  if (!rule) return 0;
+
+  const { stopsOverLimit, minutesPastCutoff } = evaluateRule(rule, position, serviceStart);
+
+  return weight * (stopsOverLimit * rule.positionPenalty + minutesPastCutoff * rule.latePenalty);
+}
+
+/**
+ * Where each stop with a priority rule ended up, and whether it met its target
+ */
+export function explainPriorityPlacement(
+  locations: Location[],
+  schedule: RouteSchedule,
+  policy: PriorityPolicy
+): PriorityPlacement[] {
+  const locationById = new Map(locations.map((location) => [location.id, location]));
+  const startOfDay = new Date(schedule.startTime);
+  startOfDay.setHours(0, 0, 0, 0);
+
+  return schedule.stops.flatMap((stop, index) => {
+    const location = locationById.get(stop.id);
+    const rule = location?.priority ? policy[location.priority] : null;
+    if (!location?.priority || !rule) return [];
+
+    const position = index + 1;
+    const serviceStart = (stop.serviceStart.getTime() - startOfDay.getTime()) / 60000;
+    const { cutoff, stopsOverLimit, minutesPastCutoff } = evaluateRule(rule, position, serviceStart);
+    const onTarget = stopsOverLimit === 0 && minutesPastCutoff === 0;
+
+    const misses = [
+      ...(stopsOverLimit > 0 ? [`stop ${position} is past the first ${rule.maxPosition}`] : []),
+      ...(minutesPastCutoff > 0
+        ? [`served at ${formatMinutes(serviceStart)}, ${Math.round(minutesPastCutoff)} min after the ${rule.cutoffTime} cutoff`]
+        : []),
+    ];
+
+    return [
+      {
+        orderId: stop.id,
+        orderNumber: stop.orderNumber,
+        priority: location.priority,
+        position,
+        maxPosition: rule.maxPosition ?? null,
+        estimatedTime: stop.serviceStart,
+        cutoffTime: cutoff !== null ? rule.cutoffTime ?? null : null,
+        stopsOverLimit,
+        minutesPastCutoff: Math.round(minutesPastCutoff),
+        onTarget,
+        explanation: onTarget
+          ? `${location.priority} stop ${position} at ${formatMinutes(serviceStart)} meets its target`
+          : `${location.priority} stop missed its target: ${misses.join('; ')}`,
+      },
+    ];
+  });
+}
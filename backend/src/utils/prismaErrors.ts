@@ -0,0 +1,23 @@
+// filepath: backend/src/utils/prismaErrors.ts
+import { Prisma } from '@prisma/client';
+
+/**
+ * Prisma Error Checks
+ */
+
+// A write hit a unique constraint, e.g. an order that got a current stop in a concurrent request
+export const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// A serializable transaction lost to a concurrent one and was rolled back
+export const isSerializationFailure = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+
+// Thrown inside an interactive transaction, to roll it back, when a write guarded
+// by a status check matched fewer rows than expected
+export class StaleWriteError extends Error {
+  constructor() {
+    super('Record was changed by a concurrent request');
+    this.name = 'StaleWriteError';
+  }
+}
@@ -0,0 +1,174 @@
+// filepath: backend/src/utils/redelivery.ts
+import prisma from '../config/database';
+import {
+  AttemptResult,
+  OrderStatus,
+  RedeliveryStatus,
+  RouteStatus,
+} from '@prisma/client';
+import { retryPolicy, RetryPolicy, FailedAttemptResult } from '../config/retryPolicy';
+import { emitEvent } from '../config/socket';
+
+/**
+ * Re-delivery Scheduling
+ * Applies the retry policy to FAILED orders once their route is finished
+ */
+
+export interface RedeliveryOutcome {
+  orderId: string;
+  orderNumber: string;
+  result: FailedAttemptResult;
+  redeliveryStatus: RedeliveryStatus;
+}
+
+// Routes whose failed stops must wait until the driver is done
+const ACTIVE_ROUTE_STATUSES: RouteStatus[] = [RouteStatus.PENDING, RouteStatus.IN_PROGRESS];
+
+// Flags that need a dispatcher, never re-evaluated automatically
+const FINAL_REDELIVERY_STATUSES: RedeliveryStatus[] = [
+  RedeliveryStatus.MANUAL_REVIEW,
+  RedeliveryStatus.RETURN_TO_SENDER,
+];
+
+/**
+ * Decide what to do with a failed order
+ * redeliveryCount is the number of times the order has already been rescheduled
+ */
+export function decideRedelivery(
+  result: FailedAttemptResult,
+  redeliveryCount: number,
+  addressCorrected: boolean,
+  policy: RetryPolicy = retryPolicy
+): RedeliveryStatus {
+  const rule = policy.rules[result];
+
+  if (!rule.retry) return RedeliveryStatus.MANUAL_REVIEW;
+
+  const maxAttempts = rule.maxAttempts ?? policy.maxAttempts;
+  if (redeliveryCount + 1 >= maxAttempts) return RedeliveryStatus.RETURN_TO_SENDER;
+
+  if (rule.requiresAddressChange && !addressCorrected) return RedeliveryStatus.AWAITING_ADDRESS;
+
+  return RedeliveryStatus.SCHEDULED;
+}
+
+// Tomorrow as a route day (UTC midnight, like the DATE columns it is compared with)
+function nextPlanningDate(): Date {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + 1);
+  date.setUTCHours(0, 0, 0, 0);
+  return date;
+}
+
+/**
+ * Apply the retry policy to one failed order
+ * Returns null when the order is not eligible (not failed, route still active, already flagged)
+ */
+export async function processFailedOrder(
+  orderId: string,
+  { addressCorrected = false }: { addressCorrected?: boolean } = {}
+): Promise<RedeliveryOutcome | null> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      routeStops: { where: { detachedAt: null }, include: { route: true } },
+    },
+  });
+
+  if (!order || order.status !== OrderStatus.FAILED) return null;
+
+  const stop = order.routeStops[0];
+  if (order.redeliveryStatus && FINAL_REDELIVERY_STATUSES.includes(order.redeliveryStatus)) return null;
+  if (stop && ACTIVE_ROUTE_STATUSES.includes(stop.route.status)) return null;
+
+  // Only attempts made on the current stop count towards this failure
+  const latestAttempt = await prisma.deliveryAttempt.findFirst({
+    where: {
+      orderId,
+      attemptedAt: stop ? { gte: stop.createdAt } : undefined,
+    },
+    orderBy: { attemptedAt: 'desc' },
+  });
+
+  const result: FailedAttemptResult =
+    latestAttempt && latestAttempt.result !== AttemptResult.SUCCESS
+      ? latestAttempt.result
+      : AttemptResult.FAILED_OTHER;
+
+  const redeliveryStatus = decideRedelivery(result, order.redeliveryCount, addressCorrected);
+
+  if (redeliveryStatus === RedeliveryStatus.SCHEDULED) {
+    // Detach the stop so the order can be assigned to a new route; the failed
+    // stop stays on its route as a record of the attempt
+    const [rescheduledOrder] = await prisma.$transaction([
+      prisma.order.update({
+        where: { id: orderId },
+        data: {
+          status: OrderStatus.PENDING,
+          redeliveryStatus,
+          redeliveryCount: { increment: 1 },
+          scheduledDate: nextPlanningDate(),
+        },
+      }),
+      ...(stop
+        ? [
+            prisma.routeStop.update({
+              where: { id: stop.id },
+              data: { detachedAt: new Date(), reason: stop.reason ?? latestAttempt?.reason ?? null },
+            }),
+          ]
+        : []),
+    ]);
+
+    emitEvent('order:updated', rescheduledOrder);
+  } else {
+    await prisma.order.update({
+      where: { id: orderId },
+      data: { redeliveryStatus },
+    });
+  }
+
+  return {
+    orderId,
+    orderNumber: order.orderNumber,
+    result,
+    redeliveryStatus,
+  };
+}
+
+async function processOrders(orderIds: string[]): Promise<RedeliveryOutcome[]> {
+  const outcomes: RedeliveryOutcome[] = [];
+
+  for (const orderId of orderIds) {
+    const outcome = await processFailedOrder(orderId);
+    if (outcome) outcomes.push(outcome);
+  }
+
+  return outcomes;
+}
+
+// Apply the retry policy to every failed order on a finished route
+export async function processFailedOrdersForRoute(routeId: string): Promise<RedeliveryOutcome[]> {
+  const stops = await prisma.routeStop.findMany({
+    where: { routeId, detachedAt: null, order: { status: OrderStatus.FAILED } },
+    select: { orderId: true },
+  });
+
+  return processOrders(stops.map((stop) => stop.orderId));
+}
+
+// Apply the retry policy to every failed order that is still waiting for a decision
+export async function processAllFailedOrders(): Promise<RedeliveryOutcome[]> {
+  const orders = await prisma.order.findMany({
+    where: {
+      status: OrderStatus.FAILED,
+      OR: [
+        { redeliveryStatus: null },
+        { redeliveryStatus: { notIn: FINAL_REDELIVERY_STATUSES } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  return processOrders(orders.map((order) => order.id));
+}
@@ -0,0 +1,137 @@
+// filepath: backend/src/utils/refreshToken.ts
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { User } from '@prisma/client';
+import prisma from '../config/database';
+import env from '../config/env';
+
+/**
+ * Refresh Tokens
+ * Opaque, long-lived tokens that are exchanged for new access tokens.
+ * Only a SHA-256 hash is stored. Every refresh rotates the token; a rotated
+ * token presented again means it leaked, so its whole family (every token
+ * descended from the same login) is revoked.
+ */
+
+export interface TokenContext {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface IssuedRefreshToken {
+  token: string;
+  expiresAt: Date;
+}
+
+export type RotationResult =
+  | { status: 'rotated'; user: User; refreshToken: IssuedRefreshToken }
+  | { status: 'invalid' } // Unknown, expired, or the user can no longer sign in
+  | { status: 'reused' };  // Already rotated: the family has been revoked
+
+// Two tabs refreshing at once both present the same token; the loser is
+// rejected without treating it as theft
+const ROTATION_GRACE_MS = 10 * 1000;
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+/**
+ * New refresh token; a new family unless continuing a rotation
+ */
+export async function issueRefreshToken(
+  userId: string,
+  context: TokenContext = {},
+  familyId: string = randomUUID()
+): Promise<IssuedRefreshToken & { id: string }> {
+  const token = randomBytes(48).toString('base64url');
+  const expiresAt = new Date(Date.now() + env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const stored = await prisma.refreshToken.create({
+    data: {
+      userId,
+      tokenHash: hashToken(token),
+      familyId,
+      expiresAt,
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+    },
+  });
+
+  return { id: stored.id, token, expiresAt };
+}
+
+/**
+ * Exchange a refresh token for a new one (the old one is revoked)
+ */
+export async function rotateRefreshToken(token: string, context: TokenContext = {}): Promise<RotationResult> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  if (!stored) return { status: 'invalid' };
+
+  const now = new Date();
+
+  if (stored.revokedAt) {
+    const recentlyRotated =
+      stored.replacedById !== null && now.getTime() - stored.revokedAt.getTime() < ROTATION_GRACE_MS;
+    if (recentlyRotated) return { status: 'invalid' };
+
+    await revokeFamily(stored.familyId);
+    return { status: 'reused' };
+  }
+
+  if (stored.expiresAt <= now || !stored.user.isActive || stored.user.deletedAt) {
+    return { status: 'invalid' };
+  }
+
+  // Claim the token; a concurrent refresh of the same token loses here
+  const claimed = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, revokedAt: null },
+    data: { revokedAt: now },
+  });
+
+  if (claimed.count === 0) return { status: 'invalid' };
+
+  const { id, ...refreshToken } = await issueRefreshToken(stored.userId, context, stored.familyId);
+
+  await prisma.refreshToken.update({
+    where: { id: stored.id },
+    data: { replacedById: id },
+  });
+
+  return { status: 'rotated', user: stored.user, refreshToken };
+}
+
+/**
+ * Revoke the family a refresh token belongs to (logout)
+ * Returns the user it belonged to, or null for unknown tokens
+ */
+export async function revokeRefreshToken(token: string): Promise<string | null> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!stored) return null;
+
+  await revokeFamily(stored.familyId);
+  return stored.userId;
+}
+
+/**
+ * Sign a user out everywhere (password change, deactivation, deletion)
+ */
+export async function revokeUserRefreshTokens(userId: string): Promise<number> {
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return count;
+}
+
+async function revokeFamily(familyId: string): Promise<void> {
+  await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
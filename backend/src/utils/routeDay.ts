@@ -0,0 +1,30 @@
+// filepath: backend/src/utils/routeDay.ts
+
+/**
+ * Route Days
+ * Routes are dated by calendar day (a DATE column, read back as UTC midnight).
+ * Dates from requests may carry a time of day, so lookups match the whole day.
+ */
+
+/**
+ * Parse a requested route day; null when missing or not a date
+ */
+export function parseRouteDay(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Prisma date filter for the UTC calendar day a date falls on
+ */
+export function routeDayRange(date: Date): { gte: Date; lt: Date } {
+  const start = new Date(date);
+  start.setUTCHours(0, 0, 0, 0);
+
+  const end = new Date(start);
+  end.setUTCDate(end.getUTCDate() + 1);
+
+  return { gte: start, lt: end };
+}
@@ -2,9 +2,19 @@
 
 /**
  * Route Optimization Utilities
- * Implements Nearest Neighbor algorithm for delivery route optimization
+ * Implements Nearest Neighbor algorithm for delivery route optimization,
+ * with a time-window-aware variant (VRPTW heuristic) and optional
+ * local search improvement (2-opt, Or-opt, simulated annealing).
+ * Routes may start (and optionally end) at a fixed depot.
+ * Distances and driving times come from a RouteMatrix: straight-line by
+ * default, or fetched from a routing server (see distanceProvider).
  */
 
+import { TimeWindow, formatMinutes } from './timeWindow';
+import { Priority } from '@prisma/client';
+import { SequenceCost, twoOpt, orOpt, simulatedAnnealing } from './localSearch';
+import { PriorityOptions, priorityPenalty } from './priority';
+
 // ==========================================
 // TYPES
 // ==========================================
@@ -15,13 +25,54 @@ export interface Location {
   address: string;      // Full address
   latitude: number;     // GPS latitude
   longitude: number;    // GPS longitude
+  timeWindow?: TimeWindow | null; // Delivery window, minutes since midnight
+  priority?: Priority;            // Pulls the stop forward (see priorityPolicy)
+}
+
+export interface RouteDepot {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  returnToDepot: boolean; // Fixed end back at the depot
 }
 
 export interface OptimizedRoute {
   sequence: string[];        // Order IDs in optimal sequence
-  totalDistance: number;     // Total distance in km
+  totalDistance: number;     // Total distance in km (including depot legs)
   estimatedDuration: number; // Total time in minutes
   algorithm: string;         // Algorithm used
+  schedule?: RouteSchedule;  // Arrival times (time-window runs)
+}
+
+// Hard: never choose a stop that would be late while an on-time one exists
+// Soft: lateness is allowed but penalized
+export type TimeWindowMode = 'hard' | 'soft';
+
+export const TIME_WINDOW_MODES: TimeWindowMode[] = ['hard', 'soft'];
+
+export interface StopSchedule {
+  id: string;
+  orderNumber: string;
+  arrivalTime: Date;    // Vehicle reaches the stop
+  serviceStart: Date;   // After waiting for the window to open
+  departureTime: Date;
+  waitMinutes: number;
+  lateMinutes: number;  // Service start past the window end
+  timeWindow: string | null;
+}
+
+export interface RouteSchedule {
+  startTime: Date;
+  endTime: Date;
+  stops: StopSchedule[];
+  totalWaitMinutes: number;
+  lateStops: StopSchedule[];
+}
+
+export interface TimeWindowOptions {
+  startTime: Date;         // When the vehicle leaves for the first stop
+  mode?: TimeWindowMode;
 }
 
 // ==========================================
@@ -90,6 +141,69 @@ export function calculateDistanceMatrix(locations: Location[]): number[][] {
   return matrix;
 }
 
+export interface DepotLegs {
+  start: number[];        // Depot → stop, km
+  end: number[];          // Stop → depot, km (0 when the route does not return)
+  startMinutes: number[]; // Driving time depot → stop
+  endMinutes: number[];   // Driving time stop → depot (0 when the route does not return)
+}
+
+/**
+ * Distances and driving times for one route
+ * Indexed like the route's locations; depot legs are null without a depot
+ * (the route starts at its first stop and ends at its last)
+ */
+export interface RouteMatrix {
+  distances: number[][]; // km between stops
+  minutes: number[][];   // Driving minutes between stops
+  depot: DepotLegs | null;
+  provider: string;      // Where the figures came from (see distanceProvider)
+}
+
+/**
+ * Straight-line route matrix at average urban speed
+ * Default when no road-network matrix was fetched
+ */
+export function calculateRouteMatrix(locations: Location[], depot?: RouteDepot | null): RouteMatrix {
+  const distances = calculateDistanceMatrix(locations);
+  const toMinutes = (row: number[]) => row.map(calculateTravelMinutes);
+
+  let depotLegs: DepotLegs | null = null;
+
+  if (depot) {
+    const start = locations.map((location) =>
+      calculateDistance(depot.latitude, depot.longitude, location.latitude, location.longitude)
+    );
+    const end = depot.returnToDepot ? start : locations.map(() => 0);
+
+    depotLegs = { start, end, startMinutes: toMinutes(start), endMinutes: toMinutes(end) };
+  }
+
+  return {
+    distances,
+    minutes: distances.map(toMinutes),
+    depot: depotLegs,
+    provider: 'haversine',
+  };
+}
+
+// Total of a leg matrix along a sequence, including depot legs when given
+function sequenceTotal(
+  sequence: number[],
+  legs: number[][],
+  start?: number[],
+  end?: number[]
+): number {
+  let total = 0;
+  for (let i = 0; i < sequence.length - 1; i++) {
+    total += legs[sequence[i]][sequence[i + 1]];
+  }
+  if (start && end && sequence.length > 0) {
+    total += start[sequence[0]] + end[sequence[sequence.length - 1]];
+  }
+  return total;
+}
+
 // ==========================================
 // OPTIMIZATION ALGORITHM
 // ==========================================
@@ -98,7 +212,9 @@ export function calculateDistanceMatrix(locations: Location[]): number[][] {
  * Optimize route using Nearest Neighbor algorithm
  */
 export function optimizeRouteNearestNeighbor(
-  locations: Location[]
+  locations: Location[],
+  depot?: RouteDepot | null,
+  matrix: RouteMatrix = calculateRouteMatrix(locations, depot)
 ): OptimizedRoute {
   // Handle edge cases
   if (locations.length === 0) {
@@ -110,7 +226,7 @@ export function optimizeRouteNearestNeighbor(
     };
   }
 
-  if (locations.length === 1) {
+  if (locations.length === 1 && !depot) {
     return {
       sequence: [locations[0].id],
       totalDistance: 0,
@@ -121,20 +237,24 @@ export function optimizeRouteNearestNeighbor(
 
   console.log(`🔄 Optimizing route with ${locations.length} stops...`);
 
-  // Calculate distance matrix
-  const distanceMatrix = calculateDistanceMatrix(locations);
+  const { distances: distanceMatrix, depot: depotLegs } = matrix;
   const n = locations.length;
 
   // Initialize tracking
   const visited = new Set<number>();
   const sequence: number[] = [];
-  let currentIndex = 0;
+  let currentIndex = -1;
   let totalDistance = 0;
 
-  // Visit first location
-  visited.add(0);
-  sequence.push(0);
-  console.log(`   Start: ${locations[0].orderNumber}`);
+  // Start at the depot, or visit the first location
+  if (depot) {
+    console.log(`   Start: 🏭 ${depot.name}`);
+  } else {
+    currentIndex = 0;
+    visited.add(0);
+    sequence.push(0);
+    console.log(`   Start: ${locations[0].orderNumber}`);
+  }
 
   // Visit remaining locations
   while (visited.size < n) {
@@ -144,7 +264,7 @@ export function optimizeRouteNearestNeighbor(
     // Find nearest unvisited location
     for (let i = 0; i < n; i++) {
       if (!visited.has(i)) {
-        const distance = distanceMatrix[currentIndex][i];
+        const distance = currentIndex === -1 ? depotLegs!.start[i] : distanceMatrix[currentIndex][i];
         if (distance < nearestDistance) {
           nearestIndex = i;
           nearestDistance = distance;
@@ -164,11 +284,20 @@ export function optimizeRouteNearestNeighbor(
     }
   }
 
+  // Drive back to the depot
+  if (depot?.returnToDepot) {
+    totalDistance += depotLegs!.end[currentIndex];
+    console.log(`   → 🏭 ${depot.name} (+${depotLegs!.end[currentIndex].toFixed(2)} km)`);
+  }
+
   // Convert indices to order IDs
   const optimizedSequence = sequence.map((index) => locations[index].id);
 
   // Calculate estimated duration
-  const estimatedDuration = calculateEstimatedDuration(totalDistance, n);
+  const estimatedDuration = calculateEstimatedDuration(
+    sequenceTotal(sequence, matrix.minutes, depotLegs?.startMinutes, depotLegs?.endMinutes),
+    n
+  );
 
   console.log(`✅ Optimization complete!`);
   console.log(`   Total distance: ${totalDistance.toFixed(2)} km`);
@@ -189,50 +318,444 @@ export function optimizeRouteNearestNeighbor(
 /**
  * Calculate estimated delivery duration
  * 
- * Formula: (distance / speed) × 60 + (stops × service_time)
+ * Formula: travel_time + (stops × service_time)
  * 
  * Assumptions:
- * - Average speed: 40 km/h (urban with traffic)
+ * - Average speed: 40 km/h (urban with traffic) when the distance
+ *   provider has no driving times of its own
  * - Service time: 5 minutes per stop
  */
+export const AVG_SPEED_KMH = 40;
+const SERVICE_TIME_MIN = 5;
+
 function calculateEstimatedDuration(
-  totalDistance: number,
+  travelTime: number,
   numStops: number
 ): number {
-  const AVG_SPEED_KMH = 40;
-  const SERVICE_TIME_MIN = 5;
-
-  const travelTime = (totalDistance / AVG_SPEED_KMH) * 60;
   const serviceTime = numStops * SERVICE_TIME_MIN;
 
   return Math.round(travelTime + serviceTime);
 }
 
+/**
+ * Driving time in minutes for a distance at average urban speed
+ */
+export function calculateTravelMinutes(distanceKm: number): number {
+  return (distanceKm / AVG_SPEED_KMH) * 60;
+}
+
 /**
  * Calculate total distance for a given sequence
  */
 export function calculateRouteDistance(
   locations: Location[],
-  sequence: string[]
+  sequence: string[],
+  depot?: RouteDepot | null,
+  matrix: RouteMatrix = calculateRouteMatrix(locations, depot)
 ): number {
-  if (sequence.length <= 1) return 0;
+  const indexById = new Map(locations.map((loc, index) => [loc.id, index]));
+  const indices = sequence
+    .map((id) => indexById.get(id))
+    .filter((index): index is number => index !== undefined);
+
+  const totalDistance = sequenceTotal(indices, matrix.distances, matrix.depot?.start, matrix.depot?.end);
+
+  return Math.round(totalDistance * 100) / 100;
+}
+
+// ==========================================
+// TIME WINDOWS
+// ==========================================
+
+// Minutes of travel one minute of lateness is worth in soft mode
+export const LATE_PENALTY_WEIGHT = 10;
+
+function minutesSinceMidnight(date: Date): number {
+  const midnight = new Date(date);
+  midnight.setHours(0, 0, 0, 0);
+  return (date.getTime() - midnight.getTime()) / 60000;
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+/**
+ * Arrival, waiting and lateness at a stop reached at `arrival` (minutes since midnight)
+ */
+function evaluateArrival(location: Location, arrival: number) {
+  const window = location.timeWindow;
+  const serviceStart = window ? Math.max(arrival, window.start) : arrival;
+
+  return {
+    serviceStart,
+    wait: serviceStart - arrival,
+    late: window ? Math.max(0, serviceStart - window.end) : 0,
+  };
+}
+
+/**
+ * Walk a sequence and compute arrival times, waiting and lateness
+ * With a depot, the clock starts when leaving it and ends on return
+ */
+export function buildSchedule(
+  locations: Location[],
+  sequence: string[],
+  startTime: Date,
+  depot?: RouteDepot | null,
+  matrix: RouteMatrix = calculateRouteMatrix(locations, depot)
+): RouteSchedule {
+  const indexById = new Map(locations.map((loc, index) => [loc.id, index]));
+  const depotLegs = matrix.depot;
+  const dayOffset = minutesSinceMidnight(startTime);
+
+  const stops: StopSchedule[] = [];
+  let clock = dayOffset;
+  let previous = -1;
+
+  for (const id of sequence) {
+    const index = indexById.get(id);
+    if (index === undefined) continue;
+
+    const location = locations[index];
+    const travel =
+      previous === -1 ? depotLegs?.startMinutes[index] ?? 0 : matrix.minutes[previous][index];
+    const arrival = clock + travel;
+    const { serviceStart, wait, late } = evaluateArrival(location, arrival);
+    const departure = serviceStart + SERVICE_TIME_MIN;
+
+    stops.push({
+      id,
+      orderNumber: location.orderNumber,
+      arrivalTime: addMinutes(startTime, arrival - dayOffset),
+      serviceStart: addMinutes(startTime, serviceStart - dayOffset),
+      departureTime: addMinutes(startTime, departure - dayOffset),
+      waitMinutes: Math.round(wait),
+      lateMinutes: Math.round(late),
+      timeWindow: location.timeWindow
+        ? `${formatMinutes(location.timeWindow.start)}-${formatMinutes(location.timeWindow.end)}`
+        : null,
+    });
+
+    clock = departure;
+    previous = index;
+  }
+
+  if (depotLegs && previous !== -1) {
+    clock += depotLegs.endMinutes[previous];
+  }
+
+  return {
+    startTime,
+    endTime: addMinutes(startTime, clock - dayOffset),
+    stops,
+    totalWaitMinutes: stops.reduce((sum, stop) => sum + stop.waitMinutes, 0),
+    lateStops: stops.filter((stop) => stop.lateMinutes > 0),
+  };
+}
+
+/**
+ * Optimize route with delivery time windows
+ *
+ * Time-aware nearest neighbor: from the current stop and clock, pick the stop
+ * with the earliest service start (travel + waiting). Hard mode only considers
+ * stops that can still be reached on time, falling back to the least-late one;
+ * soft mode adds a lateness penalty instead. Ties go to the earlier window end.
+ */
+export function optimizeRouteWithTimeWindows(
+  locations: Location[],
+  { startTime, mode = 'soft' }: TimeWindowOptions,
+  depot?: RouteDepot | null,
+  matrix: RouteMatrix = calculateRouteMatrix(locations, depot)
+): OptimizedRoute {
+  const algorithm = `nearest_neighbor_tw_${mode}`;
+
+  if (locations.length === 0) {
+    return {
+      sequence: [],
+      totalDistance: 0,
+      estimatedDuration: 0,
+      algorithm,
+      schedule: buildSchedule(locations, [], startTime, depot, matrix),
+    };
+  }
+
+  console.log(`🔄 Optimizing route with ${locations.length} stops (time windows, ${mode})...`);
+
+  const { distances: distanceMatrix, minutes, depot: depotLegs } = matrix;
+  const n = locations.length;
+
+  // Distance to stop i from the current stop (or the depot / nowhere before the first)
+  const legDistance = (from: number, i: number): number =>
+    from === -1 ? depotLegs?.start[i] ?? 0 : distanceMatrix[from][i];
 
+  // Driving minutes for the same leg
+  const legMinutes = (from: number, i: number): number =>
+    from === -1 ? depotLegs?.startMinutes[i] ?? 0 : minutes[from][i];
+
+  const visited = new Set<number>();
+  const sequence: number[] = [];
+  let clock = minutesSinceMidnight(startTime);
+  let currentIndex = -1;
   let totalDistance = 0;
-  const locationMap = new Map(locations.map((loc) => [loc.id, loc]));
 
-  for (let i = 0; i < sequence.length - 1; i++) {
-    const loc1 = locationMap.get(sequence[i]);
-    const loc2 = locationMap.get(sequence[i + 1]);
-
-    if (loc1 && loc2) {
-      totalDistance += calculateDistance(
-        loc1.latitude,
-        loc1.longitude,
-        loc2.latitude,
-        loc2.longitude
-      );
+  while (visited.size < n) {
+    let bestIndex = -1;
+    let bestScore = Infinity;
+    let bestWindowEnd = Infinity;
+    let bestIsOnTime = false;
+
+    for (let i = 0; i < n; i++) {
+      if (visited.has(i)) continue;
+
+      const travel = legMinutes(currentIndex, i);
+      const { serviceStart, late } = evaluateArrival(locations[i], clock + travel);
+      const isOnTime = late === 0;
+      const windowEnd = locations[i].timeWindow?.end ?? Infinity;
+
+      let score = serviceStart - clock;
+      if (mode === 'soft') score += late * LATE_PENALTY_WEIGHT;
+      if (mode === 'hard' && !isOnTime) score = late;
+
+      // Hard mode: any on-time stop beats every late one
+      const better =
+        mode === 'hard' && isOnTime !== bestIsOnTime
+          ? isOnTime
+          : score < bestScore || (score === bestScore && windowEnd < bestWindowEnd);
+
+      if (bestIndex === -1 || better) {
+        bestIndex = i;
+        bestScore = score;
+        bestWindowEnd = windowEnd;
+        bestIsOnTime = isOnTime;
+      }
     }
+
+    const { serviceStart, late } = evaluateArrival(
+      locations[bestIndex],
+      clock + legMinutes(currentIndex, bestIndex)
+    );
+
+    visited.add(bestIndex);
+    sequence.push(bestIndex);
+    totalDistance += legDistance(currentIndex, bestIndex);
+    clock = serviceStart + SERVICE_TIME_MIN;
+    currentIndex = bestIndex;
+
+    console.log(
+      `   → ${locations[bestIndex].orderNumber} at ${formatMinutes(serviceStart)}` +
+        (late > 0 ? ` (⚠️  ${Math.round(late)} min late)` : '')
+    );
   }
 
-  return Math.round(totalDistance * 100) / 100;
-}
\ No newline at end of file
+  if (depotLegs) totalDistance += depotLegs.end[currentIndex];
+
+  const optimizedSequence = sequence.map((index) => locations[index].id);
+  const schedule = buildSchedule(locations, optimizedSequence, startTime, depot, matrix);
+  const estimatedDuration = Math.round((schedule.endTime.getTime() - startTime.getTime()) / 60000);
+
+  console.log(`✅ Optimization complete!`);
+  console.log(`   Total distance: ${totalDistance.toFixed(2)} km`);
+  console.log(`   Estimated time: ${estimatedDuration} minutes (${schedule.totalWaitMinutes} waiting)`);
+  console.log(`   Late stops: ${schedule.lateStops.length}`);
+
+  return {
+    sequence: optimizedSequence,
+    totalDistance: Math.round(totalDistance * 100) / 100,
+    estimatedDuration,
+    algorithm,
+    schedule,
+  };
+}
+
+// ==========================================
+// LOCAL SEARCH IMPROVEMENT
+// ==========================================
+
+export type OptimizationAlgorithm =
+  | 'nearest_neighbor'
+  | 'two_opt'
+  | 'or_opt'
+  | 'two_opt_or_opt'
+  | 'simulated_annealing';
+
+export const OPTIMIZATION_ALGORITHMS: OptimizationAlgorithm[] = [
+  'nearest_neighbor',
+  'two_opt',
+  'or_opt',
+  'two_opt_or_opt',
+  'simulated_annealing',
+];
+
+export interface ImprovementOptions {
+  algorithm: OptimizationAlgorithm;
+  timeBudgetMs?: number;           // Wall-clock cap for the search
+  timeWindows?: TimeWindowOptions; // Keep schedules feasible while improving
+  depot?: RouteDepot | null;       // Fixed start / end
+  priorities?: PriorityOptions;    // Penalize high-priority stops served late
+  matrix?: RouteMatrix;            // Provider distances and driving times
+}
+
+export const DEFAULT_SEARCH_BUDGET_MS = 2000;
+
+// Hard mode: lateness must never pay off against distance
+const HARD_LATE_PENALTY_WEIGHT = 1000;
+
+// Share of the budget annealing gets before the final 2-opt / Or-opt polish
+const ANNEALING_BUDGET_SHARE = 0.8;
+
+/**
+ * Cost of a visiting order (indices into locations)
+ * Plain distance, or travel minutes plus weighted window lateness and
+ * priority penalties when either applies
+ */
+function createSequenceCost(
+  locations: Location[],
+  matrix: RouteMatrix,
+  timeWindows?: TimeWindowOptions,
+  priorities?: PriorityOptions
+): SequenceCost {
+  const depotLegs = matrix.depot;
+
+  if (!timeWindows && !priorities) {
+    return (sequence) => sequenceTotal(sequence, matrix.distances, depotLegs?.start, depotLegs?.end);
+  }
+
+  const lateWeight = timeWindows?.mode === 'hard' ? HARD_LATE_PENALTY_WEIGHT : LATE_PENALTY_WEIGHT;
+  const dayOffset = minutesSinceMidnight(timeWindows ? timeWindows.startTime : priorities!.startTime);
+
+  return (sequence) => {
+    let clock = dayOffset;
+    let total = 0;
+
+    sequence.forEach((index, position) => {
+      const travel =
+        position === 0 ? depotLegs?.startMinutes[index] ?? 0 : matrix.minutes[sequence[position - 1]][index];
+      const { serviceStart, late } = timeWindows
+        ? evaluateArrival(locations[index], clock + travel)
+        : { serviceStart: clock + travel, late: 0 };
+
+      total += travel + late * lateWeight;
+      if (priorities) total += priorityPenalty(locations[index], position + 1, serviceStart, priorities);
+      clock = serviceStart + SERVICE_TIME_MIN;
+    });
+
+    if (depotLegs && sequence.length > 0) {
+      total += depotLegs.endMinutes[sequence[sequence.length - 1]];
+    }
+
+    return total;
+  };
+}
+
+/**
+ * Improve a constructed route with local search
+ * The construction (nearest neighbor, with or without time windows) is the
+ * starting point; the result is never worse than it under the same cost.
+ * Plain nearest neighbor only gets an Or-opt repair when high-priority stops
+ * missed their targets.
+ */
+export function improveRoute(
+  locations: Location[],
+  initial: OptimizedRoute,
+  {
+    algorithm,
+    timeBudgetMs = DEFAULT_SEARCH_BUDGET_MS,
+    timeWindows,
+    depot,
+    priorities,
+    matrix = calculateRouteMatrix(locations, depot),
+  }: ImprovementOptions
+): OptimizedRoute {
+  if (initial.sequence.length < 2) return initial;
+
+  const indexById = new Map(locations.map((loc, index) => [loc.id, index]));
+  const distanceCost = createSequenceCost(locations, matrix);
+  const cost =
+    timeWindows || priorities
+      ? createSequenceCost(locations, matrix, timeWindows, priorities)
+      : distanceCost;
+
+  let sequence = initial.sequence.map((id) => indexById.get(id)!);
+  let step: string = algorithm;
+
+  if (algorithm === 'nearest_neighbor') {
+    const withoutPriorities = createSequenceCost(
+      locations,
+      matrix,
+      timeWindows,
+      priorities && { ...priorities, weight: 0 }
+    );
+
+    if (!priorities || cost(sequence) <= withoutPriorities(sequence)) return initial;
+
+    step = 'priority_repair';
+  }
+
+  console.log(`🔁 Improving route with ${step} (budget ${timeBudgetMs} ms)...`);
+
+  const startedAt = Date.now();
+  const deadline = startedAt + timeBudgetMs;
+
+  switch (algorithm) {
+    case 'nearest_neighbor':
+      sequence = orOpt(sequence, cost, deadline);
+      break;
+    case 'two_opt':
+      sequence = twoOpt(sequence, cost, deadline);
+      break;
+    case 'or_opt':
+      sequence = orOpt(sequence, cost, deadline);
+      break;
+    case 'two_opt_or_opt':
+      sequence = polish(sequence, cost, deadline);
+      break;
+    case 'simulated_annealing':
+      sequence = simulatedAnnealing(sequence, cost, startedAt + timeBudgetMs * ANNEALING_BUDGET_SHARE);
+      sequence = polish(sequence, cost, deadline);
+      break;
+  }
+
+  const optimizedSequence = sequence.map((index) => locations[index].id);
+  const totalDistance = distanceCost(sequence);
+
+  let estimatedDuration = calculateEstimatedDuration(
+    sequenceTotal(sequence, matrix.minutes, matrix.depot?.startMinutes, matrix.depot?.endMinutes),
+    sequence.length
+  );
+  let schedule: RouteSchedule | undefined;
+
+  if (timeWindows) {
+    schedule = buildSchedule(locations, optimizedSequence, timeWindows.startTime, depot, matrix);
+    estimatedDuration = Math.round((schedule.endTime.getTime() - timeWindows.startTime.getTime()) / 60000);
+  }
+
+  console.log(`✅ Improvement complete in ${Date.now() - startedAt} ms`);
+  console.log(`   Total distance: ${initial.totalDistance.toFixed(2)} → ${totalDistance.toFixed(2)} km`);
+
+  return {
+    sequence: optimizedSequence,
+    totalDistance: Math.round(totalDistance * 100) / 100,
+    estimatedDuration,
+    algorithm: `${initial.algorithm}+${step}`,
+    schedule,
+  };
+}
+
+// Alternate 2-opt and Or-opt until neither finds an improvement
+function polish(sequence: number[], cost: SequenceCost, deadline: number): number[] {
+  let current = sequence;
+  let currentCost = cost(current);
+
+  while (Date.now() < deadline) {
+    const next = orOpt(twoOpt(current, cost, deadline), cost, deadline);
+    const nextCost = cost(next);
+
+    if (nextCost >= currentCost) break;
+
+    current = next;
+    currentCost = nextCost;
+  }
+
+  return current;
+}
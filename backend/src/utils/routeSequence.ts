@@ -0,0 +1,276 @@
+// filepath: backend/src/utils/routeSequence.ts
+import { Driver, Order, Prisma, RouteStatus, StopStatus } from '@prisma/client';
+import prisma from '../config/database';
+import {
+  Location,
+  RouteDepot,
+  RouteMatrix,
+  RouteSchedule,
+  buildSchedule,
+  calculateRouteDistance,
+} from './routeOptimizer';
+import { parseTimeWindow } from './timeWindow';
+import { DepotRecord, getScheduleStart, toRouteDepot } from './depot';
+import { Coordinates, getRouteMatrix } from './distanceProvider';
+
+/**
+ * Route Sequence Metrics
+ * Distance, duration and ETAs for a stop order chosen outside the optimizer
+ * (manual resequencing, stops moved between routes, best insertion).
+ * Stops the driver has started or finished stay in place. On an in-progress
+ * route the remaining stops are timed from the driver's current position at
+ * the current time.
+ */
+
+export interface SequenceMetrics {
+  totalDistance: number;     // km, including depot legs
+  estimatedDuration: number; // minutes, depot departure to last stop (or return)
+  schedule: RouteSchedule;
+  distanceProvider: string;
+  estimatedTimes: Map<string, Date>; // Order ID → service start
+}
+
+export interface SequencedRoute {
+  date: Date;
+  startTime: Date | null;
+  depot: DepotRecord | null;
+  returnToDepot: boolean;
+}
+
+export interface TimedRoute extends SequencedRoute {
+  status: RouteStatus;
+  driver: Pick<Driver, 'lastLatitude' | 'lastLongitude' | 'lastLocationAt'>;
+}
+
+export interface SequencedStop {
+  id?: string; // Missing for stops still to be created
+  status: StopStatus;
+  orderId: string;
+  order: Order;
+}
+
+// Where and when the stops still to drive start
+export interface RemainingStart {
+  startTime: Date;
+  origin: Coordinates | null; // null: the depot
+}
+
+// A GPS fix older than this no longer says where the driver is
+const DRIVER_POSITION_MAX_AGE_MIN = 15;
+
+// The driver is heading to (or standing at) these stops, so the rest starts there
+const CURRENT_STOP_STATUSES: StopStatus[] = [StopStatus.EN_ROUTE, StopStatus.ARRIVED];
+
+export const hasCoordinates = (order: Order): boolean => order.latitude !== null && order.longitude !== null;
+
+const toCoordinates = (order: Order): Coordinates => ({
+  latitude: Number(order.latitude),
+  longitude: Number(order.longitude),
+});
+
+/**
+ * Optimizer input for an order (coordinates required)
+ */
+export const toLocation = (order: Order): Location => ({
+  id: order.id,
+  orderNumber: order.orderNumber,
+  address: order.address,
+  latitude: Number(order.latitude),
+  longitude: Number(order.longitude),
+  timeWindow: parseTimeWindow(order.timeWindow),
+  priority: order.priority,
+});
+
+/**
+ * Stops at the start of the sequence that keep their place
+ * (everything up to the last stop that is no longer pending)
+ */
+export function lockedStopCount(stops: { status: StopStatus }[]): number {
+  let count = 0;
+  stops.forEach((stop, index) => {
+    if (stop.status !== StopStatus.PENDING) count = index + 1;
+  });
+  return count;
+}
+
+// Where the driver continues from on an in-progress route (null: the depot)
+function currentPosition(route: TimedRoute, locked: SequencedStop[]): Coordinates | null {
+  const last = locked[locked.length - 1];
+  if (last && CURRENT_STOP_STATUSES.includes(last.status) && hasCoordinates(last.order)) {
+    return toCoordinates(last.order);
+  }
+
+  const { lastLatitude, lastLongitude, lastLocationAt } = route.driver;
+  const fresh = lastLocationAt && Date.now() - lastLocationAt.getTime() <= DRIVER_POSITION_MAX_AGE_MIN * 60000;
+  if (fresh && lastLatitude !== null && lastLongitude !== null) {
+    return { latitude: Number(lastLatitude), longitude: Number(lastLongitude) };
+  }
+
+  const lastLocated = [...locked].reverse().find((stop) => hasCoordinates(stop.order));
+  return lastLocated ? toCoordinates(lastLocated.order) : null;
+}
+
+/**
+ * Start of the remaining stops: the scheduled start at the depot, or on an
+ * in-progress route now, from the driver's current position
+ */
+export function remainingStart(route: TimedRoute, locked: SequencedStop[]): RemainingStart {
+  if (route.status !== RouteStatus.IN_PROGRESS) {
+    return { startTime: getScheduleStart(route), origin: null };
+  }
+
+  return { startTime: new Date(), origin: currentPosition(route, locked) };
+}
+
+/**
+ * Route matrix whose start legs leave from `origin` instead of the depot
+ */
+export async function remainingMatrix(
+  locations: Location[],
+  depot: RouteDepot | null,
+  origin: Coordinates | null
+): Promise<RouteMatrix> {
+  const matrix = await getRouteMatrix(locations, depot);
+  if (!origin) return matrix;
+
+  const fromOrigin = await getRouteMatrix(locations, {
+    id: 'current-position',
+    name: 'Current position',
+    ...origin,
+    returnToDepot: false,
+  });
+  const startLegs = fromOrigin.depot!;
+
+  return {
+    ...matrix,
+    depot: {
+      start: startLegs.start,
+      startMinutes: startLegs.startMinutes,
+      end: matrix.depot?.end ?? startLegs.end,
+      endMinutes: matrix.depot?.endMinutes ?? startLegs.endMinutes,
+    },
+  };
+}
+
+/**
+ * Measure a route driven in the given order
+ * Orders without coordinates keep their place but add no distance
+ */
+export async function measureSequence(route: SequencedRoute, orders: Order[]): Promise<SequenceMetrics> {
+  const locations = orders.filter(hasCoordinates).map(toLocation);
+  const sequence = locations.map((location) => location.id);
+  const startTime = getScheduleStart(route);
+
+  if (locations.length === 0) {
+    return {
+      totalDistance: 0,
+      estimatedDuration: 0,
+      schedule: { startTime, endTime: startTime, stops: [], totalWaitMinutes: 0, lateStops: [] },
+      distanceProvider: 'none',
+      estimatedTimes: new Map(),
+    };
+  }
+
+  const depot = toRouteDepot(route.depot, route.returnToDepot);
+  const matrix = await getRouteMatrix(locations, depot);
+  const schedule = buildSchedule(locations, sequence, startTime, depot, matrix);
+
+  return {
+    totalDistance: calculateRouteDistance(locations, sequence, depot, matrix),
+    estimatedDuration: Math.round((schedule.endTime.getTime() - schedule.startTime.getTime()) / 60000),
+    schedule,
+    distanceProvider: matrix.provider,
+    estimatedTimes: new Map(schedule.stops.map((stop) => [stop.id, stop.serviceStart])),
+  };
+}
+
+/**
+ * Measure a stop list the way the route will be driven from here
+ * Totals cover the whole route. On an in-progress route only the remaining
+ * stops get ETAs (and late stops), timed the same way best insertion scores them.
+ */
+export async function measureStops(route: TimedRoute, stops: SequencedStop[]): Promise<SequenceMetrics> {
+  const metrics = await measureSequence(
+    route,
+    stops.map((stop) => stop.order)
+  );
+  if (route.status !== RouteStatus.IN_PROGRESS) return metrics;
+
+  const locked = stops.slice(0, lockedStopCount(stops));
+  const locations = stops.slice(locked.length).map((stop) => stop.order).filter(hasCoordinates).map(toLocation);
+  if (locations.length === 0) return { ...metrics, estimatedTimes: new Map() };
+
+  const { startTime, origin } = remainingStart(route, locked);
+  const matrix = await remainingMatrix(locations, toRouteDepot(route.depot, route.returnToDepot), origin);
+  const schedule = buildSchedule(
+    locations,
+    locations.map((location) => location.id),
+    startTime,
+    null,
+    matrix
+  );
+
+  return {
+    ...metrics,
+    schedule,
+    estimatedTimes: new Map(schedule.stops.map((stop) => [stop.id, stop.serviceStart])),
+  };
+}
+
+// Writes that give a route this stop list, with measured ETAs and totals
+function sequenceWrites(
+  client: Prisma.TransactionClient,
+  route: TimedRoute & { id: string },
+  stops: SequencedStop[],
+  { totalDistance, estimatedDuration, estimatedTimes }: SequenceMetrics,
+  userId?: string
+): Prisma.PrismaPromise<unknown>[] {
+  const locked = route.status === RouteStatus.IN_PROGRESS ? lockedStopCount(stops) : 0;
+
+  return [
+    ...stops.map((stop, index) => {
+      const data = {
+        routeId: route.id,
+        sequence: index + 1,
+        ...(index >= locked && { estimatedTime: estimatedTimes.get(stop.orderId) ?? null }),
+      };
+
+      return stop.id
+        ? client.routeStop.update({ where: { id: stop.id }, data })
+        : client.routeStop.create({ data: { ...data, orderId: stop.orderId, status: stop.status } });
+    }),
+    client.route.update({
+      where: { id: route.id },
+      data: { totalDistance, estimatedDuration, lastUpdatedBy: userId },
+    }),
+  ];
+}
+
+/**
+ * Writes that give a route this stop list, numbered from 1 with fresh ETAs and totals
+ * Stops may come from another route (they are moved onto this one) or be new
+ * (they are created). Stops already under way or done keep their ETAs.
+ */
+export async function sequenceOperations(
+  route: TimedRoute & { id: string },
+  stops: SequencedStop[],
+  userId?: string
+): Promise<Prisma.PrismaPromise<unknown>[]> {
+  return sequenceWrites(prisma, route, stops, await measureStops(route, stops), userId);
+}
+
+/**
+ * The same writes for an interactive transaction. The route is measured now,
+ * so no distance lookups run while the transaction is open.
+ */
+export async function prepareSequence(
+  route: TimedRoute & { id: string },
+  stops: SequencedStop[],
+  userId?: string
+): Promise<(tx: Prisma.TransactionClient) => Promise<void>> {
+  const metrics = await measureStops(route, stops);
+
+  return async (tx) => {
+    for (const write of sequenceWrites(tx, route, stops, metrics, userId)) await write;
+  };
+}
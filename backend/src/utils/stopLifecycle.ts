@@ -0,0 +1,68 @@
+// filepath: backend/src/utils/stopLifecycle.ts
+import { OrderStatus, StopStatus } from '@prisma/client';
+
+/**
+ * Route Stop Lifecycle
+ * Legal stop transitions and the order status each stop status implies
+ *
+ * PENDING → EN_ROUTE → ARRIVED → DELIVERED
+ *    ↓         ↓          ↓
+ * SKIPPED   FAILED/    FAILED
+ *           SKIPPED
+ */
+
+export const STOP_TRANSITIONS: Record<StopStatus, StopStatus[]> = {
+  PENDING: [StopStatus.EN_ROUTE, StopStatus.SKIPPED],
+  EN_ROUTE: [StopStatus.ARRIVED, StopStatus.FAILED, StopStatus.SKIPPED],
+  ARRIVED: [StopStatus.DELIVERED, StopStatus.FAILED],
+  DELIVERED: [],
+  FAILED: [],
+  SKIPPED: [],
+};
+
+// Stops in these statuses need a reason recorded
+export const REASON_REQUIRED_STATUSES: StopStatus[] = [StopStatus.FAILED, StopStatus.SKIPPED];
+
+export function canTransitionStop(from: StopStatus, to: StopStatus): boolean {
+  return STOP_TRANSITIONS[from].includes(to);
+}
+
+export function isTerminalStopStatus(status: StopStatus): boolean {
+  return STOP_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Status an unfinished stop is closed with when its route ends
+ * Stops the driver never reached are SKIPPED; one they arrived at FAILED
+ */
+export function closingStopStatus(status: StopStatus): StopStatus {
+  return canTransitionStop(status, StopStatus.SKIPPED) ? StopStatus.SKIPPED : StopStatus.FAILED;
+}
+
+/**
+ * Order status implied by a stop status
+ * A skipped stop was not delivered on this route, so the order is failed too
+ */
+export function orderStatusForStop(status: StopStatus): OrderStatus {
+  switch (status) {
+    case StopStatus.PENDING:
+      return OrderStatus.ASSIGNED;
+    case StopStatus.EN_ROUTE:
+    case StopStatus.ARRIVED:
+      return OrderStatus.IN_TRANSIT;
+    case StopStatus.DELIVERED:
+      return OrderStatus.DELIVERED;
+    case StopStatus.FAILED:
+    case StopStatus.SKIPPED:
+      return OrderStatus.FAILED;
+  }
+}
+
+/**
+ * Whether a transition into this status should stamp actualTime
+ * Arrival stamps it; terminal statuses stamp it only if the stop never arrived
+ */
+export function shouldStampActualTime(status: StopStatus, currentActualTime: Date | null): boolean {
+  if (status === StopStatus.ARRIVED) return true;
+  return isTerminalStopStatus(status) && currentActualTime === null;
+}
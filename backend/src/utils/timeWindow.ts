@@ -0,0 +1,66 @@
+// filepath: backend/src/utils/timeWindow.ts
+
+/**
+ * Delivery Time Windows
+ * Orders store windows as free text ("09:00-12:00"); the optimizer works in
+ * minutes since midnight of the route day
+ */
+
+export interface TimeWindow {
+  start: number; // Minutes since midnight
+  end: number;   // Minutes since midnight
+}
+
+const TIME_WINDOW_PATTERN = /^\s*(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s*$/;
+
+/**
+ * Parse "HH:MM-HH:MM" into a time window
+ * Returns null for empty or malformed values so callers can treat them as "any time"
+ */
+export function parseTimeWindow(value: string | null | undefined): TimeWindow | null {
+  if (!value) return null;
+
+  const match = TIME_WINDOW_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [, startHour, startMinute, endHour, endMinute] = match.map(Number);
+
+  if (startHour > 23 || endHour > 24 || startMinute > 59 || endMinute > 59) return null;
+
+  const start = startHour * 60 + startMinute;
+  const end = endHour * 60 + endMinute;
+
+  if (end <= start) return null;
+
+  return { start, end };
+}
+
+const TIME_OF_DAY_PATTERN = /^\s*(\d{1,2}):(\d{2})\s*$/;
+
+/**
+ * Parse "HH:MM" into minutes since midnight (null when malformed)
+ */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const match = TIME_OF_DAY_PATTERN.exec(value);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+export function formatMinutes(minutes: number): string {
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60) % 24;
+  const mins = total % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+export function isValidTimeWindow(value: string): boolean {
+  return parseTimeWindow(value) !== null;
+}
@@ -0,0 +1,109 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Prisma, RouteStatus, StopStatus, VehicleType } from '@prisma/client';
+import { assignOrdersToRoute } from '../../src/controllers/routeController';
+import { HaversineProvider, setDistanceProvider } from '../../src/utils/distanceProvider';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+const db = vi.hoisted(() => ({
+  route: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn() },
+  routeStop: { create: vi.fn(), update: vi.fn() },
+  order: { findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+}));
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+vi.mock('../../src/config/socket', () => ({ emitEvent: vi.fn() }));
+vi.mock('../../src/utils/audit', () => ({ recordAudit: vi.fn() }));
+
+const uniqueViolation = () =>
+  new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`orderId`)', {
+    code: 'P2002',
+    clientVersion: 'test',
+  });
+
+const order = (key: string, step: number) => ({
+  id: `order-${key}`,
+  orderNumber: `ORD-${key.toUpperCase()}`,
+  address: `${key} Main St`,
+  latitude: new Prisma.Decimal(52 + step * 0.01),
+  longitude: new Prisma.Decimal(4.9),
+  timeWindow: null,
+  priority: 'NORMAL',
+  weightKg: null,
+  lengthCm: null,
+  widthCm: null,
+  heightCm: null,
+  parcelCount: 1,
+  routeStops: [],
+});
+
+const route = {
+  id: 'route-1',
+  routeNumber: 'RT-1',
+  status: RouteStatus.PENDING,
+  date: new Date('2026-10-20T00:00:00Z'),
+  startTime: null,
+  depot: null,
+  returnToDepot: false,
+  driver: {
+    vehicleType: VehicleType.VAN,
+    capacityWeightKg: null,
+    capacityVolumeM3: null,
+    capacityParcels: null,
+    lastLatitude: null,
+    lastLongitude: null,
+    lastLocationAt: null,
+  },
+  stops: [{ id: 'stop-a', orderId: 'order-a', sequence: 1, status: StopStatus.PENDING, order: order('a', 0) }],
+};
+
+const assign = async (body: object) => {
+  const res = mockResponse();
+  await assignOrdersToRoute(mockRequest({ params: { id: 'route-1' }, body }), res);
+  return res;
+};
+
+beforeAll(() => {
+  setDistanceProvider(new HaversineProvider());
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.route.findUnique.mockResolvedValue(route);
+  db.route.findUniqueOrThrow.mockResolvedValue(route);
+  db.order.findMany.mockResolvedValue([order('b', 1)]);
+  db.order.findUnique.mockResolvedValue(order('b', 1));
+  db.order.update.mockResolvedValue(order('b', 1));
+});
+
+describe('assignOrdersToRoute', () => {
+  it('appends the stop and assigns the order', async () => {
+    const res = await assign({ orderIds: ['order-b'] });
+
+    expect(res.body.results).toEqual({ success: 1, failed: 0, errors: [] });
+    expect(db.routeStop.create).toHaveBeenCalledWith({
+      data: { routeId: 'route-1', orderId: 'order-b', sequence: 2, status: 'PENDING' },
+    });
+  });
+
+  it('reports an order that got a stop in a concurrent request', async () => {
+    db.routeStop.create.mockRejectedValue(uniqueViolation());
+
+    const res = await assign({ orderIds: ['order-b'] });
+
+    expect(res.body.results).toEqual({
+      success: 0,
+      failed: 1,
+      errors: [{ orderId: 'order-b', error: 'Order already assigned to a route' }],
+    });
+    expect(db.order.update).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when a best insertion loses to a concurrent assignment', async () => {
+    db.$transaction.mockRejectedValueOnce(uniqueViolation());
+
+    const res = await assign({ orderIds: ['order-b'], insertion: 'best' });
+
+    expect(res.statusCode).toBe(409);
+  });
+});
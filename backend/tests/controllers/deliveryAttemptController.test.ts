@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AttemptResult } from '@prisma/client';
+import { recordDeliveryAttempt } from '../../src/controllers/deliveryAttemptController';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+const db = vi.hoisted(() => ({
+  order: { findUnique: vi.fn() },
+  deliveryAttempt: { create: vi.fn() },
+}));
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+vi.mock('../../src/utils/audit', () => ({ recordAudit: vi.fn() }));
+
+const record = async (body: object) => {
+  const res = mockResponse();
+  await recordDeliveryAttempt(mockRequest({ params: { id: 'order-1' }, body }), res);
+  return res;
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.order.findUnique.mockResolvedValue({ id: 'order-1' });
+  db.deliveryAttempt.create.mockImplementation(({ data }) => Promise.resolve({ id: 'attempt-1', ...data }));
+});
+
+describe('recordDeliveryAttempt', () => {
+  it('rejects an unreadable attempt time', async () => {
+    const res = await record({ result: AttemptResult.SUCCESS, attemptedAt: 'yesterday' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe('Invalid attempt time');
+    expect(db.deliveryAttempt.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects coordinates that are not numbers or out of range', async () => {
+    expect((await record({ result: AttemptResult.SUCCESS, latitude: 'north', longitude: '4.9' })).statusCode).toBe(400);
+    expect((await record({ result: AttemptResult.SUCCESS, latitude: '52.3', longitude: '181' })).statusCode).toBe(400);
+    expect((await record({ result: AttemptResult.SUCCESS, latitude: '52.3' })).statusCode).toBe(400);
+    expect(db.deliveryAttempt.create).not.toHaveBeenCalled();
+  });
+
+  it('keeps a zero coordinate', async () => {
+    const res = await record({
+      result: AttemptResult.SUCCESS,
+      latitude: '0',
+      longitude: '-0.1278',
+      attemptedAt: '2026-10-20T09:15:00Z',
+    });
+
+    expect(res.statusCode).toBe(201);
+    expect(db.deliveryAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        latitude: 0,
+        longitude: -0.1278,
+        attemptedAt: new Date('2026-10-20T09:15:00Z'),
+      }),
+    });
+  });
+
+  it('leaves out coordinates sent as empty fields', async () => {
+    await record({ result: AttemptResult.SUCCESS, latitude: '', longitude: '' });
+
+    expect(db.deliveryAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ latitude: null, longitude: null }),
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DriverStatus, VehicleType } from '@prisma/client';
+import { getDriverLocations, recordDriverLocations } from '../../src/controllers/driverLocationController';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+const db = vi.hoisted(() => ({
+  driver: { findUnique: vi.fn(), update: vi.fn() },
+  route: { findUnique: vi.fn() },
+  driverLocation: { createMany: vi.fn(), findMany: vi.fn() },
+  $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+}));
+
+const socket = vi.hoisted(() => ({ emitEvent: vi.fn() }));
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+vi.mock('../../src/config/socket', () => socket);
+
+const driver = (overrides: object = {}) => ({
+  id: 'driver-1',
+  name: 'Dana',
+  status: DriverStatus.ON_ROUTE,
+  vehicleType: VehicleType.VAN,
+  lastLocationAt: null as Date | null,
+  routes: [{ id: 'route-1' }],
+  ...overrides,
+});
+
+const ping = (minute: number, latitude = 52.37) => ({
+  latitude,
+  longitude: 4.89,
+  timestamp: `2026-10-20T09:${String(minute).padStart(2, '0')}:00Z`,
+});
+
+describe('recordDriverLocations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-20T10:00:00Z'));
+    db.driver.findUnique.mockResolvedValue(driver());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const record = async (body: object) => {
+    const res = mockResponse();
+    await recordDriverLocations(mockRequest({ params: { id: 'driver-1' }, body }), res);
+    return res;
+  };
+
+  it('requires a non-empty batch', async () => {
+    const res = await record({ points: [] });
+
+    expect(res.statusCode).toBe(400);
+    expect(db.driverLocation.createMany).not.toHaveBeenCalled();
+  });
+
+  it('reports which points are invalid', async () => {
+    const res = await record({ points: [ping(0), { latitude: 91, longitude: 4.89 }] });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.details).toEqual([{ index: 1, error: 'Latitude must be between -90 and 90' }]);
+  });
+
+  it('rejects points stamped ahead of the server clock', async () => {
+    const ahead = new Date(Date.now() + 10 * 60000).toISOString();
+
+    const res = await record({ points: [{ ...ping(0), timestamp: ahead }] });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.details).toEqual([{ index: 0, error: 'Timestamp is in the future' }]);
+    expect(db.driverLocation.createMany).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an unknown driver', async () => {
+    db.driver.findUnique.mockResolvedValue(null);
+
+    const res = await record({ points: [ping(0)] });
+
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('only attaches pings to routes of the same driver', async () => {
+    db.route.findUnique.mockResolvedValue(null);
+    expect((await record({ points: [ping(0)], routeId: 'missing' })).statusCode).toBe(400);
+
+    db.route.findUnique.mockResolvedValue({ driverId: 'driver-2' });
+    expect((await record({ points: [ping(0)], routeId: 'route-2' })).statusCode).toBe(403);
+
+    expect(db.driverLocation.createMany).not.toHaveBeenCalled();
+  });
+
+  it('stores the batch on the active route and moves the driver to the newest point', async () => {
+    const res = await record({ points: [ping(5, 52.38), ping(0, 52.37)] });
+
+    expect(res.statusCode).toBe(201);
+    expect(db.driverLocation.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ driverId: 'driver-1', routeId: 'route-1', latitude: 52.38 }),
+        expect.objectContaining({ driverId: 'driver-1', routeId: 'route-1', latitude: 52.37 }),
+      ],
+    });
+    expect(db.driver.update).toHaveBeenCalledWith({
+      where: { id: 'driver-1' },
+      data: { lastLatitude: 52.38, lastLongitude: 4.89, lastLocationAt: new Date('2026-10-20T09:05:00Z') },
+    });
+    expect(socket.emitEvent).toHaveBeenCalledWith(
+      'driver:location',
+      expect.objectContaining({ driverId: 'driver-1', routeId: 'route-1', latitude: 52.38 })
+    );
+  });
+
+  it('keeps the last position when buffered points arrive late', async () => {
+    db.driver.findUnique.mockResolvedValue(driver({ lastLocationAt: new Date('2026-10-20T09:30:00Z') }));
+
+    const res = await record({ points: [ping(10)] });
+
+    expect(res.statusCode).toBe(201);
+    expect(db.driverLocation.createMany).toHaveBeenCalled();
+    expect(db.driver.update).not.toHaveBeenCalled();
+    expect(socket.emitEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe('getDriverLocations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.driverLocation.findMany.mockResolvedValue([]);
+  });
+
+  const history = async (query: Record<string, string>) => {
+    const res = mockResponse();
+    await getDriverLocations(mockRequest({ params: { id: 'driver-1' }, query }), res);
+    return res;
+  };
+
+  it('rejects invalid dates and limits', async () => {
+    expect((await history({ from: 'yesterday' })).statusCode).toBe(400);
+    expect((await history({ limit: '0' })).statusCode).toBe(400);
+    expect((await history({ limit: 'all' })).statusCode).toBe(400);
+    expect(db.driverLocation.findMany).not.toHaveBeenCalled();
+  });
+
+  it('filters by route and time window', async () => {
+    const res = await history({
+      routeId: 'route-1',
+      from: '2026-10-20T08:00:00Z',
+      to: '2026-10-20T10:00:00Z',
+      limit: '100',
+    });
+
+    expect(res.body).toEqual({ locations: [] });
+    expect(db.driverLocation.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          driverId: 'driver-1',
+          routeId: 'route-1',
+          recordedAt: { gte: new Date('2026-10-20T08:00:00Z'), lte: new Date('2026-10-20T10:00:00Z') },
+        },
+        orderBy: { recordedAt: 'desc' },
+        take: 100,
+      })
+    );
+  });
+
+  it('returns the latest points of the track, oldest first', async () => {
+    db.driverLocation.findMany.mockResolvedValue([{ id: 'ping-3' }, { id: 'ping-2' }]);
+
+    const res = await history({ limit: '2' });
+
+    expect(res.body.locations).toEqual([{ id: 'ping-2' }, { id: 'ping-3' }]);
+  });
+});
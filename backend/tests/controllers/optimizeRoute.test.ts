@@ -0,0 +1,124 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Prisma, RouteStatus, StopStatus, VehicleType } from '@prisma/client';
+import { optimizeRoute } from '../../src/controllers/routeController';
+import { HaversineProvider, setDistanceProvider } from '../../src/utils/distanceProvider';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+const db = vi.hoisted(() => ({
+  route: { findUnique: vi.fn(), update: vi.fn() },
+  routeStop: { update: vi.fn() },
+  $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+}));
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+vi.mock('../../src/config/socket', () => ({ emitEvent: vi.fn() }));
+vi.mock('../../src/utils/audit', () => ({ recordAudit: vi.fn() }));
+
+const stop = (key: string, sequence: number, latitude: number, status: StopStatus = StopStatus.PENDING) => ({
+  id: `stop-${key}`,
+  orderId: `order-${key}`,
+  sequence,
+  status,
+  order: {
+    id: `order-${key}`,
+    orderNumber: `ORD-${key.toUpperCase()}`,
+    address: `${key} Main St`,
+    latitude: new Prisma.Decimal(latitude),
+    longitude: new Prisma.Decimal(4.9),
+    timeWindow: null,
+    priority: 'NORMAL',
+    weightKg: null,
+    lengthCm: null,
+    widthCm: null,
+    heightCm: null,
+    parcelCount: 1,
+  },
+});
+
+const route = (status: RouteStatus, stops: ReturnType<typeof stop>[]) => ({
+  id: 'route-1',
+  status,
+  date: new Date('2026-10-20T00:00:00Z'),
+  startTime: null,
+  depot: null,
+  returnToDepot: false,
+  driver: {
+    vehicleType: VehicleType.VAN,
+    capacityWeightKg: null,
+    capacityVolumeM3: null,
+    capacityParcels: null,
+    lastLatitude: null,
+    lastLongitude: null,
+    lastLocationAt: null,
+  },
+  stops,
+});
+
+// [stop, sequence] for every stop written, in sequence order
+const writtenSequence = () =>
+  db.routeStop.update.mock.calls
+    .map(([args]) => [args.where.id, args.data.sequence])
+    .sort((a, b) => a[1] - b[1]);
+
+const optimize = async () => {
+  const res = mockResponse();
+  await optimizeRoute(mockRequest({ params: { id: 'route-1' }, body: {} }), res);
+  return res;
+};
+
+beforeAll(() => {
+  setDistanceProvider(new HaversineProvider());
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.route.update.mockResolvedValue({ id: 'route-1' });
+});
+
+describe('optimizeRoute', () => {
+  it('reorders every stop of a route that has not started', async () => {
+    db.route.findUnique.mockResolvedValue(
+      route(RouteStatus.PENDING, [stop('a', 1, 52.0), stop('b', 2, 52.05), stop('c', 3, 52.01)])
+    );
+
+    const res = await optimize();
+
+    expect(res.statusCode).toBe(200);
+    expect(writtenSequence()).toEqual([
+      ['stop-a', 1],
+      ['stop-c', 2],
+      ['stop-b', 3],
+    ]);
+  });
+
+  it('keeps started stops in place and continues from the current one', async () => {
+    db.route.findUnique.mockResolvedValue(
+      route(RouteStatus.IN_PROGRESS, [
+        stop('a', 1, 52.0, StopStatus.DELIVERED),
+        stop('b', 2, 52.06, StopStatus.EN_ROUTE),
+        stop('c', 3, 52.0),
+        stop('d', 4, 52.05),
+      ])
+    );
+
+    const res = await optimize();
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.optimization.stopsLocked).toBe(2);
+    expect(writtenSequence()).toEqual([
+      ['stop-d', 3],
+      ['stop-c', 4],
+    ]);
+  });
+
+  it('has nothing to do once every stop has been started', async () => {
+    db.route.findUnique.mockResolvedValue(
+      route(RouteStatus.IN_PROGRESS, [stop('a', 1, 52.0, StopStatus.DELIVERED), stop('b', 2, 52.01, StopStatus.ARRIVED)])
+    );
+
+    const res = await optimize();
+
+    expect(res.statusCode).toBe(400);
+    expect(db.routeStop.update).not.toHaveBeenCalled();
+  });
+});
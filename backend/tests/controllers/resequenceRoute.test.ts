@@ -0,0 +1,120 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Prisma, RouteStatus, StopStatus } from '@prisma/client';
+import { resequenceRoute } from '../../src/controllers/routeController';
+import { HaversineProvider, setDistanceProvider } from '../../src/utils/distanceProvider';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+const db = vi.hoisted(() => ({
+  route: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn() },
+  routeStop: { update: vi.fn() },
+  $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+}));
+
+const socket = vi.hoisted(() => ({ emitEvent: vi.fn() }));
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+vi.mock('../../src/config/socket', () => socket);
+vi.mock('../../src/utils/audit', () => ({ recordAudit: vi.fn() }));
+
+// Stops along a street running north, ~1.1 km apart
+const stop = (key: string, step: number, sequence: number, status: StopStatus = StopStatus.PENDING) => ({
+  id: `stop-${key}`,
+  orderId: `order-${key}`,
+  sequence,
+  status,
+  order: {
+    id: `order-${key}`,
+    orderNumber: `ORD-${key.toUpperCase()}`,
+    address: `${key} Main St`,
+    latitude: new Prisma.Decimal(52 + step * 0.01),
+    longitude: new Prisma.Decimal(4.9),
+    timeWindow: null,
+    priority: 'NORMAL',
+  },
+});
+
+const route = (stops: ReturnType<typeof stop>[], overrides: object = {}) => ({
+  id: 'route-1',
+  routeNumber: 'RT-1',
+  status: RouteStatus.PENDING,
+  date: new Date('2026-10-20T00:00:00Z'),
+  startTime: null,
+  totalDistance: new Prisma.Decimal(10),
+  depot: null,
+  returnToDepot: false,
+  stops,
+  ...overrides,
+});
+
+const resequence = async (body: object) => {
+  const res = mockResponse();
+  await resequenceRoute(mockRequest({ params: { id: 'route-1' }, body }), res);
+  return res;
+};
+
+beforeAll(() => {
+  setDistanceProvider(new HaversineProvider());
+});
+
+describe('resequenceRoute', () => {
+  const [a, b, c] = [stop('a', 0, 1), stop('b', 2, 2), stop('c', 1, 3)];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.route.findUnique.mockResolvedValue(route([a, b, c]));
+    db.route.findUniqueOrThrow.mockResolvedValue(route([a, c, b]));
+  });
+
+  it('requires every stop exactly once', async () => {
+    const res = await resequence({ stopIds: [a.id, c.id] });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.missingStopIds).toEqual([b.id]);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses to reorder a finished route', async () => {
+    db.route.findUnique.mockResolvedValue(route([a, b, c], { status: RouteStatus.COMPLETED }));
+
+    const res = await resequence({ stopIds: [a.id, c.id, b.id] });
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('keeps stops that are under way in place', async () => {
+    const started = stop('a', 0, 1, StopStatus.DELIVERED);
+    db.route.findUnique.mockResolvedValue(route([started, b, c]));
+
+    const res = await resequence({ stopIds: [b.id, started.id, c.id] });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.movedLockedStops).toEqual([
+      { stopId: started.id, orderNumber: 'ORD-A', status: StopStatus.DELIVERED },
+    ]);
+  });
+
+  it('previews the new distance without saving', async () => {
+    const current = await resequence({ stopIds: [a.id, b.id, c.id], preview: true });
+    const straightened = await resequence({ stopIds: [a.id, c.id, b.id], preview: true });
+
+    expect(straightened.body.preview.totalDistance).toBeLessThan(current.body.preview.totalDistance);
+    expect(straightened.body.preview.stops.map((s: { stopId: string }) => s.stopId)).toEqual([a.id, c.id, b.id]);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('saves the dispatcher order and the new totals', async () => {
+    const res = await resequence({ stopIds: [a.id, c.id, b.id] });
+
+    expect(res.statusCode).toBe(200);
+    expect(db.routeStop.update.mock.calls.map(([args]) => [args.where.id, args.data.sequence])).toEqual([
+      [a.id, 1],
+      [c.id, 2],
+      [b.id, 3],
+    ]);
+    expect(db.route.update).toHaveBeenCalledWith({
+      where: { id: 'route-1' },
+      data: expect.objectContaining({ totalDistance: res.body.resequence.totalDistance }),
+    });
+    expect(socket.emitEvent).toHaveBeenCalledWith('route:updated', expect.objectContaining({ id: 'route-1' }));
+  });
+});
@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DriverStatus, OrderStatus, RouteStatus, StopStatus } from '@prisma/client';
+import { cancelRoute, completeRoute } from '../../src/controllers/routeController';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+const db = vi.hoisted(() => {
+  const db = {
+    route: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn(), updateMany: vi.fn(), count: vi.fn() },
+    routeStop: { updateMany: vi.fn(), deleteMany: vi.fn() },
+    order: { update: vi.fn(), updateMany: vi.fn(), findMany: vi.fn() },
+    driver: { update: vi.fn() },
+    $transaction: vi.fn(
+      (operations: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>)): Promise<unknown> =>
+        typeof operations === 'function' ? operations(db) : Promise.all(operations)
+    ),
+  };
+  return db;
+});
+
+const redelivery = vi.hoisted(() => ({ processFailedOrdersForRoute: vi.fn() }));
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+vi.mock('../../src/config/socket', () => ({ emitEvent: vi.fn() }));
+vi.mock('../../src/utils/audit', () => ({ recordAudit: vi.fn() }));
+vi.mock('../../src/utils/redelivery', () => redelivery);
+
+const stop = (key: string, sequence: number, status: StopStatus) => ({
+  id: `stop-${key}`,
+  orderId: `order-${key}`,
+  sequence,
+  status,
+  actualTime: null,
+  order: { id: `order-${key}`, orderNumber: `ORD-${key.toUpperCase()}` },
+});
+
+const route = (stops: ReturnType<typeof stop>[], status: RouteStatus = RouteStatus.IN_PROGRESS) => ({
+  id: 'route-1',
+  routeNumber: 'RT-1',
+  driverId: 'driver-1',
+  status,
+  startTime: new Date(Date.now() - 2 * 3600000),
+  stops,
+});
+
+const close = async (handler: typeof completeRoute, body: object = {}) => {
+  const res = mockResponse();
+  await handler(mockRequest({ params: { id: 'route-1' }, body }), res);
+  return res;
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.route.count.mockResolvedValue(0);
+  db.route.updateMany.mockResolvedValue({ count: 1 });
+  db.routeStop.updateMany.mockResolvedValue({ count: 1 });
+  db.route.findUniqueOrThrow.mockResolvedValue({ id: 'route-1', driver: { id: 'driver-1' }, stops: [] });
+  db.order.findMany.mockResolvedValue([]);
+  redelivery.processFailedOrdersForRoute.mockResolvedValue([]);
+});
+
+describe('completeRoute', () => {
+  it('only completes a running route', async () => {
+    db.route.findUnique.mockResolvedValue(route([], RouteStatus.PENDING));
+
+    const res = await close(completeRoute);
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('ends COMPLETED when every stop was delivered', async () => {
+    db.route.findUnique.mockResolvedValue(route([stop('a', 1, StopStatus.DELIVERED), stop('b', 2, StopStatus.DELIVERED)]));
+
+    const res = await close(completeRoute);
+
+    expect(res.body.message).toBe('Route completed successfully');
+    expect(db.routeStop.updateMany).not.toHaveBeenCalled();
+    expect(db.route.updateMany).toHaveBeenCalledWith({
+      where: { id: 'route-1', status: RouteStatus.IN_PROGRESS },
+      data: expect.objectContaining({ status: RouteStatus.COMPLETED }),
+    });
+    expect(db.driver.update).toHaveBeenCalledWith({
+      where: { id: 'driver-1' },
+      data: { status: DriverStatus.AVAILABLE },
+    });
+  });
+
+  it('closes open stops and ends PARTIAL', async () => {
+    db.route.findUnique.mockResolvedValue(
+      route([stop('a', 1, StopStatus.DELIVERED), stop('b', 2, StopStatus.ARRIVED), stop('c', 3, StopStatus.PENDING)])
+    );
+
+    const res = await close(completeRoute, { reason: 'Van broke down', stopReasons: { 'stop-c': 'Out of time' } });
+
+    expect(res.body.message).toBe('Route partially completed: 1 of 3 stops delivered');
+    expect(res.body.closedStops).toEqual([
+      { stopId: 'stop-b', orderId: 'order-b', orderNumber: 'ORD-B', status: StopStatus.FAILED, reason: 'Van broke down' },
+      { stopId: 'stop-c', orderId: 'order-c', orderNumber: 'ORD-C', status: StopStatus.SKIPPED, reason: 'Out of time' },
+    ]);
+    expect(db.routeStop.updateMany).toHaveBeenCalledWith({
+      where: { id: 'stop-c', status: StopStatus.PENDING },
+      data: expect.objectContaining({ status: StopStatus.SKIPPED, reason: 'Out of time' }),
+    });
+    expect(db.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-c' },
+      data: { status: OrderStatus.FAILED, lastUpdatedBy: 'user-1' },
+    });
+    expect(db.route.updateMany).toHaveBeenCalledWith({
+      where: { id: 'route-1', status: RouteStatus.IN_PROGRESS },
+      data: expect.objectContaining({ status: RouteStatus.PARTIAL }),
+    });
+    expect(redelivery.processFailedOrdersForRoute).toHaveBeenCalledWith('route-1');
+  });
+
+  it('does not complete a route whose stops were all moved away', async () => {
+    db.route.findUnique.mockResolvedValue(route([]));
+
+    const res = await close(completeRoute);
+
+    expect(res.statusCode).toBe(400);
+    expect(db.route.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when a stop changed before it was closed', async () => {
+    db.route.findUnique.mockResolvedValue(route([stop('a', 1, StopStatus.DELIVERED), stop('b', 2, StopStatus.EN_ROUTE)]));
+    db.routeStop.updateMany.mockResolvedValue({ count: 0 });
+
+    const res = await close(completeRoute);
+
+    expect(res.statusCode).toBe(409);
+    expect(db.order.update).not.toHaveBeenCalled();
+    expect(db.driver.update).not.toHaveBeenCalled();
+    expect(redelivery.processFailedOrdersForRoute).not.toHaveBeenCalled();
+  });
+
+  it('keeps the driver on route while another of their routes is running', async () => {
+    db.route.findUnique.mockResolvedValue(route([stop('a', 1, StopStatus.DELIVERED)]));
+    db.route.count.mockResolvedValue(1);
+
+    await close(completeRoute);
+
+    expect(db.driver.update).toHaveBeenCalledWith({
+      where: { id: 'driver-1' },
+      data: { status: DriverStatus.ON_ROUTE },
+    });
+  });
+});
+
+describe('cancelRoute', () => {
+  it('requires a reason', async () => {
+    const res = await close(cancelRoute, { reason: '  ' });
+
+    expect(res.statusCode).toBe(400);
+    expect(db.route.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('does not cancel a finished route', async () => {
+    db.route.findUnique.mockResolvedValue(route([], RouteStatus.PARTIAL));
+
+    const res = await close(cancelRoute, { reason: 'Driver sick' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe('Cannot cancel partial route');
+  });
+
+  it('releases open stops and keeps finished ones as a record', async () => {
+    db.route.findUnique.mockResolvedValue(
+      route([stop('a', 1, StopStatus.DELIVERED), stop('b', 2, StopStatus.FAILED), stop('c', 3, StopStatus.EN_ROUTE)])
+    );
+
+    const res = await close(cancelRoute, { reason: ' Driver sick ' });
+
+    expect(res.body.releasedOrderIds).toEqual(['order-c']);
+    expect(db.routeStop.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['stop-c'] } } });
+    expect(db.order.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['order-c'] } },
+      data: { status: OrderStatus.PENDING, lastUpdatedBy: 'user-1' },
+    });
+    expect(db.route.update).toHaveBeenCalledWith({
+      where: { id: 'route-1' },
+      data: expect.objectContaining({ status: RouteStatus.CANCELLED, cancelReason: 'Driver sick' }),
+    });
+    expect(redelivery.processFailedOrdersForRoute).toHaveBeenCalledWith('route-1');
+  });
+
+  it('leaves the driver alone when the route never started', async () => {
+    db.route.findUnique.mockResolvedValue(route([stop('a', 1, StopStatus.PENDING)], RouteStatus.PENDING));
+
+    await close(cancelRoute, { reason: 'Not needed' });
+
+    expect(db.driver.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Prisma, DriverStatus, OrderStatus, VehicleType } from '@prisma/client';
+import { commitRoutePlan, createRoutePlan } from '../../src/controllers/routePlanController';
+import { HaversineProvider, setDistanceProvider } from '../../src/utils/distanceProvider';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+const db = vi.hoisted(() => {
+  const db = {
+    driver: { findMany: vi.fn() },
+    order: { findMany: vi.fn(), updateMany: vi.fn() },
+    route: { count: vi.fn(), create: vi.fn() },
+    $transaction: vi.fn((run: (tx: unknown) => Promise<unknown>): Promise<unknown> => run(db)),
+  };
+  return db;
+});
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+vi.mock('../../src/config/socket', () => ({ emitEvent: vi.fn() }));
+vi.mock('../../src/utils/audit', () => ({ recordAudit: vi.fn() }));
+
+const driver = {
+  id: 'driver-1',
+  name: 'Dana',
+  status: DriverStatus.AVAILABLE,
+  vehicleType: VehicleType.VAN,
+  capacityWeightKg: null,
+  capacityVolumeM3: null,
+  capacityParcels: null,
+  homeDepot: null,
+};
+
+const order = (key: string, step: number) => ({
+  id: `order-${key}`,
+  orderNumber: `ORD-${key.toUpperCase()}`,
+  address: `${key} Main St`,
+  latitude: new Prisma.Decimal(52 + step * 0.01),
+  longitude: new Prisma.Decimal(4.9),
+  timeWindow: null,
+  priority: 'NORMAL',
+  weightKg: null,
+  lengthCm: null,
+  widthCm: null,
+  heightCm: null,
+  parcelCount: 1,
+});
+
+const createdRoute = { id: 'route-1', stops: [{ orderId: 'order-a', order: order('a', 0) }] };
+
+const planRoutes = async (): Promise<string> => {
+  db.driver.findMany.mockResolvedValueOnce([driver]);
+  db.order.findMany.mockResolvedValueOnce([order('a', 0), order('b', 1)]);
+
+  const res = mockResponse();
+  await createRoutePlan(mockRequest({ body: { date: '2026-10-20' } }), res);
+  expect(res.statusCode).toBe(201);
+  return res.body.plan.id;
+};
+
+const commit = async (planId: string) => {
+  const res = mockResponse();
+  await commitRoutePlan(mockRequest({ params: { planId } }), res);
+  return res;
+};
+
+beforeAll(() => {
+  setDistanceProvider(new HaversineProvider());
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.route.count.mockResolvedValue(0);
+  db.route.create.mockResolvedValue(createdRoute);
+});
+
+describe('commitRoutePlan', () => {
+  const allAvailable = () => {
+    db.order.findMany.mockResolvedValueOnce([{ id: 'order-a' }, { id: 'order-b' }]);
+    db.driver.findMany.mockResolvedValueOnce([]);
+  };
+
+  it('creates the routes once and drops the plan', async () => {
+    const planId = await planRoutes();
+    allAvailable();
+
+    const res = await commit(planId);
+
+    expect(res.statusCode).toBe(201);
+    expect(db.order.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: expect.arrayContaining(['order-a', 'order-b']) } },
+      data: { status: OrderStatus.ASSIGNED, lastUpdatedBy: 'user-1' },
+    });
+    expect((await commit(planId)).statusCode).toBe(404);
+  });
+
+  it('lets only one of two concurrent commits through', async () => {
+    const planId = await planRoutes();
+    allAvailable();
+
+    const [first, second] = await Promise.all([commit(planId), commit(planId)]);
+
+    expect([first.statusCode, second.statusCode]).toEqual([201, 404]);
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports what went stale inside the transaction and keeps the plan', async () => {
+    const planId = await planRoutes();
+    db.order.findMany.mockResolvedValueOnce([{ id: 'order-a' }]);
+    db.driver.findMany.mockResolvedValueOnce([]);
+
+    const res = await commit(planId);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.conflicts).toEqual({ orders: ['order-b'], drivers: [] });
+    expect(db.route.create).not.toHaveBeenCalled();
+
+    allAvailable();
+    expect((await commit(planId)).statusCode).toBe(201);
+  });
+
+  it('returns 409 when a concurrent transaction wins', async () => {
+    const planId = await planRoutes();
+    db.$transaction.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Transaction failed due to a write conflict', {
+        code: 'P2034',
+        clientVersion: 'test',
+      })
+    );
+
+    const res = await commit(planId);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.conflicts).toBeUndefined();
+  });
+});
@@ -0,0 +1,239 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OrderStatus, Prisma, RouteStatus, StopStatus, VehicleType } from '@prisma/client';
+import { moveStops, swapStops, unassignStops } from '../../src/controllers/stopTransferController';
+import { HaversineProvider, setDistanceProvider } from '../../src/utils/distanceProvider';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+const db = vi.hoisted(() => {
+  const db = {
+    route: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn() },
+    routeStop: { update: vi.fn(), updateMany: vi.fn(), deleteMany: vi.fn() },
+    order: { updateMany: vi.fn(), findMany: vi.fn() },
+    $transaction: vi.fn((run: (tx: unknown) => Promise<unknown>): Promise<unknown> => run(db)),
+  };
+  return db;
+});
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+vi.mock('../../src/config/socket', () => ({ emitEvent: vi.fn() }));
+vi.mock('../../src/utils/audit', () => ({ recordAudit: vi.fn() }));
+
+const stop = (key: string, routeId: string, sequence: number, status: StopStatus = StopStatus.PENDING) => ({
+  id: `stop-${key}`,
+  routeId,
+  orderId: `order-${key}`,
+  sequence,
+  status,
+  order: {
+    id: `order-${key}`,
+    orderNumber: `ORD-${key.toUpperCase()}`,
+    address: `${key} Main St`,
+    latitude: new Prisma.Decimal(52 + sequence * 0.01),
+    longitude: new Prisma.Decimal(routeId === 'route-1' ? 4.9 : 4.8),
+    timeWindow: null,
+    priority: 'NORMAL',
+    weightKg: new Prisma.Decimal(10),
+    lengthCm: null,
+    widthCm: null,
+    heightCm: null,
+    parcelCount: 1,
+  },
+});
+
+type Stop = ReturnType<typeof stop>;
+
+const route = (id: string, stops: Stop[], overrides: object = {}) => ({
+  id,
+  routeNumber: id.toUpperCase(),
+  status: RouteStatus.PENDING as RouteStatus,
+  date: new Date('2026-10-20T00:00:00Z'),
+  startTime: null,
+  depot: null,
+  returnToDepot: false,
+  driver: {
+    vehicleType: VehicleType.VAN,
+    capacityWeightKg: null as Prisma.Decimal | null,
+    capacityVolumeM3: null,
+    capacityParcels: null,
+  },
+  stops,
+  ...overrides,
+});
+
+// [stop, route, sequence] for every stop written, in call order
+const writtenStops = () =>
+  db.routeStop.update.mock.calls.map(([args]) => [args.where.id, args.data.routeId, args.data.sequence]);
+
+const call = async (handler: typeof moveStops, body: object) => {
+  const res = mockResponse();
+  await handler(mockRequest({ params: { id: 'route-1' }, body }), res);
+  return res;
+};
+
+let routes: Record<string, ReturnType<typeof route>>;
+
+beforeAll(() => {
+  setDistanceProvider(new HaversineProvider());
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  routes = {
+    'route-1': route('route-1', [stop('a', 'route-1', 1), stop('b', 'route-1', 2), stop('c', 'route-1', 3)]),
+    'route-2': route('route-2', [stop('x', 'route-2', 1), stop('y', 'route-2', 2)]),
+  };
+  db.route.findUnique.mockImplementation(({ where }) => Promise.resolve(routes[where.id] ?? null));
+  db.route.findUniqueOrThrow.mockImplementation(({ where }) => Promise.resolve(routes[where.id]));
+  db.order.findMany.mockResolvedValue([]);
+  // Every selected stop is still pending unless a test says otherwise
+  const matchAll = ({ where }: { where: { id: { in: string[] } } }) => Promise.resolve({ count: where.id.in.length });
+  db.routeStop.updateMany.mockImplementation(matchAll);
+  db.routeStop.deleteMany.mockImplementation(matchAll);
+});
+
+describe('unassignStops', () => {
+  it('only takes pending stops off a route', async () => {
+    routes['route-1'].stops[0].status = StopStatus.DELIVERED;
+
+    const res = await call(unassignStops, { stopIds: ['stop-a'] });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe('Only pending stops can be moved: ORD-A');
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects stops from another route', async () => {
+    const res = await call(unassignStops, { stopIds: ['stop-x'] });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe('Stops not on route ROUTE-1: stop-x');
+  });
+
+  it('removes the stops, releases their orders and renumbers the rest', async () => {
+    const res = await call(unassignStops, { stopIds: ['stop-b'] });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.orderIds).toEqual(['order-b']);
+    expect(db.routeStop.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ['stop-b'] }, routeId: 'route-1', status: StopStatus.PENDING },
+    });
+    expect(db.order.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['order-b'] } },
+      data: { status: OrderStatus.PENDING, lastUpdatedBy: 'user-1' },
+    });
+    expect(writtenStops()).toEqual([
+      ['stop-a', 'route-1', 1],
+      ['stop-c', 'route-1', 2],
+    ]);
+  });
+
+  it('returns 409 when a stop was started in the meantime', async () => {
+    db.routeStop.deleteMany.mockResolvedValue({ count: 0 });
+
+    const res = await call(unassignStops, { stopIds: ['stop-b'] });
+
+    expect(res.statusCode).toBe(409);
+    expect(db.order.updateMany).not.toHaveBeenCalled();
+    expect(db.routeStop.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('moveStops', () => {
+  it('needs a different target route', async () => {
+    const res = await call(moveStops, { stopIds: ['stop-a'], targetRouteId: 'route-1' });
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('does not add stops to a finished route', async () => {
+    routes['route-2'].status = RouteStatus.COMPLETED;
+
+    const res = await call(moveStops, { stopIds: ['stop-a'], targetRouteId: 'route-2' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe('Cannot add stops to completed route ROUTE-2');
+  });
+
+  it('refuses stops that do not fit the target vehicle', async () => {
+    routes['route-2'].driver.capacityWeightKg = new Prisma.Decimal(25);
+
+    const res = await call(moveStops, { stopIds: ['stop-a'], targetRouteId: 'route-2' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.overCapacityOrders).toHaveLength(1);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('only counts what the target vehicle still carries', async () => {
+    routes['route-2'].status = RouteStatus.IN_PROGRESS;
+    routes['route-2'].stops[0].status = StopStatus.DELIVERED;
+    routes['route-2'].driver.capacityWeightKg = new Prisma.Decimal(25);
+
+    const res = await call(moveStops, { stopIds: ['stop-a'], targetRouteId: 'route-2' });
+
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('appends the stops to the target route and renumbers both', async () => {
+    const res = await call(moveStops, { stopIds: ['stop-a'], targetRouteId: 'route-2' });
+
+    expect(res.statusCode).toBe(200);
+    expect(writtenStops()).toEqual([
+      ['stop-b', 'route-1', 1],
+      ['stop-c', 'route-1', 2],
+      ['stop-x', 'route-2', 1],
+      ['stop-y', 'route-2', 2],
+      ['stop-a', 'route-2', 3],
+    ]);
+    expect(db.routeStop.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['stop-a'] }, routeId: 'route-1', status: StopStatus.PENDING },
+      data: { routeId: 'route-2' },
+    });
+  });
+
+  it('returns 409 when a stop changed in the meantime', async () => {
+    db.routeStop.updateMany.mockResolvedValue({ count: 1 });
+
+    const res = await call(moveStops, { stopIds: ['stop-a', 'stop-b'], targetRouteId: 'route-2' });
+
+    expect(res.statusCode).toBe(409);
+    expect(db.routeStop.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('swapStops', () => {
+  it('puts each stop in the place of the one it was swapped with', async () => {
+    const res = await call(swapStops, {
+      stopIds: ['stop-b', 'stop-c'],
+      targetRouteId: 'route-2',
+      targetStopIds: ['stop-x'],
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(writtenStops()).toEqual([
+      ['stop-a', 'route-1', 1],
+      ['stop-x', 'route-1', 2],
+      ['stop-b', 'route-2', 1],
+      ['stop-y', 'route-2', 2],
+      ['stop-c', 'route-2', 3],
+    ]);
+  });
+
+  it('returns 409 when a target stop changed in the meantime', async () => {
+    db.routeStop.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    const res = await call(swapStops, { stopIds: ['stop-b'], targetRouteId: 'route-2', targetStopIds: ['stop-x'] });
+
+    expect(res.statusCode).toBe(409);
+    expect(db.routeStop.update).not.toHaveBeenCalled();
+  });
+
+  it('checks the target stops too', async () => {
+    routes['route-2'].stops[0].status = StopStatus.EN_ROUTE;
+
+    const res = await call(swapStops, { stopIds: ['stop-b'], targetRouteId: 'route-2', targetStopIds: ['stop-x'] });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe('Only pending stops can be moved: ORD-X');
+  });
+});
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeocodeSource, Prisma } from '@prisma/client';
+import { updateOrder } from '../../src/controllers/orderController';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+const db = vi.hoisted(() => ({
+  order: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn() },
+}));
+
+const geocoder = vi.hoisted(() => ({ geocodeAddress: vi.fn() }));
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+vi.mock('../../src/config/socket', () => ({ emitEvent: vi.fn() }));
+vi.mock('../../src/utils/audit', () => ({ recordAudit: vi.fn() }));
+vi.mock('../../src/utils/geocoder', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/utils/geocoder')>()),
+  ...geocoder,
+}));
+vi.mock('../../src/utils/address', () => ({
+  validateAddress: vi.fn(({ address, addressLine2, city, postalCode, country }) =>
+    Promise.resolve({ normalized: { address, addressLine2, city, postalCode, country }, errors: [], warnings: [] })
+  ),
+  checkPinPlacement: vi.fn(),
+}));
+
+const existingOrder = {
+  id: 'order-1',
+  address: '1 Main St',
+  addressLine2: null,
+  city: 'Amsterdam',
+  postalCode: '1011AB',
+  country: 'NL',
+  latitude: new Prisma.Decimal(52.37),
+  longitude: new Prisma.Decimal(4.89),
+  geocodeSource: GeocodeSource.NOMINATIM,
+  redeliveryStatus: null,
+};
+
+const update = async (body: object) => {
+  const res = mockResponse();
+  await updateOrder(mockRequest({ params: { id: 'order-1' }, body }), res);
+  return res;
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.order.findUnique.mockResolvedValue(existingOrder);
+  db.order.update.mockImplementation(({ data }) => Promise.resolve({ ...existingOrder, ...data }));
+});
+
+describe('updateOrder', () => {
+  it('stores the geocoded pin of a new address', async () => {
+    geocoder.geocodeAddress.mockResolvedValue({
+      latitude: 52.36,
+      longitude: 4.9,
+      source: GeocodeSource.NOMINATIM,
+      confidence: 0.9,
+    });
+
+    const res = await update({ address: '2 Main St' });
+
+    expect(db.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: expect.objectContaining({ latitude: 52.36, longitude: 4.9 }),
+    });
+    expect(res.body.addressWarnings).toEqual([]);
+  });
+
+  it('keeps the previous pin and warns when the new address cannot be located', async () => {
+    geocoder.geocodeAddress.mockResolvedValue(null);
+
+    const res = await update({ address: '2 Main St' });
+
+    const { data } = db.order.update.mock.calls[0][0];
+    expect(data).not.toHaveProperty('latitude');
+    expect(data).not.toHaveProperty('longitude');
+    expect(data.geocodedAt).toBeInstanceOf(Date);
+    expect(res.body.addressWarnings).toEqual([
+      'The new address could not be located; the previous pin was kept. Check it on the map.',
+    ]);
+  });
+});
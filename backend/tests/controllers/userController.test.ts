@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { UserRole } from '@prisma/client';
+import { deleteUser, updateUser } from '../../src/controllers/userController';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+const db = vi.hoisted(() => ({
+  user: { findUnique: vi.fn(), update: vi.fn(), count: vi.fn() },
+}));
+
+const socket = vi.hoisted(() => ({ disconnectUser: vi.fn() }));
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+vi.mock('../../src/config/socket', () => socket);
+vi.mock('../../src/utils/audit', () => ({ recordAudit: vi.fn() }));
+vi.mock('../../src/utils/refreshToken', () => ({ revokeUserRefreshTokens: vi.fn() }));
+
+const user = {
+  id: 'user-2',
+  email: 'sam@example.com',
+  name: 'Sam',
+  role: UserRole.MANAGER,
+  isActive: true,
+  deletedAt: null,
+};
+
+const call = async (handler: typeof updateUser, body: object = {}) => {
+  const res = mockResponse();
+  await handler(mockRequest({ params: { id: 'user-2' }, body }), res);
+  return res;
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.user.findUnique.mockResolvedValue(user);
+  db.user.update.mockImplementation(({ data }) => Promise.resolve({ ...user, ...data }));
+});
+
+describe('user sockets', () => {
+  it('drops the sockets of a deactivated user', async () => {
+    const res = await call(updateUser, { isActive: false });
+
+    expect(res.statusCode).toBe(200);
+    expect(socket.disconnectUser).toHaveBeenCalledWith('user-2');
+  });
+
+  it('keeps them for other edits', async () => {
+    await call(updateUser, { name: 'Samira' });
+
+    expect(socket.disconnectUser).not.toHaveBeenCalled();
+  });
+
+  it('drops the sockets of a deleted user', async () => {
+    const res = await call(deleteUser);
+
+    expect(res.statusCode).toBe(200);
+    expect(socket.disconnectUser).toHaveBeenCalledWith('user-2');
+  });
+});
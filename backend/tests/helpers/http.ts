@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import { vi } from 'vitest';
+
+// Just enough of Express for calling controllers directly
+export const mockRequest = (overrides: Partial<Request> = {}): Request =>
+  ({
+    params: {},
+    query: {},
+    body: {},
+    headers: {},
+    user: { userId: 'user-1', email: 'admin@example.com', role: 'ADMIN' },
+    ...overrides,
+  }) as unknown as Request;
+
+export interface MockResponse {
+  statusCode: number;
+  body: any;
+  status: ReturnType<typeof vi.fn>;
+  json: ReturnType<typeof vi.fn>;
+}
+
+export const mockResponse = (): MockResponse & Response => {
+  const res = { statusCode: 200, body: undefined } as MockResponse;
+  res.status = vi.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = vi.fn((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  return res as MockResponse & Response;
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Prisma, VehicleType } from '@prisma/client';
+import {
+  EMPTY_LOAD,
+  findOverCapacityOrders,
+  orderLoad,
+  totalLoad,
+  validateCapacityFields,
+  validatePackageFields,
+  vehicleCapacity,
+} from '../../src/utils/capacity';
+import { DEFAULT_VEHICLE_CAPACITY } from '../../src/config/vehicleCapacity';
+
+const parcel = { weightKg: null, lengthCm: null, widthCm: null, heightCm: null, parcelCount: 1 };
+
+describe('orderLoad', () => {
+  it('multiplies parcel volume by the parcel count', () => {
+    const load = orderLoad({ weightKg: new Prisma.Decimal(12.5), lengthCm: 50, widthCm: 40, heightCm: 30, parcelCount: 2 });
+
+    expect(load.weightKg).toBe(12.5);
+    expect(load.volumeM3).toBeCloseTo(0.12);
+    expect(load.parcels).toBe(2);
+  });
+
+  it('counts unknown weight and dimensions as zero', () => {
+    expect(orderLoad({ ...parcel, lengthCm: 50, widthCm: 40 })).toEqual({ weightKg: 0, volumeM3: 0, parcels: 1 });
+  });
+});
+
+describe('vehicleCapacity', () => {
+  const van = { vehicleType: VehicleType.VAN, capacityWeightKg: null, capacityVolumeM3: null, capacityParcels: null };
+
+  it('falls back to the vehicle type default', () => {
+    expect(vehicleCapacity(van)).toEqual(DEFAULT_VEHICLE_CAPACITY.VAN);
+  });
+
+  it("uses the driver's own limits where set", () => {
+    expect(vehicleCapacity({ ...van, capacityWeightKg: new Prisma.Decimal(750), capacityParcels: 80 })).toEqual({
+      weightKg: 750,
+      volumeM3: DEFAULT_VEHICLE_CAPACITY.VAN.volumeM3,
+      parcels: 80,
+    });
+  });
+});
+
+describe('findOverCapacityOrders', () => {
+  const capacity = { weightKg: 100, volumeM3: 1, parcels: 3 };
+  const order = (id: string, weightKg: number, parcels = 1) => ({
+    id,
+    orderNumber: id.toUpperCase(),
+    load: { weightKg, volumeM3: 0, parcels },
+  });
+
+  it('accepts orders that fit on top of the current load', () => {
+    expect(findOverCapacityOrders(capacity, { weightKg: 50, volumeM3: 0, parcels: 1 }, [order('a', 50)])).toEqual([]);
+  });
+
+  it('reports each order that no longer fits and keeps loading the rest', () => {
+    const overCapacity = findOverCapacityOrders(capacity, EMPTY_LOAD, [
+      order('a', 60),
+      order('b', 60),
+      order('c', 30),
+      order('d', 5, 2),
+    ]);
+
+    expect(overCapacity.map((entry) => [entry.orderId, entry.exceeds])).toEqual([
+      ['b', ['weight']],
+      ['d', ['parcels']],
+    ]);
+  });
+
+  it('adds loads up', () => {
+    expect(totalLoad([order('a', 10), order('b', 15, 2)])).toEqual({ weightKg: 25, volumeM3: 0, parcels: 3 });
+  });
+});
+
+describe('validatePackageFields', () => {
+  it('accepts empty and numeric values', () => {
+    expect(validatePackageFields({})).toBeNull();
+    expect(validatePackageFields({ weightKg: '', lengthCm: null, widthCm: '12.5', heightCm: 0, parcelCount: '2' })).toBeNull();
+  });
+
+  it('rejects negative or non-numeric sizes', () => {
+    expect(validatePackageFields({ weightKg: -1 })).toBe('weightKg must be a non-negative number');
+    expect(validatePackageFields({ heightCm: 'tall' })).toBe('heightCm must be a non-negative number');
+  });
+
+  it('needs a whole, positive parcel count', () => {
+    expect(validatePackageFields({ parcelCount: 0 })).toBe('parcelCount must be a positive integer');
+    expect(validatePackageFields({ parcelCount: 1.5 })).toBe('parcelCount must be a positive integer');
+  });
+});
+
+describe('validateCapacityFields', () => {
+  it('accepts empty values (vehicle default) and positive numbers', () => {
+    expect(validateCapacityFields({ capacityWeightKg: '', capacityVolumeM3: null, capacityParcels: '' })).toBeNull();
+    expect(validateCapacityFields({ capacityWeightKg: '500', capacityVolumeM3: 2.5, capacityParcels: 60 })).toBeNull();
+  });
+
+  it('rejects zero, negative or fractional limits', () => {
+    expect(validateCapacityFields({ capacityWeightKg: 0 })).toBe('capacityWeightKg must be a positive number');
+    expect(validateCapacityFields({ capacityVolumeM3: -2 })).toBe('capacityVolumeM3 must be a positive number');
+    expect(validateCapacityFields({ capacityParcels: 2.5 })).toBe('capacityParcels must be a positive integer');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  CachedDistanceProvider,
+  Coordinates,
+  DistanceProvider,
+  HaversineProvider,
+  MemoryMatrixCache,
+} from '../../src/utils/distanceProvider';
+
+// A routing server answering in one travel mode
+const server = (profile: string): DistanceProvider => {
+  const haversine = new HaversineProvider();
+  return { name: 'osrm', profile, getMatrix: vi.fn((points: Coordinates[]) => haversine.getMatrix(points)) };
+};
+
+const points: Coordinates[] = [
+  { latitude: 52.37, longitude: 4.89 },
+  { latitude: 52.38, longitude: 4.9 },
+];
+
+describe('CachedDistanceProvider', () => {
+  it('reuses cached legs for the same travel mode', async () => {
+    const cache = new MemoryMatrixCache(60);
+    const driving = server('driving');
+
+    await new CachedDistanceProvider(driving, cache).getMatrix(points);
+    await new CachedDistanceProvider(driving, cache).getMatrix(points);
+
+    expect(driving.getMatrix).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps legs of different travel modes apart', async () => {
+    const cache = new MemoryMatrixCache(60);
+    const driving = server('driving');
+    const cycling = server('cycling');
+
+    await new CachedDistanceProvider(driving, cache).getMatrix(points);
+    await new CachedDistanceProvider(cycling, cache).getMatrix(points);
+
+    expect(cycling.getMatrix).toHaveBeenCalledTimes(1);
+  });
+});
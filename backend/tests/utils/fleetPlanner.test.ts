@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { Priority } from '@prisma/client';
+import { PlanOrder, PlanVehicle, clusterOrders } from '../../src/utils/fleetPlanner';
+import { RouteDepot } from '../../src/utils/routeOptimizer';
+import { DEFAULT_VEHICLE_CAPACITY } from '../../src/config/vehicleCapacity';
+import { Load } from '../../src/utils/capacity';
+
+const ONE_PARCEL: Load = { weightKg: 1, volumeM3: 0.01, parcels: 1 };
+
+const order = (
+  id: string,
+  latitude: number,
+  longitude: number,
+  priority: Priority = Priority.NORMAL,
+  load: Load = ONE_PARCEL
+): PlanOrder => ({
+  id,
+  orderNumber: id.toUpperCase(),
+  address: `${id} Main St`,
+  latitude,
+  longitude,
+  priority,
+  load,
+});
+
+const depot = (id: string, latitude: number, longitude: number): RouteDepot => ({
+  id,
+  name: id,
+  latitude,
+  longitude,
+  returnToDepot: true,
+});
+
+const vehicle = (driverId: string, maxStops: number, start: RouteDepot | null = null): PlanVehicle => ({
+  driverId,
+  capacity: DEFAULT_VEHICLE_CAPACITY.VAN,
+  maxStops,
+  depot: start,
+});
+
+const ids = (orders: PlanOrder[] | undefined) => (orders || []).map((o) => o.id).sort();
+
+// Two neighbourhoods ~40 km apart
+const north = [order('n1', 52.37, 4.89), order('n2', 52.38, 4.9), order('n3', 52.36, 4.88)];
+const south = [order('s1', 52.01, 4.36), order('s2', 52.02, 4.37)];
+
+describe('clusterOrders', () => {
+  it('leaves every order unassigned without vehicles', () => {
+    const { clusters, unassigned } = clusterOrders(north, []);
+
+    expect(clusters.size).toBe(0);
+    expect(ids(unassigned)).toEqual(['n1', 'n2', 'n3']);
+  });
+
+  it('gives each vehicle the orders around its depot', () => {
+    const { clusters, unassigned } = clusterOrders(
+      [...north, ...south],
+      [
+        vehicle('driver-south', 10, depot('delft', 52.0, 4.35)),
+        vehicle('driver-north', 10, depot('amsterdam', 52.37, 4.9)),
+      ]
+    );
+
+    expect(unassigned).toEqual([]);
+    expect(ids(clusters.get('driver-north'))).toEqual(['n1', 'n2', 'n3']);
+    expect(ids(clusters.get('driver-south'))).toEqual(['s1', 's2']);
+  });
+
+  it('splits orders into separate areas when no vehicle has a depot', () => {
+    const { clusters, unassigned } = clusterOrders([...north, ...south], [vehicle('a', 10), vehicle('b', 10)]);
+
+    expect(unassigned).toEqual([]);
+    expect([ids(clusters.get('a')), ids(clusters.get('b'))]).toEqual(
+      expect.arrayContaining([
+        ['n1', 'n2', 'n3'],
+        ['s1', 's2'],
+      ])
+    );
+  });
+
+  it('never gives a vehicle more orders than it can take', () => {
+    const { clusters, unassigned } = clusterOrders(
+      [...north, ...south],
+      [
+        vehicle('driver-north', 2, depot('amsterdam', 52.37, 4.9)),
+        vehicle('driver-south', 2, depot('delft', 52.0, 4.35)),
+      ]
+    );
+
+    expect(clusters.get('driver-north')).toHaveLength(2);
+    expect(clusters.get('driver-south')).toHaveLength(2);
+    expect(unassigned).toHaveLength(1);
+  });
+
+  it('moves orders to another vehicle once one is full by weight', () => {
+    const heavy = { weightKg: 600, volumeM3: 0.5, parcels: 1 };
+    const { clusters, unassigned } = clusterOrders(
+      [order('h1', 52.37, 4.89, Priority.NORMAL, heavy), order('h2', 52.38, 4.9, Priority.NORMAL, heavy)],
+      [
+        vehicle('driver-north', 10, depot('amsterdam', 52.37, 4.9)),
+        vehicle('driver-south', 10, depot('delft', 52.0, 4.35)),
+      ]
+    );
+
+    expect(unassigned).toEqual([]);
+    expect(clusters.get('driver-north')).toHaveLength(1);
+    expect(clusters.get('driver-south')).toHaveLength(1);
+  });
+
+  it('keeps urgent orders when the fleet is full', () => {
+    const urgent = order('u1', 52.5, 5.1, Priority.URGENT);
+    const { clusters, unassigned } = clusterOrders(
+      [...north, urgent],
+      [vehicle('driver-north', 2, depot('amsterdam', 52.37, 4.9))]
+    );
+
+    expect(ids(clusters.get('driver-north'))).toContain('u1');
+    expect(unassigned).toHaveLength(2);
+  });
+});
@@ -0,0 +1,119 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { Order, Prisma, RouteStatus, StopStatus } from '@prisma/client';
+import { InsertionRoute, findBestInsertion, remainingLoad } from '../../src/utils/insertion';
+import { SequencedStop, measureStops } from '../../src/utils/routeSequence';
+import { HaversineProvider, setDistanceProvider } from '../../src/utils/distanceProvider';
+
+vi.mock('../../src/config/database', () => ({ default: {} }));
+
+// Orders along a street running north, ~1.1 km apart
+const order = (id: string, step: number, overrides: Partial<Order> = {}): Order =>
+  ({
+    id,
+    orderNumber: id.toUpperCase(),
+    address: `${id} Main St`,
+    latitude: new Prisma.Decimal(52 + step * 0.01),
+    longitude: new Prisma.Decimal(4.9),
+    timeWindow: null,
+    priority: 'NORMAL',
+    weightKg: null,
+    lengthCm: null,
+    widthCm: null,
+    heightCm: null,
+    parcelCount: 1,
+    ...overrides,
+  }) as Order;
+
+const stop = (order: Order, status: StopStatus = StopStatus.PENDING) => ({
+  id: `stop-${order.id}`,
+  status,
+  orderId: order.id,
+  order,
+});
+
+const route = (stops: InsertionRoute['stops'], overrides: Partial<InsertionRoute> = {}): InsertionRoute => ({
+  status: RouteStatus.PENDING,
+  date: new Date('2026-10-20T00:00:00Z'),
+  startTime: null,
+  depot: null,
+  returnToDepot: false,
+  driver: { lastLatitude: null, lastLongitude: null, lastLocationAt: null },
+  stops,
+  ...overrides,
+});
+
+beforeAll(() => {
+  setDistanceProvider(new HaversineProvider());
+});
+
+describe('remainingLoad', () => {
+  it('leaves out parcels already delivered', () => {
+    const heavy = order('a', 0, { weightKg: new Prisma.Decimal(40) });
+    const light = order('b', 1, { weightKg: new Prisma.Decimal(5), parcelCount: 2 });
+
+    expect(remainingLoad([stop(heavy, StopStatus.DELIVERED), stop(light, StopStatus.EN_ROUTE)])).toEqual({
+      weightKg: 5,
+      volumeM3: 0,
+      parcels: 2,
+    });
+  });
+});
+
+describe('findBestInsertion', () => {
+  it('puts the order in the gap where it adds the least driving', async () => {
+    const stops = [stop(order('a', 0)), stop(order('b', 2)), stop(order('c', 4))];
+
+    const insertion = await findBestInsertion(route(stops), order('new', 3));
+
+    expect(insertion.position).toBe(2);
+    expect(insertion.insertAfter).toBe('B');
+    expect(insertion.addedDistance).toBeCloseTo(0, 1);
+    expect(insertion.addedLateMinutes).toBe(0);
+  });
+
+  it('never goes before stops the driver has started or finished', async () => {
+    const stops = [
+      stop(order('a', 0), StopStatus.DELIVERED),
+      stop(order('b', 4), StopStatus.EN_ROUTE),
+      stop(order('c', 8)),
+    ];
+
+    const insertion = await findBestInsertion(
+      route(stops, { status: RouteStatus.IN_PROGRESS, startTime: new Date() }),
+      order('new', 0)
+    );
+
+    expect(insertion.position).toBeGreaterThanOrEqual(2);
+  });
+
+  it('keeps a time window in hard mode even when it costs more driving', async () => {
+    const start = new Date('2026-10-20T08:00:00');
+    const stops = [stop(order('a', 0)), stop(order('b', 20)), stop(order('c', 40))];
+    // Far along the street but due first thing
+    const urgent = order('new', 40, { timeWindow: '08:00-08:30' });
+
+    const soft = await findBestInsertion(route(stops, { startTime: start }), urgent, 'soft');
+    const hard = await findBestInsertion(route(stops, { startTime: start }), urgent, 'hard');
+
+    expect(hard.addedLateMinutes).toBeLessThanOrEqual(soft.addedLateMinutes);
+    expect(hard.position).toBe(0);
+  });
+
+  it('gives the ETA the stop gets once the route is resequenced', async () => {
+    const stops = [
+      stop(order('a', 0), StopStatus.DELIVERED),
+      stop(order('b', 2), StopStatus.ARRIVED),
+      stop(order('c', 6)),
+    ];
+    const inProgress = route(stops, { status: RouteStatus.IN_PROGRESS, startTime: new Date(Date.now() - 3600000) });
+    const newOrder = order('new', 4);
+
+    const insertion = await findBestInsertion(inProgress, newOrder);
+    const withNew: SequencedStop[] = [...stops];
+    withNew.splice(insertion.position, 0, { status: StopStatus.PENDING, orderId: newOrder.id, order: newOrder });
+    const { estimatedTimes } = await measureStops(inProgress, withNew);
+
+    const eta = estimatedTimes.get('new')!;
+    expect(Math.abs(eta.getTime() - insertion.estimatedTime.getTime())).toBeLessThan(1000);
+  });
+});
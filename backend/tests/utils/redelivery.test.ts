@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AttemptResult, OrderStatus, RedeliveryStatus, RouteStatus, StopStatus } from '@prisma/client';
+import { decideRedelivery, processFailedOrder } from '../../src/utils/redelivery';
+import { RetryPolicy } from '../../src/config/retryPolicy';
+
+const db = vi.hoisted(() => ({
+  order: { findUnique: vi.fn(), update: vi.fn() },
+  deliveryAttempt: { findFirst: vi.fn() },
+  routeStop: { update: vi.fn(), delete: vi.fn() },
+  $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+}));
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+vi.mock('../../src/config/socket', () => ({ emitEvent: vi.fn() }));
+
+const policy: RetryPolicy = {
+  maxAttempts: 3,
+  rules: {
+    FAILED_NO_ANSWER: { retry: true },
+    FAILED_REFUSED: { retry: true, maxAttempts: 2 },
+    FAILED_WRONG_ADDRESS: { retry: true, requiresAddressChange: true },
+    FAILED_OTHER: { retry: false },
+  },
+};
+
+describe('decideRedelivery', () => {
+  it('reschedules while attempts are left', () => {
+    expect(decideRedelivery(AttemptResult.FAILED_NO_ANSWER, 0, false, policy)).toBe(RedeliveryStatus.SCHEDULED);
+    expect(decideRedelivery(AttemptResult.FAILED_NO_ANSWER, 1, false, policy)).toBe(RedeliveryStatus.SCHEDULED);
+  });
+
+  it('returns to sender on the last attempt', () => {
+    expect(decideRedelivery(AttemptResult.FAILED_NO_ANSWER, 2, false, policy)).toBe(RedeliveryStatus.RETURN_TO_SENDER);
+  });
+
+  it('applies a rule-specific attempt limit', () => {
+    expect(decideRedelivery(AttemptResult.FAILED_REFUSED, 0, false, policy)).toBe(RedeliveryStatus.SCHEDULED);
+    expect(decideRedelivery(AttemptResult.FAILED_REFUSED, 1, false, policy)).toBe(RedeliveryStatus.RETURN_TO_SENDER);
+  });
+
+  it('waits for a corrected address when the rule needs one', () => {
+    expect(decideRedelivery(AttemptResult.FAILED_WRONG_ADDRESS, 0, false, policy)).toBe(RedeliveryStatus.AWAITING_ADDRESS);
+    expect(decideRedelivery(AttemptResult.FAILED_WRONG_ADDRESS, 0, true, policy)).toBe(RedeliveryStatus.SCHEDULED);
+  });
+
+  it('sends failures that are not retried to manual review', () => {
+    expect(decideRedelivery(AttemptResult.FAILED_OTHER, 0, false, policy)).toBe(RedeliveryStatus.MANUAL_REVIEW);
+  });
+});
+
+describe('processFailedOrder', () => {
+  const stop = {
+    id: 'stop-1',
+    routeId: 'route-1',
+    orderId: 'order-1',
+    status: StopStatus.FAILED,
+    reason: null as string | null,
+    createdAt: new Date('2026-10-19T07:00:00Z'),
+    route: { id: 'route-1', status: RouteStatus.PARTIAL },
+  };
+
+  const failedOrder = (overrides: object = {}) => ({
+    id: 'order-1',
+    orderNumber: 'ORD-1',
+    status: OrderStatus.FAILED,
+    redeliveryStatus: null,
+    redeliveryCount: 0,
+    routeStops: [stop],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T22:30:00Z'));
+    db.order.update.mockImplementation(({ data }) => Promise.resolve({ id: 'order-1', ...data }));
+    db.routeStop.update.mockImplementation(({ data }) => Promise.resolve({ ...stop, ...data }));
+    db.deliveryAttempt.findFirst.mockResolvedValue({
+      result: AttemptResult.FAILED_NO_ANSWER,
+      reason: 'Nobody home',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reschedules the order for the next UTC day and keeps its failed stop as a record', async () => {
+    db.order.findUnique.mockResolvedValue(failedOrder());
+
+    const outcome = await processFailedOrder('order-1');
+
+    expect(outcome).toEqual({
+      orderId: 'order-1',
+      orderNumber: 'ORD-1',
+      result: AttemptResult.FAILED_NO_ANSWER,
+      redeliveryStatus: RedeliveryStatus.SCHEDULED,
+    });
+    expect(db.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: {
+        status: OrderStatus.PENDING,
+        redeliveryStatus: RedeliveryStatus.SCHEDULED,
+        redeliveryCount: { increment: 1 },
+        scheduledDate: new Date('2026-10-20T00:00:00.000Z'),
+      },
+    });
+    expect(db.routeStop.delete).not.toHaveBeenCalled();
+    expect(db.routeStop.update).toHaveBeenCalledWith({
+      where: { id: 'stop-1' },
+      data: { detachedAt: new Date('2026-10-19T22:30:00Z'), reason: 'Nobody home' },
+    });
+  });
+
+  it('only counts attempts made on the current stop', async () => {
+    db.order.findUnique.mockResolvedValue(failedOrder());
+
+    await processFailedOrder('order-1');
+
+    expect(db.deliveryAttempt.findFirst).toHaveBeenCalledWith({
+      where: { orderId: 'order-1', attemptedAt: { gte: stop.createdAt } },
+      orderBy: { attemptedAt: 'desc' },
+    });
+  });
+
+  it('flags the order without touching its stop when it is not rescheduled', async () => {
+    db.order.findUnique.mockResolvedValue(failedOrder({ redeliveryCount: 2 }));
+
+    const outcome = await processFailedOrder('order-1');
+
+    expect(outcome?.redeliveryStatus).toBe(RedeliveryStatus.RETURN_TO_SENDER);
+    expect(db.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: { redeliveryStatus: RedeliveryStatus.RETURN_TO_SENDER },
+    });
+    expect(db.routeStop.update).not.toHaveBeenCalled();
+  });
+
+  it('waits until the route is finished', async () => {
+    db.order.findUnique.mockResolvedValue(
+      failedOrder({ routeStops: [{ ...stop, route: { id: 'route-1', status: RouteStatus.IN_PROGRESS } }] })
+    );
+
+    expect(await processFailedOrder('order-1')).toBeNull();
+    expect(db.order.update).not.toHaveBeenCalled();
+  });
+
+  it('leaves orders alone that are not failed or already with a dispatcher', async () => {
+    db.order.findUnique.mockResolvedValue(failedOrder({ status: OrderStatus.PENDING }));
+    expect(await processFailedOrder('order-1')).toBeNull();
+
+    db.order.findUnique.mockResolvedValue(failedOrder({ redeliveryStatus: RedeliveryStatus.MANUAL_REVIEW }));
+    expect(await processFailedOrder('order-1')).toBeNull();
+
+    expect(db.order.update).not.toHaveBeenCalled();
+  });
+});
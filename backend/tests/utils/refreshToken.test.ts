@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  issueRefreshToken,
+  revokeRefreshToken,
+  rotateRefreshToken,
+} from '../../src/utils/refreshToken';
+
+interface StoredToken {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  familyId: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  replacedById: string | null;
+}
+
+// In-memory stand-in for the refresh_tokens table
+const db = vi.hoisted(() => {
+  const tokens: StoredToken[] = [];
+  const users = new Map<string, { id: string; isActive: boolean; deletedAt: Date | null }>();
+
+  const matches = (token: StoredToken, where: Partial<StoredToken>) =>
+    Object.entries(where).every(([field, value]) => token[field as keyof StoredToken] === value);
+
+  return {
+    tokens,
+    users,
+    refreshToken: {
+      create: async ({ data }: { data: Omit<StoredToken, 'id' | 'revokedAt' | 'replacedById'> }) => {
+        const token = { ...data, id: `token-${tokens.length + 1}`, revokedAt: null, replacedById: null };
+        tokens.push(token);
+        return { ...token };
+      },
+      findUnique: async ({ where, include }: { where: { tokenHash: string }; include?: { user: true } }) => {
+        const token = tokens.find((stored) => stored.tokenHash === where.tokenHash);
+        if (!token) return null;
+        return include?.user ? { ...token, user: users.get(token.userId) } : { ...token };
+      },
+      updateMany: async ({ where, data }: { where: Partial<StoredToken>; data: Partial<StoredToken> }) => {
+        const matched = tokens.filter((token) => matches(token, where));
+        matched.forEach((token) => Object.assign(token, data));
+        return { count: matched.length };
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<StoredToken> }) => {
+        const token = tokens.find((stored) => stored.id === where.id)!;
+        return Object.assign(token, data);
+      },
+    },
+  };
+});
+
+vi.mock('../../src/config/database', () => ({ default: db }));
+
+const find = (id: string) => db.tokens.find((token) => token.id === id)!;
+
+describe('refresh token rotation', () => {
+  beforeEach(() => {
+    db.tokens.length = 0;
+    db.users.clear();
+    db.users.set('user-1', { id: 'user-1', isActive: true, deletedAt: null });
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores only a hash of the token', async () => {
+    const issued = await issueRefreshToken('user-1');
+
+    expect(find(issued.id).tokenHash).not.toBe(issued.token);
+    expect(find(issued.id).tokenHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('exchanges a token for a new one in the same family', async () => {
+    const first = await issueRefreshToken('user-1');
+
+    const result = await rotateRefreshToken(first.token);
+
+    expect(result.status).toBe('rotated');
+    if (result.status !== 'rotated') return;
+    expect(result.user.id).toBe('user-1');
+    expect(result.refreshToken.token).not.toBe(first.token);
+
+    const second = db.tokens[1];
+    expect(find(first.id).revokedAt).not.toBeNull();
+    expect(find(first.id).replacedById).toBe(second.id);
+    expect(second.familyId).toBe(find(first.id).familyId);
+    expect(second.revokedAt).toBeNull();
+  });
+
+  it('revokes the whole family when a rotated token is used again', async () => {
+    const first = await issueRefreshToken('user-1');
+    const rotated = await rotateRefreshToken(first.token);
+    if (rotated.status !== 'rotated') throw new Error('rotation failed');
+
+    vi.advanceTimersByTime(60 * 1000);
+
+    expect(await rotateRefreshToken(first.token)).toEqual({ status: 'reused' });
+    expect(db.tokens.every((token) => token.revokedAt !== null)).toBe(true);
+    expect(await rotateRefreshToken(rotated.refreshToken.token)).toEqual({ status: 'reused' });
+  });
+
+  it('rejects a token rotated moments ago without revoking its successor', async () => {
+    const first = await issueRefreshToken('user-1');
+    await rotateRefreshToken(first.token);
+
+    vi.advanceTimersByTime(2 * 1000);
+
+    expect(await rotateRefreshToken(first.token)).toEqual({ status: 'invalid' });
+    expect(db.tokens[1].revokedAt).toBeNull();
+  });
+
+  it('lets only one of two concurrent refreshes of the same token through', async () => {
+    const first = await issueRefreshToken('user-1');
+
+    const results = await Promise.all([rotateRefreshToken(first.token), rotateRefreshToken(first.token)]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['invalid', 'rotated']);
+    expect(db.tokens).toHaveLength(2);
+  });
+
+  it('rejects unknown and expired tokens and users who can no longer sign in', async () => {
+    expect(await rotateRefreshToken('not-a-token')).toEqual({ status: 'invalid' });
+
+    const expiring = await issueRefreshToken('user-1');
+    vi.setSystemTime(new Date(expiring.expiresAt.getTime() + 1));
+    expect(await rotateRefreshToken(expiring.token)).toEqual({ status: 'invalid' });
+
+    const deactivated = await issueRefreshToken('user-1');
+    db.users.set('user-1', { id: 'user-1', isActive: false, deletedAt: null });
+    expect(await rotateRefreshToken(deactivated.token)).toEqual({ status: 'invalid' });
+  });
+
+  it('revokes the family on logout', async () => {
+    const first = await issueRefreshToken('user-1');
+    const rotated = await rotateRefreshToken(first.token);
+    if (rotated.status !== 'rotated') throw new Error('rotation failed');
+
+    expect(await revokeRefreshToken(rotated.refreshToken.token)).toBe('user-1');
+    expect(db.tokens.every((token) => token.revokedAt !== null)).toBe(true);
+    expect(await revokeRefreshToken('not-a-token')).toBeNull();
+  });
+});
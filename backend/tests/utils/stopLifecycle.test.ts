@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { OrderStatus, StopStatus } from '@prisma/client';
+import {
+  canTransitionStop,
+  closingStopStatus,
+  isTerminalStopStatus,
+  orderStatusForStop,
+  shouldStampActualTime,
+} from '../../src/utils/stopLifecycle';
+
+describe('canTransitionStop', () => {
+  it('follows the delivery path', () => {
+    expect(canTransitionStop(StopStatus.PENDING, StopStatus.EN_ROUTE)).toBe(true);
+    expect(canTransitionStop(StopStatus.EN_ROUTE, StopStatus.ARRIVED)).toBe(true);
+    expect(canTransitionStop(StopStatus.ARRIVED, StopStatus.DELIVERED)).toBe(true);
+  });
+
+  it('does not skip steps or go back', () => {
+    expect(canTransitionStop(StopStatus.PENDING, StopStatus.DELIVERED)).toBe(false);
+    expect(canTransitionStop(StopStatus.PENDING, StopStatus.FAILED)).toBe(false);
+    expect(canTransitionStop(StopStatus.ARRIVED, StopStatus.EN_ROUTE)).toBe(false);
+    expect(canTransitionStop(StopStatus.ARRIVED, StopStatus.SKIPPED)).toBe(false);
+  });
+
+  it('never leaves a terminal status', () => {
+    for (const from of [StopStatus.DELIVERED, StopStatus.FAILED, StopStatus.SKIPPED]) {
+      expect(isTerminalStopStatus(from)).toBe(true);
+      for (const to of Object.values(StopStatus)) {
+        expect(canTransitionStop(from, to)).toBe(false);
+      }
+    }
+  });
+});
+
+describe('closingStopStatus', () => {
+  it('skips stops the driver never reached', () => {
+    expect(closingStopStatus(StopStatus.PENDING)).toBe(StopStatus.SKIPPED);
+    expect(closingStopStatus(StopStatus.EN_ROUTE)).toBe(StopStatus.SKIPPED);
+  });
+
+  it('fails a stop the driver arrived at', () => {
+    expect(closingStopStatus(StopStatus.ARRIVED)).toBe(StopStatus.FAILED);
+  });
+});
+
+describe('orderStatusForStop', () => {
+  it('maps every stop status to an order status', () => {
+    expect(orderStatusForStop(StopStatus.PENDING)).toBe(OrderStatus.ASSIGNED);
+    expect(orderStatusForStop(StopStatus.EN_ROUTE)).toBe(OrderStatus.IN_TRANSIT);
+    expect(orderStatusForStop(StopStatus.ARRIVED)).toBe(OrderStatus.IN_TRANSIT);
+    expect(orderStatusForStop(StopStatus.DELIVERED)).toBe(OrderStatus.DELIVERED);
+    expect(orderStatusForStop(StopStatus.FAILED)).toBe(OrderStatus.FAILED);
+    expect(orderStatusForStop(StopStatus.SKIPPED)).toBe(OrderStatus.FAILED);
+  });
+});
+
+describe('shouldStampActualTime', () => {
+  const arrivedAt = new Date('2026-10-20T10:00:00Z');
+
+  it('stamps arrival, even again', () => {
+    expect(shouldStampActualTime(StopStatus.ARRIVED, null)).toBe(true);
+    expect(shouldStampActualTime(StopStatus.ARRIVED, arrivedAt)).toBe(true);
+  });
+
+  it('keeps the arrival time when the stop is finished', () => {
+    expect(shouldStampActualTime(StopStatus.DELIVERED, arrivedAt)).toBe(false);
+    expect(shouldStampActualTime(StopStatus.FAILED, arrivedAt)).toBe(false);
+  });
+
+  it('stamps a finished stop that never arrived', () => {
+    expect(shouldStampActualTime(StopStatus.SKIPPED, null)).toBe(true);
+    expect(shouldStampActualTime(StopStatus.FAILED, null)).toBe(true);
+  });
+
+  it('does not stamp leaving for a stop', () => {
+    expect(shouldStampActualTime(StopStatus.EN_ROUTE, null)).toBe(false);
+  });
+});
@@ -6,12 +6,19 @@ import { store } from './store/store';
 import theme from './theme';
 import NotificationProvider from './components/common/NotificationProvider';
 import { useAppSelector } from './store/hooks';
+import type { Permission } from './types/api.types';
 
 // Lazy load components
 const Login = lazy(() => import('./features/auth/Login'));
+const ForgotPassword = lazy(() => import('./features/auth/ForgotPassword'));
+const ResetPassword = lazy(() => import('./features/auth/ResetPassword'));
 const Dashboard = lazy(() => import('./features/dashboard/Dashboard'));
 const OrderList = lazy(() => import('./features/orders/OrderList'));
 const DriverList = lazy(() => import('./features/drivers/DriverList'));
+const RouteList = lazy(() => import('./features/routes/RouteList'));
+const RouteDetails = lazy(() => import('./features/routes/RouteDetails'));
+const RouteTransfer = lazy(() => import('./features/routes/RouteTransfer'));
+const UserList = lazy(() => import('./features/users/UserList'));
 const MainLayout = lazy(() => import('./components/layout/MainLayout'));
 
 const LoadingFallback = () => (
@@ -32,6 +39,16 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
   return isAuthenticated ? <>{children}</> : <Navigate to="/login" replace />;
 };
 
+// Pages for some roles only; waits for the profile after a reload
+const PermissionRoute: React.FC<{ permission: Permission; children: React.ReactNode }> = ({
+  permission,
+  children,
+}) => {
+  const { user } = useAppSelector((state) => state.auth);
+  if (!user) return <LoadingFallback />;
+  return user.permissions?.includes(permission) ? <>{children}</> : <Navigate to="/dashboard" replace />;
+};
+
 function App() {
   return (
     <Provider store={store}>
@@ -42,6 +59,8 @@ function App() {
             <Suspense fallback={<LoadingFallback />}>
               <Routes>
                 <Route path="/login" element={<Login />} />
+                <Route path="/forgot-password" element={<ForgotPassword />} />
+                <Route path="/reset-password" element={<ResetPassword />} />
                 <Route
                   path="/*"
                   element={
@@ -51,6 +70,24 @@ function App() {
                           <Route path="/dashboard" element={<Dashboard />} />
                           <Route path="/orders" element={<OrderList />} />
                           <Route path="/drivers" element={<DriverList />} />
+                          <Route path="/routes" element={<RouteList />} />
+                          <Route
+                            path="/routes/transfer"
+                            element={
+                              <PermissionRoute permission="routes:write">
+                                <RouteTransfer />
+                              </PermissionRoute>
+                            }
+                          />
+                          <Route path="/routes/:id" element={<RouteDetails />} />
+                          <Route
+                            path="/users"
+                            element={
+                              <PermissionRoute permission="users:manage">
+                                <UserList />
+                              </PermissionRoute>
+                            }
+                          />
                           <Route path="/" element={<Navigate to="/dashboard" replace />} />
                         </Routes>
                       </MainLayout>
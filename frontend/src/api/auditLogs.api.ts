@@ -0,0 +1,28 @@
+import apiClient from './client';
+import type { AuditEntityType, AuditLog } from '../types/api.types';
+
+export interface AuditLogFilters {
+  userId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: string; // Comma-separated
+  from?: string;   // ISO date
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+export const auditLogsAPI = {
+  getAuditLogs: async (filters: AuditLogFilters = {}): Promise<{ auditLogs: AuditLog[]; total: number }> => {
+    const response = await apiClient.get<{ auditLogs: AuditLog[]; pagination: { total: number } }>('/audit-logs', {
+      params: filters,
+    });
+    return { auditLogs: response.data.auditLogs, total: response.data.pagination.total };
+  },
+
+  // Full history of one record, newest first
+  getEntityHistory: async (entityType: AuditEntityType, entityId: string): Promise<AuditLog[]> => {
+    const { auditLogs } = await auditLogsAPI.getAuditLogs({ entityType, entityId, limit: 100 });
+    return auditLogs;
+  },
+};
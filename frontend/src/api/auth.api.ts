@@ -1,5 +1,5 @@
 import apiClient from './client';
-import type { LoginRequest, LoginResponse } from '../types/api.types';
+import type { ChangePasswordRequest, LoginRequest, LoginResponse, User } from '../types/api.types';
 
 export const authAPI = {
   login: async (credentials: LoginRequest): Promise<LoginResponse> => {
@@ -7,7 +7,39 @@ export const authAPI = {
     return response.data;
   },
 
+  getProfile: async (): Promise<User> => {
+    const response = await apiClient.get<{ user: User }>('/auth/profile');
+    return response.data.user;
+  },
+
+  // Other sessions are signed out; this one continues with the new refresh token
+  changePassword: async (data: ChangePasswordRequest): Promise<void> => {
+    const response = await apiClient.post<{ refreshToken: string }>('/auth/change-password', data);
+    localStorage.setItem('refreshToken', response.data.refreshToken);
+  },
+
+  // Always resolves for a valid email, whether or not an account exists
+  forgotPassword: async (email: string): Promise<string> => {
+    const response = await apiClient.post<{ message: string }>('/auth/forgot-password', { email });
+    return response.data.message;
+  },
+
+  resetPassword: async (token: string, newPassword: string): Promise<string> => {
+    const response = await apiClient.post<{ message: string }>('/auth/reset-password', { token, newPassword });
+    return response.data.message;
+  },
+
+  // Revokes the refresh token; local tokens are cleared even if the API is unreachable
   logout: async (): Promise<void> => {
-    localStorage.removeItem('token');
+    const refreshToken = localStorage.getItem('refreshToken');
+
+    try {
+      if (refreshToken) await apiClient.post('/auth/logout', { refreshToken });
+    } catch {
+      // Unrevoked tokens still expire on their own
+    } finally {
+      localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
+    }
   },
 };
\ No newline at end of file
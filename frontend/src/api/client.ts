@@ -1,6 +1,7 @@
 import axios, { AxiosError } from 'axios';
 
-import type { AxiosInstance } from 'axios';
+import type { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import type { RefreshResponse } from '../types/api.types';
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5001/api';
 
 // Create axios instance
@@ -24,15 +25,67 @@ apiClient.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
-// Response interceptor - Handle errors
+const endSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  window.location.href = '/login';
+};
+
+// One refresh at a time; requests that fail meanwhile wait for it
+let refreshRequest: Promise<string> | null = null;
+
+export const refreshAccessToken = (): Promise<string> => {
+  refreshRequest ??= (async () => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (!refreshToken) throw new Error('No refresh token');
+
+    // Plain axios so a failed refresh does not come back through the interceptor
+    const response = await axios.post<RefreshResponse>(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+    localStorage.setItem('token', response.data.token);
+    localStorage.setItem('refreshToken', response.data.refreshToken);
+    return response.data.token;
+  })().finally(() => {
+    refreshRequest = null;
+  });
+
+  return refreshRequest;
+};
+
+// Response interceptor - Refresh an expired access token and retry once
 apiClient.interceptors.response.use(
   (response) => response,
-  (error: AxiosError) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      window.location.href = '/login';
+  async (error: AxiosError) => {
+    const request = error.config as (InternalAxiosRequestConfig & { retried?: boolean }) | undefined;
+
+    // Wrong credentials on the login form are not an expired session
+    if (error.response?.status !== 401 || !request || request.url?.startsWith('/auth/login')) {
+      return Promise.reject(error);
+    }
+
+    if (request.retried) {
+      endSession();
+      return Promise.reject(error);
+    }
+
+    const usedRefreshToken = localStorage.getItem('refreshToken');
+
+    try {
+      const token = await refreshAccessToken();
+      request.retried = true;
+      request.headers.Authorization = `Bearer ${token}`;
+      return apiClient(request);
+    } catch {
+      // Another tab may have rotated the refresh token first
+      const token = localStorage.getItem('token');
+      if (token && localStorage.getItem('refreshToken') !== usedRefreshToken) {
+        request.retried = true;
+        request.headers.Authorization = `Bearer ${token}`;
+        return apiClient(request);
+      }
+
+      endSession();
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
   }
 );
 
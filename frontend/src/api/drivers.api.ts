@@ -0,0 +1,29 @@
+import apiClient from './client';
+import type { Driver, FleetDriver } from '../types/api.types';
+
+interface FleetLocationsResponse {
+  drivers: (Pick<Driver, 'id' | 'name' | 'status' | 'vehicleType' | 'lastLatitude' | 'lastLongitude' | 'lastLocationAt'> & {
+    routes: { id: string; routeNumber: string }[];
+  })[];
+}
+
+export const driversAPI = {
+  getDrivers: async (params: { isActive?: boolean; status?: Driver['status']; limit?: number } = {}): Promise<Driver[]> => {
+    const response = await apiClient.get<{ drivers: Driver[] }>('/drivers', { params });
+    return response.data.drivers;
+  },
+
+  getFleetLocations: async (): Promise<FleetDriver[]> => {
+    const response = await apiClient.get<FleetLocationsResponse>('/drivers/locations/live');
+    return response.data.drivers.map((driver) => ({
+      id: driver.id,
+      name: driver.name,
+      status: driver.status,
+      vehicleType: driver.vehicleType,
+      latitude: Number(driver.lastLatitude),
+      longitude: Number(driver.lastLongitude),
+      recordedAt: driver.lastLocationAt!,
+      routeId: driver.routes[0]?.id ?? null,
+    }));
+  },
+};
@@ -0,0 +1,59 @@
+import apiClient from './client';
+import type { Order } from '../types/api.types';
+
+export interface AddressInput {
+  address: string;
+  addressLine2?: string | null;
+  city: string;
+  postalCode: string;
+  country?: string | null;
+}
+
+export interface AddressValidation {
+  normalized: Required<AddressInput>;
+  errors: string[];   // Address is rejected
+  warnings: string[]; // Accepted, but worth checking
+}
+
+export interface ReverseGeocodeResult {
+  address: string | null;
+  city: string | null;
+  postalCode: string | null;
+  country: string | null;
+  displayName: string;
+  source: 'NOMINATIM' | 'POSTAL_CODE';
+}
+
+export const ordersAPI = {
+  getOrders: async (
+    params: { status?: Order['status']; search?: string; page?: number; limit?: number } = {}
+  ): Promise<Order[]> => {
+    const response = await apiClient.get<{ orders: Order[] }>('/orders', { params });
+    return response.data.orders;
+  },
+
+  validateAddress: async (address: AddressInput): Promise<AddressValidation> => {
+    const response = await apiClient.post<AddressValidation>('/orders/address/validate', address);
+    return response.data;
+  },
+
+  reverseGeocode: async (latitude: number, longitude: number): Promise<ReverseGeocodeResult | null> => {
+    const response = await apiClient.get<{ location: ReverseGeocodeResult | null }>('/orders/address/reverse', {
+      params: { latitude, longitude },
+    });
+    return response.data.location;
+  },
+
+  // Manual pin correction; warnings flag pins far from the postal code area
+  correctLocation: async (
+    id: string,
+    latitude: number,
+    longitude: number
+  ): Promise<{ order: Order; warnings: string[] }> => {
+    const response = await apiClient.patch<{ order: Order; warnings: string[] }>(`/orders/${id}/location`, {
+      latitude,
+      longitude,
+    });
+    return response.data;
+  },
+};
@@ -0,0 +1,163 @@
+import apiClient from './client';
+import type {
+  OptimizeRouteOptions,
+  Pagination,
+  Route,
+  RouteFilters,
+  RouteInsertion,
+  RouteOptimization,
+  RouteRecommendations,
+  RouteResequence,
+} from '../types/api.types';
+
+export interface RouteInput {
+  driverId: string;
+  date?: string; // ISO date-time
+  notes?: string | null;
+  depotId?: string | null; // Defaults to the driver's home depot
+  returnToDepot?: boolean;
+}
+
+export interface AssignOrdersResult {
+  success: number;
+  failed: number;
+  errors: { orderId: string; error: string }[];
+}
+
+export const routesAPI = {
+  getRoutes: async (filters: RouteFilters = {}): Promise<{ routes: Route[]; pagination: Pagination }> => {
+    const response = await apiClient.get<{ routes: Route[]; pagination: Pagination }>('/routes', {
+      params: filters,
+    });
+    return response.data;
+  },
+
+  getRoute: async (id: string): Promise<Route> => {
+    const response = await apiClient.get<{ route: Route }>(`/routes/${id}`);
+    return response.data.route;
+  },
+
+  createRoute: async (data: RouteInput): Promise<Route> => {
+    const response = await apiClient.post<{ route: Route }>('/routes', data);
+    return response.data.route;
+  },
+
+  updateRoute: async (id: string, data: Partial<RouteInput>): Promise<Route> => {
+    const response = await apiClient.put<{ route: Route }>(`/routes/${id}`, data);
+    return response.data.route;
+  },
+
+  deleteRoute: async (id: string): Promise<void> => {
+    await apiClient.delete(`/routes/${id}`);
+  },
+
+  assignOrders: async (id: string, orderIds: string[]): Promise<AssignOrdersResult> => {
+    const response = await apiClient.post<{ results: AssignOrdersResult }>(`/routes/${id}/assign-orders`, {
+      orderIds,
+    });
+    return response.data.results;
+  },
+
+  // Puts each order where it adds the least time among the stops not yet started
+  insertOrders: async (
+    id: string,
+    orderIds: string[],
+    timeWindowMode: 'hard' | 'soft' = 'soft'
+  ): Promise<{ results: AssignOrdersResult; insertions: (RouteInsertion & { orderId: string; sequence: number })[] }> => {
+    const response = await apiClient.post<{
+      results: AssignOrdersResult;
+      insertions: (RouteInsertion & { orderId: string; sequence: number })[];
+    }>(`/routes/${id}/assign-orders`, { orderIds, insertion: 'best', timeWindowMode });
+    return response.data;
+  },
+
+  // Open routes of the day ranked by the cost of adding the order
+  getRecommendations: async (
+    orderId: string,
+    params: { date?: string; timeWindowMode?: 'hard' | 'soft' } = {}
+  ): Promise<RouteRecommendations> => {
+    const response = await apiClient.get<RouteRecommendations>('/routes/recommendations', {
+      params: { orderId, ...params },
+    });
+    return response.data;
+  },
+
+  // Re-sequences the stops; the summary compares distance before and after
+  optimizeRoute: async (
+    id: string,
+    options: OptimizeRouteOptions = {}
+  ): Promise<{ route: Route; optimization: RouteOptimization }> => {
+    const response = await apiClient.post<{ route: Route; optimization: RouteOptimization }>(
+      `/routes/${id}/optimize`,
+      options
+    );
+    return response.data;
+  },
+
+  // Dispatcher's own stop order; preview recalculates the totals without saving
+  previewSequence: async (id: string, stopIds: string[]): Promise<RouteResequence> => {
+    const response = await apiClient.put<{ preview: RouteResequence }>(`/routes/${id}/sequence`, {
+      stopIds,
+      preview: true,
+    });
+    return response.data.preview;
+  },
+
+  resequenceRoute: async (id: string, stopIds: string[]): Promise<{ route: Route; resequence: RouteResequence }> => {
+    const response = await apiClient.put<{ route: Route; resequence: RouteResequence }>(`/routes/${id}/sequence`, {
+      stopIds,
+    });
+    return response.data;
+  },
+
+  // Orders of unassigned stops go back to PENDING
+  unassignStops: async (id: string, stopIds: string[]): Promise<Route> => {
+    const response = await apiClient.post<{ route: Route }>(`/routes/${id}/stops/unassign`, { stopIds });
+    return response.data.route;
+  },
+
+  moveStops: async (
+    id: string,
+    stopIds: string[],
+    targetRouteId: string
+  ): Promise<{ route: Route; targetRoute: Route }> => {
+    const response = await apiClient.post<{ route: Route; targetRoute: Route }>(`/routes/${id}/stops/move`, {
+      stopIds,
+      targetRouteId,
+    });
+    return response.data;
+  },
+
+  swapStops: async (
+    id: string,
+    stopIds: string[],
+    targetRouteId: string,
+    targetStopIds: string[]
+  ): Promise<{ route: Route; targetRoute: Route }> => {
+    const response = await apiClient.post<{ route: Route; targetRoute: Route }>(`/routes/${id}/stops/swap`, {
+      stopIds,
+      targetRouteId,
+      targetStopIds,
+    });
+    return response.data;
+  },
+
+  startRoute: async (id: string): Promise<Route> => {
+    const response = await apiClient.patch<{ route: Route }>(`/routes/${id}/start`);
+    return response.data.route;
+  },
+
+  // Stops without an outcome are closed as skipped or failed; the route ends COMPLETED or PARTIAL
+  completeRoute: async (id: string, reason?: string): Promise<{ route: Route; message: string }> => {
+    const response = await apiClient.patch<{ route: Route; message: string }>(`/routes/${id}/complete`, {
+      reason,
+    });
+    return response.data;
+  },
+
+  // Orders not yet delivered or attempted go back to PENDING
+  cancelRoute: async (id: string, reason: string): Promise<{ route: Route; message: string }> => {
+    const response = await apiClient.patch<{ route: Route; message: string }>(`/routes/${id}/cancel`, { reason });
+    return response.data;
+  },
+};
@@ -0,0 +1,30 @@
+import apiClient from './client';
+import type { User } from '../types/api.types';
+
+export interface InviteUserRequest {
+  email: string;
+  name: string;
+  role: User['role'];
+}
+
+export const usersAPI = {
+  getUsers: async (): Promise<User[]> => {
+    const response = await apiClient.get<{ users: User[] }>('/users');
+    return response.data.users;
+  },
+
+  // The temporary password is only returned here; it cannot be fetched again
+  inviteUser: async (data: InviteUserRequest): Promise<{ user: User; temporaryPassword: string }> => {
+    const response = await apiClient.post<{ user: User; temporaryPassword: string }>('/users', data);
+    return response.data;
+  },
+
+  updateUser: async (id: string, data: Partial<Pick<User, 'name' | 'role' | 'isActive'>>): Promise<User> => {
+    const response = await apiClient.put<{ user: User }>(`/users/${id}`, data);
+    return response.data.user;
+  },
+
+  deleteUser: async (id: string): Promise<void> => {
+    await apiClient.delete(`/users/${id}`);
+  },
+};
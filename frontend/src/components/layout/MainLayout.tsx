@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Drawer,
@@ -22,12 +22,16 @@ import {
   Assignment as OrderIcon,
   People as DriverIcon,
   Route as RouteIcon,
+  ManageAccounts as UsersIcon,
   Logout,
   AccountCircle,
+  LockReset,
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '../../store/hooks';
-import { logout } from '../../features/auth/authSlice';
+import { fetchProfile, logout } from '../../features/auth/authSlice';
+import { usePermission } from '../../features/auth/usePermission';
+import ChangePasswordDialog from '../../features/auth/ChangePasswordDialog';
 
 const DRAWER_WIDTH = 240;
 
@@ -39,16 +43,24 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
   const navigate = useNavigate();
   const location = useLocation();
   const dispatch = useAppDispatch();
-  const { user } = useAppSelector((state) => state.auth);
+  const { user, token } = useAppSelector((state) => state.auth);
+  const canManageUsers = usePermission('users:manage');
+
+  // Only the token survives a reload; fetch who is signed in
+  useEffect(() => {
+    if (token && !user) dispatch(fetchProfile());
+  }, [dispatch, token, user]);
   
   const [mobileOpen, setMobileOpen] = useState(false);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [changePasswordOpen, setChangePasswordOpen] = useState(false);
 
   const menuItems = [
     { text: 'Dashboard', icon: <DashboardIcon />, path: '/dashboard' },
     { text: 'Orders', icon: <OrderIcon />, path: '/orders' },
     { text: 'Drivers', icon: <DriverIcon />, path: '/drivers' },
     { text: 'Routes', icon: <RouteIcon />, path: '/routes' },
+    ...(canManageUsers ? [{ text: 'Users', icon: <UsersIcon />, path: '/users' }] : []),
   ];
 
   const handleDrawerToggle = () => {
@@ -80,7 +92,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
         {menuItems.map((item) => (
           <ListItem key={item.text} disablePadding>
             <ListItemButton
-              selected={location.pathname === item.path}
+              selected={location.pathname.startsWith(item.path)}
               onClick={() => {
                 navigate(item.path);
                 setMobileOpen(false);
@@ -114,7 +126,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
             <MenuIcon />
           </IconButton>
           <Typography variant="h6" noWrap component="div" sx={{ flexGrow: 1 }}>
-            {menuItems.find(item => item.path === location.pathname)?.text || 'SwiftRoute'}
+            {menuItems.find(item => location.pathname.startsWith(item.path))?.text || 'SwiftRoute'}
           </Typography>
           <IconButton color="inherit" onClick={handleMenuOpen}>
             <Avatar sx={{ width: 32, height: 32 }}>
@@ -132,11 +144,21 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
               {user?.email}
             </MenuItem>
             <Divider />
+            <MenuItem
+              onClick={() => {
+                handleMenuClose();
+                setChangePasswordOpen(true);
+              }}
+            >
+              <LockReset sx={{ mr: 1 }} />
+              Change Password
+            </MenuItem>
             <MenuItem onClick={handleLogout}>
               <Logout sx={{ mr: 1 }} />
               Logout
             </MenuItem>
           </Menu>
+          <ChangePasswordDialog open={changePasswordOpen} onClose={() => setChangePasswordOpen(false)} />
         </Toolbar>
       </AppBar>
       <Box
@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import { Marker, Popup } from 'react-leaflet';
+import { divIcon } from 'leaflet';
+import { Typography } from '@mui/material';
+import { formatDistanceToNow } from 'date-fns';
+import type { FleetDriver } from '../../types/api.types';
+import { useFleetLocations } from '../../hooks/useFleetLocations';
+
+interface FleetLayerProps {
+  driverIds?: string[]; // Only show these drivers
+}
+
+const statusColors: Record<FleetDriver['status'], string> = {
+  AVAILABLE: '#4caf50',
+  ON_ROUTE: '#2196f3',
+  OFF_DUTY: '#9e9e9e',
+  UNAVAILABLE: '#f44336',
+};
+
+// Round marker with an arrow pointing along the driver's heading
+const createDriverIcon = (driver: FleetDriver) => divIcon({
+  className: '',
+  html: `
+    <div style="
+      width: 24px;
+      height: 24px;
+      border-radius: 50%;
+      background: ${statusColors[driver.status]};
+      border: 2px solid white;
+      box-shadow: 0 0 4px rgba(0, 0, 0, 0.4);
+      color: white;
+      font-size: 12px;
+      line-height: 20px;
+      text-align: center;
+      transform: rotate(${driver.heading ?? 0}deg);
+    ">${driver.heading != null ? '▲' : '●'}</div>
+  `,
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+  popupAnchor: [0, -12],
+});
+
+const FleetLayer: React.FC<FleetLayerProps> = ({ driverIds }) => {
+  const fleet = useFleetLocations();
+
+  const visibleDrivers = useMemo(
+    () => (driverIds ? fleet.filter(d => driverIds.includes(d.id)) : fleet),
+    [fleet, driverIds]
+  );
+
+  return (
+    <>
+      {visibleDrivers.map((driver) => (
+        <Marker
+          key={driver.id}
+          position={[driver.latitude, driver.longitude]}
+          icon={createDriverIcon(driver)}
+          zIndexOffset={1000}
+        >
+          <Popup>
+            <Typography variant="subtitle2">{driver.name}</Typography>
+            <Typography variant="body2">
+              <strong>Status:</strong> {driver.status.replace('_', ' ')}
+            </Typography>
+            <Typography variant="body2">
+              <strong>Vehicle:</strong> {driver.vehicleType}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              Updated {formatDistanceToNow(new Date(driver.recordedAt), { addSuffix: true })}
+            </Typography>
+          </Popup>
+        </Marker>
+      ))}
+    </>
+  );
+};
+
+export default FleetLayer;
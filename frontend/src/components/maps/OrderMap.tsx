@@ -3,12 +3,16 @@ import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
 import { LatLngExpression, Icon } from 'leaflet';
 import { Order } from '../../types/api.types';
 import { Box, Chip } from '@mui/material';
+import FleetLayer from './FleetLayer';
 
 interface OrderMapProps {
   orders: Order[];
   center?: LatLngExpression;
   zoom?: number;
   height?: string;
+  showFleet?: boolean; // Live driver positions
+  draggable?: boolean; // Let markers be moved to correct a location
+  onMarkerDragEnd?: (order: Order, latitude: number, longitude: number) => void;
 }
 
 // Custom marker icons
@@ -50,6 +54,9 @@ const OrderMap: React.FC<OrderMapProps> = ({
   center = [43.6532, -79.3832], // Toronto
   zoom = 12,
   height = '500px',
+  showFleet = false,
+  draggable = false,
+  onMarkerDragEnd,
 }) => {
   const validOrders = useMemo(
     () => orders.filter(o => o.latitude && o.longitude),
@@ -83,11 +90,20 @@ const OrderMap: React.FC<OrderMapProps> = ({
         
         <FitBounds orders={validOrders} />
 
+        {showFleet && <FleetLayer />}
+
         {validOrders.map((order) => (
           <Marker
             key={order.id}
             position={[order.latitude!, order.longitude!]}
             icon={statusIcons[order.status]}
+            draggable={draggable}
+            eventHandlers={{
+              dragend: (event) => {
+                const { lat, lng } = event.target.getLatLng();
+                onMarkerDragEnd?.(order, lat, lng);
+              },
+            }}
           >
             <Popup>
               <Box sx={{ minWidth: 200 }}>
@@ -1,18 +1,46 @@
 import React from 'react';
 import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from 'react-leaflet';
-import { LatLngExpression } from 'leaflet';
+import { LatLngExpression, divIcon } from 'leaflet';
 import { Route, RouteStop } from '../../types/api.types';
 import { Box, Typography, Chip } from '@mui/material';
+import FleetLayer from './FleetLayer';
 
 interface RouteMapProps {
   route: Route;
   height?: string;
+  showDriver?: boolean; // Live position of the route's driver
 }
 
+const depotIcon = divIcon({
+  className: '',
+  html: `
+    <div style="
+      width: 28px;
+      height: 28px;
+      border-radius: 4px;
+      background: #37474f;
+      border: 2px solid white;
+      box-shadow: 0 0 4px rgba(0, 0, 0, 0.4);
+      font-size: 16px;
+      line-height: 24px;
+      text-align: center;
+    ">🏭</div>
+  `,
+  iconSize: [28, 28],
+  iconAnchor: [14, 14],
+  popupAnchor: [0, -14],
+});
+
 const FitRouteBounds: React.FC<{ stops: RouteStop[] }> = ({ stops }) => {
   const map = useMap();
+  const fittedStops = React.useRef<string | null>(null);
 
   React.useEffect(() => {
+    // Reordering the same stops keeps the current view
+    const stopsKey = stops.map(s => s.id).sort().join(',');
+    if (fittedStops.current === stopsKey) return;
+    fittedStops.current = stopsKey;
+
     const validStops = stops.filter(s => s.order.latitude && s.order.longitude);
     if (validStops.length > 0) {
       const bounds = validStops.map(s => 
@@ -25,21 +53,32 @@ const FitRouteBounds: React.FC<{ stops: RouteStop[] }> = ({ stops }) => {
   return null;
 };
 
-const RouteMap: React.FC<RouteMapProps> = ({ route, height = '600px' }) => {
+const RouteMap: React.FC<RouteMapProps> = ({ route, height = '600px', showDriver = true }) => {
   const routeStops = route.stops
     .filter(s => s.order.latitude && s.order.longitude)
     .sort((a, b) => a.sequence - b.sequence);
 
-  const routeLine: LatLngExpression[] = routeStops.map(stop => 
-    [stop.order.latitude!, stop.order.longitude!]
-  );
+  const depotPosition: LatLngExpression | null = route.depot
+    ? [Number(route.depot.latitude), Number(route.depot.longitude)]
+    : null;
+
+  // Depot → stops (→ depot when the route returns)
+  const routeLine: LatLngExpression[] = [
+    ...(depotPosition ? [depotPosition] : []),
+    ...routeStops.map(stop => 
+      [stop.order.latitude!, stop.order.longitude!] as LatLngExpression
+    ),
+    ...(depotPosition && route.returnToDepot ? [depotPosition] : []),
+  ];
 
   const getStopColor = (status: RouteStop['status']) => {
     const colors = {
       PENDING: '#ff9800',
       EN_ROUTE: '#2196f3',
+      ARRIVED: '#9c27b0',
       DELIVERED: '#4caf50',
       FAILED: '#f44336',
+      SKIPPED: '#9e9e9e',
     };
     return colors[status];
   };
@@ -59,6 +98,8 @@ const RouteMap: React.FC<RouteMapProps> = ({ route, height = '600px' }) => {
 
         <FitRouteBounds stops={route.stops} />
 
+        {showDriver && <FleetLayer driverIds={[route.driverId]} />}
+
         {/* Draw route line */}
         {routeLine.length > 1 && (
           <Polyline
@@ -72,6 +113,25 @@ const RouteMap: React.FC<RouteMapProps> = ({ route, height = '600px' }) => {
           />
         )}
 
+        {/* Depot marker */}
+        {route.depot && depotPosition && (
+          <Marker position={depotPosition} icon={depotIcon}>
+            <Popup>
+              <Typography variant="h6" gutterBottom>
+                {route.depot.name}
+              </Typography>
+              <Typography variant="body2">
+                <strong>Address:</strong> {route.depot.address}
+              </Typography>
+              {route.depot.operatingHours && (
+                <Typography variant="body2">
+                  <strong>Hours:</strong> {route.depot.operatingHours}
+                </Typography>
+              )}
+            </Popup>
+          </Marker>
+        )}
+
         {/* Markers for each stop */}
         {routeStops.map((stop, index) => (
           <Marker
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  Divider,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { auditLogsAPI } from '../../api/auditLogs.api';
+import type { AuditEntityType, AuditLog } from '../../types/api.types';
+import { usePermission } from '../auth/usePermission';
+
+interface EntityHistoryProps {
+  entityType: AuditEntityType;
+  entityId: string;
+  refreshKey?: unknown; // Reload when this changes (e.g. the record's updatedAt)
+}
+
+const formatValue = (value: unknown): string =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// ORDER_LOCATION_CORRECTED -> Order location corrected
+const formatAction = (action: string): string => {
+  const words = action.toLowerCase().split('_').join(' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const describeEntry = (entry: AuditLog): string[] => {
+  const changes = entry.details?.changes;
+  if (changes) {
+    return Object.entries(changes).map(
+      ([field, change]) => `${field}: ${formatValue(change.from)} → ${formatValue(change.to)}`
+    );
+  }
+
+  if (entry.details?.reason) return [`Reason: ${formatValue(entry.details.reason)}`];
+  return [];
+};
+
+// Who changed what on one record (needs audit:read)
+const EntityHistory: React.FC<EntityHistoryProps> = ({ entityType, entityId, refreshKey }) => {
+  const canView = usePermission('audit:read');
+
+  const [entries, setEntries] = useState<AuditLog[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!canView) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    auditLogsAPI
+      .getEntityHistory(entityType, entityId)
+      .then((logs) => {
+        if (!cancelled) setEntries(logs);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canView, entityType, entityId, refreshKey]);
+
+  if (!canView) return null;
+
+  return (
+    <Box>
+      <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+        History
+      </Typography>
+
+      {loading && <CircularProgress size={20} />}
+      {error && <Alert severity="error">{error}</Alert>}
+      {!loading && !error && entries.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No changes recorded yet.
+        </Typography>
+      )}
+
+      <List dense disablePadding>
+        {entries.map((entry, index) => (
+          <React.Fragment key={entry.id}>
+            {index > 0 && <Divider component="li" />}
+            <ListItem alignItems="flex-start" disableGutters>
+              <ListItemText
+                primary={formatAction(entry.action)}
+                secondary={
+                  <>
+                    {format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm')} · {entry.user?.name ?? 'System'}
+                    {describeEntry(entry).map((line) => (
+                      <Box component="span" key={line} sx={{ display: 'block' }}>
+                        {line}
+                      </Box>
+                    ))}
+                  </>
+                }
+              />
+            </ListItem>
+          </React.Fragment>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default EntityHistory;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import type { AxiosError } from 'axios';
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { authAPI } from '../../api/auth.api';
+import { newPasswordSchema, PASSWORD_HINT } from './passwordSchema';
+import toast from 'react-hot-toast';
+
+const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'Current password is required'),
+    newPassword: newPasswordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ChangePasswordDialog: React.FC<ChangePasswordDialogProps> = ({ open, onClose }) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+  });
+
+  const handleClose = () => {
+    reset();
+    setError(null);
+    onClose();
+  };
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await authAPI.changePassword({ currentPassword: data.currentPassword, newPassword: data.newPassword });
+      toast.success('Password changed. Other sessions have been signed out.');
+      handleClose();
+    } catch (err) {
+      setError((err as AxiosError<{ error?: string }>).response?.data?.error || 'Failed to change password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogTitle>Change Password</DialogTitle>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 1 }}>{error}</Alert>}
+
+          <TextField
+            {...register('currentPassword')}
+            label="Current Password"
+            type="password"
+            fullWidth
+            margin="normal"
+            error={!!errors.currentPassword}
+            helperText={errors.currentPassword?.message}
+          />
+          <TextField
+            {...register('newPassword')}
+            label="New Password"
+            type="password"
+            fullWidth
+            margin="normal"
+            error={!!errors.newPassword}
+            helperText={errors.newPassword?.message ?? PASSWORD_HINT}
+          />
+          <TextField
+            {...register('confirmPassword')}
+            label="Confirm New Password"
+            type="password"
+            fullWidth
+            margin="normal"
+            error={!!errors.confirmPassword}
+            helperText={errors.confirmPassword?.message}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={loading}>
+            {loading ? <CircularProgress size={20} /> : 'Change Password'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default ChangePasswordDialog;
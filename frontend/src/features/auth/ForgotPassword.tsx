@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Link as RouterLink } from 'react-router-dom';
+import type { AxiosError } from 'axios';
+import {
+  Box,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  CircularProgress,
+  Link,
+} from '@mui/material';
+import { authAPI } from '../../api/auth.api';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+const ForgotPassword: React.FC = () => {
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { register, handleSubmit, formState: { errors } } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSent(await authAPI.forgotPassword(data.email));
+    } catch (err) {
+      setError((err as AxiosError<{ error?: string }>).response?.data?.error || 'Failed to request password reset');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', bgcolor: '#f5f5f5' }}>
+      <Card sx={{ maxWidth: 400, width: '100%', mx: 2 }}>
+        <CardContent sx={{ p: 4 }}>
+          <Typography variant="h5" gutterBottom textAlign="center">
+            Forgot Password
+          </Typography>
+          <Typography variant="body2" color="text.secondary" textAlign="center" mb={3}>
+            Enter your email and we'll send you a link to reset your password.
+          </Typography>
+
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+          {sent ? (
+            <Alert severity="success">{sent}</Alert>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)}>
+              <TextField
+                {...register('email')}
+                label="Email"
+                fullWidth
+                margin="normal"
+                error={!!errors.email}
+                helperText={errors.email?.message}
+              />
+              <Button type="submit" variant="contained" fullWidth size="large" sx={{ mt: 3 }} disabled={loading}>
+                {loading ? <CircularProgress size={24} /> : 'Send Reset Link'}
+              </Button>
+            </form>
+          )}
+
+          <Typography variant="body2" textAlign="center" mt={2}>
+            <Link component={RouterLink} to="/login">
+              Back to sign in
+            </Link>
+          </Typography>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default ForgotPassword;
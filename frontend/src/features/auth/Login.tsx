@@ -4,7 +4,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useAppDispatch, useAppSelector } from '../../store/hooks';
 import { login } from './authSlice';
-import { useNavigate } from 'react-router-dom';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
 import {
   Box,
   Card,
@@ -14,6 +14,7 @@ import {
   Typography,
   Alert,
   CircularProgress,
+  Link,
 } from '@mui/material';
 
 const loginSchema = z.object({
@@ -75,6 +76,12 @@ const Login: React.FC = () => {
             </Button>
           </form>
 
+          <Typography variant="body2" textAlign="center" mt={2}>
+            <Link component={RouterLink} to="/forgot-password">
+              Forgot password?
+            </Link>
+          </Typography>
+
           <Typography variant="caption" color="text.secondary" display="block" mt={2} textAlign="center">
             Default: admin@swiftroute.com / admin123
           </Typography>
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Link as RouterLink, useSearchParams } from 'react-router-dom';
+import type { AxiosError } from 'axios';
+import {
+  Box,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  CircularProgress,
+  Link,
+} from '@mui/material';
+import { authAPI } from '../../api/auth.api';
+import { newPasswordSchema, PASSWORD_HINT } from './passwordSchema';
+
+const resetPasswordSchema = z
+  .object({
+    newPassword: newPasswordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+// Landing page for the emailed link (/reset-password?token=...)
+const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { register, handleSubmit, formState: { errors } } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    if (!token) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setDone(await authAPI.resetPassword(token, data.newPassword));
+    } catch (err) {
+      setError((err as AxiosError<{ error?: string }>).response?.data?.error || 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', bgcolor: '#f5f5f5' }}>
+      <Card sx={{ maxWidth: 400, width: '100%', mx: 2 }}>
+        <CardContent sx={{ p: 4 }}>
+          <Typography variant="h5" gutterBottom textAlign="center" mb={3}>
+            Choose a New Password
+          </Typography>
+
+          {!token ? (
+            <Alert severity="error">
+              This reset link is incomplete. <Link component={RouterLink} to="/forgot-password">Request a new one</Link>.
+            </Alert>
+          ) : done ? (
+            <Alert severity="success">{done}</Alert>
+          ) : (
+            <>
+              {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+              <form onSubmit={handleSubmit(onSubmit)}>
+                <TextField
+                  {...register('newPassword')}
+                  label="New Password"
+                  type="password"
+                  fullWidth
+                  margin="normal"
+                  error={!!errors.newPassword}
+                  helperText={errors.newPassword?.message ?? PASSWORD_HINT}
+                />
+                <TextField
+                  {...register('confirmPassword')}
+                  label="Confirm Password"
+                  type="password"
+                  fullWidth
+                  margin="normal"
+                  error={!!errors.confirmPassword}
+                  helperText={errors.confirmPassword?.message}
+                />
+                <Button type="submit" variant="contained" fullWidth size="large" sx={{ mt: 3 }} disabled={loading}>
+                  {loading ? <CircularProgress size={24} /> : 'Reset Password'}
+                </Button>
+              </form>
+            </>
+          )}
+
+          <Typography variant="body2" textAlign="center" mt={2}>
+            <Link component={RouterLink} to="/login">
+              Back to sign in
+            </Link>
+          </Typography>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default ResetPassword;
@@ -24,6 +24,7 @@ export const login = createAsyncThunk(
     try {
       const response = await authAPI.login(credentials);
       localStorage.setItem('token', response.token);
+      localStorage.setItem('refreshToken', response.refreshToken);
       return response;
     } catch (error: unknown) {
       if (axios.isAxiosError(error)) {
@@ -35,6 +36,14 @@ export const login = createAsyncThunk(
   }
 );
 
+// Current user and permissions, e.g. after a page reload
+export const fetchProfile = createAsyncThunk('auth/fetchProfile', async (_, { rejectWithValue }) => {
+  try {
+    return await authAPI.getProfile();
+  } catch {
+    return rejectWithValue('Failed to load profile');
+  }
+});
 
 export const logout = createAsyncThunk('auth/logout', async () => {
   await authAPI.logout();
@@ -64,6 +73,9 @@ const authSlice = createSlice({
         state.loading = false;
         state.error = action.payload as string;
       })
+      .addCase(fetchProfile.fulfilled, (state, action: PayloadAction<User>) => {
+        state.user = action.payload;
+      })
       .addCase(logout.fulfilled, (state) => {
         state.user = null;
         state.token = null;
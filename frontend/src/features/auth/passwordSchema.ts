@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// Mirrors the API's basic rules; it also rejects common passwords and ones containing the user's name
+export const newPasswordSchema = z
+  .string()
+  .min(10, 'Password must be at least 10 characters')
+  .regex(/[a-z]/i, 'Password must contain both letters and numbers')
+  .regex(/\d/, 'Password must contain both letters and numbers');
+
+export const PASSWORD_HINT = 'At least 10 characters, with letters and numbers';
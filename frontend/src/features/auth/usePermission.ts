@@ -0,0 +1,8 @@
+import { useAppSelector } from '../../store/hooks';
+import type { Permission } from '../../types/api.types';
+
+// Whether the current user may perform an action; the API enforces the same matrix
+export const usePermission = (permission: Permission): boolean => {
+  const { user } = useAppSelector((state) => state.auth);
+  return user?.permissions?.includes(permission) ?? false;
+};
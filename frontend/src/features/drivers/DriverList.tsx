@@ -27,11 +27,14 @@ import { useAppDispatch, useAppSelector } from '../../store/hooks';
 import { fetchDrivers, deleteDriver } from './driversSlice';
 import { Driver } from '../../types/api.types';
 import DriverForm from './DriverForm';
+import { usePermission } from '../auth/usePermission';
 import toast from 'react-hot-toast';
 
 const DriverList: React.FC = () => {
   const dispatch = useAppDispatch();
   const { drivers, loading } = useAppSelector((state) => state.drivers);
+  const canWrite = usePermission('drivers:write');
+  const canDelete = usePermission('drivers:delete');
   
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedDriver, setSelectedDriver] = useState<Driver | null>(null);
@@ -130,22 +133,26 @@ const DriverList: React.FC = () => {
       sortable: false,
       renderCell: (params: GridRenderCellParams) => (
         <Box>
-          <Tooltip title="Edit">
-            <IconButton
-              size="small"
-              onClick={() => {
-                setSelectedDriver(params.row as Driver);
-                setFormOpen(true);
-              }}
-            >
-              <Edit fontSize="small" />
-            </IconButton>
-          </Tooltip>
-          <Tooltip title="Delete">
-            <IconButton size="small" onClick={() => handleDelete(params.row.id)}>
-              <Delete fontSize="small" color="error" />
-            </IconButton>
-          </Tooltip>
+          {canWrite && (
+            <Tooltip title="Edit">
+              <IconButton
+                size="small"
+                onClick={() => {
+                  setSelectedDriver(params.row as Driver);
+                  setFormOpen(true);
+                }}
+              >
+                <Edit fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          {canDelete && (
+            <Tooltip title="Delete">
+              <IconButton size="small" onClick={() => handleDelete(params.row.id)}>
+                <Delete fontSize="small" color="error" />
+              </IconButton>
+            </Tooltip>
+          )}
         </Box>
       ),
     },
@@ -162,16 +169,18 @@ const DriverList: React.FC = () => {
       <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 3 }}>
         <Typography variant="h4">Drivers</Typography>
         <Box sx={{ display: 'flex', gap: 1 }}>
-          <Button
-            variant="contained"
-            startIcon={<Add />}
-            onClick={() => {
-              setSelectedDriver(null);
-              setFormOpen(true);
-            }}
-          >
-            Add Driver
-          </Button>
+          {canWrite && (
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={() => {
+                setSelectedDriver(null);
+                setFormOpen(true);
+              }}
+            >
+              Add Driver
+            </Button>
+          )}
           <IconButton onClick={() => dispatch(fetchDrivers())}>
             <Refresh />
           </IconButton>
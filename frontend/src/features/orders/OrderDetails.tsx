@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Chip,
+  Button,
+  Alert,
+  Stack,
+  CircularProgress,
+  Divider,
+} from '@mui/material';
+import { Place, Restore, Save } from '@mui/icons-material';
+import type { AxiosError } from 'axios';
+import { ordersAPI } from '../../api/orders.api';
+import type { Order } from '../../types/api.types';
+import OrderMap from '../../components/maps/OrderMap';
+import EntityHistory from '../audit/EntityHistory';
+import RouteRecommendations from '../routes/RouteRecommendations';
+import { usePermission } from '../auth/usePermission';
+import toast from 'react-hot-toast';
+
+interface OrderDetailsProps {
+  order: Order;
+  onUpdated: (order: Order) => void;
+}
+
+const geocodeLabels = {
+  MANUAL: 'Set manually',
+  NOMINATIM: 'Geocoded (address)',
+  POSTAL_CODE: 'Geocoded (postal code)',
+};
+
+const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onUpdated }) => {
+  const [pin, setPin] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [nearby, setNearby] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [mapKey, setMapKey] = useState(0);
+
+  const canWrite = usePermission('orders:write');
+  const canAssign = usePermission('routes:write');
+  const canMovePin = canWrite && order.status !== 'DELIVERED' && order.status !== 'CANCELLED';
+  const hasLocation = order.latitude != null && order.longitude != null;
+
+  const handleDragEnd = async (_: Order, latitude: number, longitude: number) => {
+    setPin({ latitude, longitude });
+    setNearby(null);
+
+    try {
+      const location = await ordersAPI.reverseGeocode(latitude, longitude);
+      setNearby(location?.displayName ?? null);
+    } catch {
+      // The address hint is optional; the pin can still be saved
+    }
+  };
+
+  const handleReset = () => {
+    setPin(null);
+    setNearby(null);
+    setMapKey((key) => key + 1); // Remount to put the marker back
+  };
+
+  const handleSave = async () => {
+    if (!pin) return;
+
+    setSaving(true);
+    try {
+      const result = await ordersAPI.correctLocation(order.id, pin.latitude, pin.longitude);
+      toast.success('Location updated');
+      setWarnings(result.warnings);
+      setPin(null);
+      setNearby(null);
+      onUpdated(result.order);
+    } catch (error) {
+      toast.error((error as AxiosError<{ error?: string }>).response?.data?.error || 'Failed to update location');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Box sx={{ minWidth: { md: 600 } }}>
+      <Typography variant="h6">{order.orderNumber}</Typography>
+      <Typography color="text.secondary" gutterBottom>
+        {order.customerName} · {order.customerPhone}
+      </Typography>
+
+      <Typography>{order.address}</Typography>
+      <Typography gutterBottom>
+        {order.city} {order.postalCode} {order.country}
+      </Typography>
+
+      <Stack direction="row" spacing={1} sx={{ my: 2 }}>
+        <Chip label={order.status} size="small" />
+        <Chip label={order.priority} size="small" variant="outlined" />
+        {order.geocodeSource && (
+          <Chip
+            icon={<Place />}
+            label={
+              order.geocodeConfidence != null
+                ? `${geocodeLabels[order.geocodeSource]} · ${Math.round(Number(order.geocodeConfidence) * 100)}%`
+                : geocodeLabels[order.geocodeSource]
+            }
+            size="small"
+            color={order.geocodeSource === 'MANUAL' ? 'primary' : 'default'}
+          />
+        )}
+      </Stack>
+
+      {warnings.map((warning) => (
+        <Alert key={warning} severity="warning" sx={{ mb: 2 }}>
+          {warning}
+        </Alert>
+      ))}
+
+      {hasLocation ? (
+        <>
+          {canMovePin && (
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Drag the pin to correct the delivery location.
+            </Typography>
+          )}
+
+          <OrderMap
+            key={mapKey}
+            orders={[order]}
+            height="350px"
+            draggable={canMovePin}
+            onMarkerDragEnd={handleDragEnd}
+          />
+
+          {pin && (
+            <Box sx={{ mt: 2 }}>
+              <Typography variant="body2">
+                New location: {pin.latitude.toFixed(6)}, {pin.longitude.toFixed(6)}
+              </Typography>
+              {nearby && (
+                <Typography variant="body2" color="text.secondary">
+                  Near {nearby}
+                </Typography>
+              )}
+
+              <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+                <Button
+                  variant="contained"
+                  startIcon={saving ? <CircularProgress size={16} /> : <Save />}
+                  onClick={handleSave}
+                  disabled={saving}
+                >
+                  Save Location
+                </Button>
+                <Button startIcon={<Restore />} onClick={handleReset} disabled={saving}>
+                  Reset
+                </Button>
+              </Stack>
+            </Box>
+          )}
+        </>
+      ) : (
+        <Alert severity="info">
+          This order has no coordinates yet. Run geocoding or edit the address to place it on the map.
+        </Alert>
+      )}
+
+      {canAssign && hasLocation && order.status === 'PENDING' && (
+        <>
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle1" gutterBottom>
+            Assign to a route
+          </Typography>
+          <RouteRecommendations order={order} onAssigned={onUpdated} />
+        </>
+      )}
+
+      <Divider sx={{ my: 2 }} />
+      <EntityHistory entityType="Order" entityId={order.id} refreshKey={order.updatedAt} />
+    </Box>
+  );
+};
+
+export default OrderDetails;
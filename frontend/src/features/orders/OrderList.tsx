@@ -30,10 +30,12 @@ import {
 } from '@mui/icons-material';
 import { DataGrid, GridColDef, GridRenderCellParams } from '@mui/x-data-grid';
 import { useAppDispatch, useAppSelector } from '../../store/hooks';
-import { fetchOrders, deleteOrder } from './ordersSlice';
+import { fetchOrders, deleteOrder, updateOrderRealtime } from './ordersSlice';
 import { Order } from '../../types/api.types';
 import CSVUpload from './CSVUpload';
 import OrderForm from './OrderForm';
+import OrderDetails from './OrderDetails';
+import { usePermission } from '../auth/usePermission';
 import OrderMap from '../../components/maps/OrderMap';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
@@ -41,6 +43,8 @@ import toast from 'react-hot-toast';
 const OrderList: React.FC = () => {
   const dispatch = useAppDispatch();
   const { orders, loading } = useAppSelector((state) => state.orders);
+  const canWrite = usePermission('orders:write');
+  const canDelete = usePermission('orders:delete');
   
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('ALL');
@@ -147,19 +151,23 @@ const OrderList: React.FC = () => {
               <Visibility fontSize="small" />
             </IconButton>
           </Tooltip>
-          <Tooltip title="Edit">
-            <IconButton size="small" onClick={() => {
-              setSelectedOrder(params.row as Order);
-              setFormOpen(true);
-            }}>
-              <Edit fontSize="small" />
-            </IconButton>
-          </Tooltip>
-          <Tooltip title="Delete">
-            <IconButton size="small" onClick={() => handleDelete(params.row.id)}>
-              <Delete fontSize="small" color="error" />
-            </IconButton>
-          </Tooltip>
+          {canWrite && (
+            <Tooltip title="Edit">
+              <IconButton size="small" onClick={() => {
+                setSelectedOrder(params.row as Order);
+                setFormOpen(true);
+              }}>
+                <Edit fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          {canDelete && (
+            <Tooltip title="Delete">
+              <IconButton size="small" onClick={() => handleDelete(params.row.id)}>
+                <Delete fontSize="small" color="error" />
+              </IconButton>
+            </Tooltip>
+          )}
         </Box>
       ),
     },
@@ -182,17 +190,21 @@ const OrderList: React.FC = () => {
       <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 3 }}>
         <Typography variant="h4">Orders</Typography>
         <Box sx={{ display: 'flex', gap: 1 }}>
-          <CSVUpload onSuccess={() => dispatch(fetchOrders())} />
-          <Button
-            variant="contained"
-            startIcon={<Add />}
-            onClick={() => {
-              setSelectedOrder(null);
-              setFormOpen(true);
-            }}
-          >
-            Add Order
-          </Button>
+          {canWrite && (
+            <>
+              <CSVUpload onSuccess={() => dispatch(fetchOrders())} />
+              <Button
+                variant="contained"
+                startIcon={<Add />}
+                onClick={() => {
+                  setSelectedOrder(null);
+                  setFormOpen(true);
+                }}
+              >
+                Add Order
+              </Button>
+            </>
+          )}
         </Box>
       </Box>
 
@@ -248,7 +260,7 @@ const OrderList: React.FC = () => {
       {showMap && (
         <Card sx={{ mb: 2 }}>
           <CardContent>
-            <OrderMap orders={filteredOrders} height="400px" />
+            <OrderMap orders={filteredOrders} height="400px" showFleet />
           </CardContent>
         </Card>
       )}
@@ -289,10 +301,13 @@ const OrderList: React.FC = () => {
         <DialogTitle>Order Details</DialogTitle>
         <DialogContent>
           {selectedOrder && (
-            <Box>
-              {/* Add detailed order view here */}
-              <Typography>Order: {selectedOrder.orderNumber}</Typography>
-            </Box>
+            <OrderDetails
+              order={selectedOrder}
+              onUpdated={(order) => {
+                dispatch(updateOrderRealtime(order));
+                setSelectedOrder(order);
+              }}
+            />
           )}
         </DialogContent>
       </Dialog>
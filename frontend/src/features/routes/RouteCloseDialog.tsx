@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from '@mui/material';
+import type { AxiosError } from 'axios';
+import { routesAPI } from '../../api/routes.api';
+import type { Route, RouteStop } from '../../types/api.types';
+import { stopStatusColors } from './routeFormat';
+import toast from 'react-hot-toast';
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  (error as AxiosError<{ error?: string }>).response?.data?.error || fallback;
+
+const FINISHED_STOP_STATUSES: RouteStop['status'][] = ['DELIVERED', 'FAILED', 'SKIPPED'];
+
+// What completing the route turns an open stop into (never reached: skipped)
+const closingStatus = (status: RouteStop['status']): RouteStop['status'] =>
+  status === 'ARRIVED' ? 'FAILED' : 'SKIPPED';
+
+interface RouteCloseDialogProps {
+  open: boolean;
+  action: 'complete' | 'cancel';
+  route: Route;
+  onClose: () => void;
+  onClosed: (route: Route) => void;
+}
+
+// Confirms completing or cancelling a route and collects the reason
+const RouteCloseDialog: React.FC<RouteCloseDialogProps> = ({ open, action, route, onClose, onClosed }) => {
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleClose = () => {
+    setReason('');
+    onClose();
+  };
+
+  const openStops = [...route.stops]
+    .sort((a, b) => a.sequence - b.sequence)
+    .filter((stop) => !FINISHED_STOP_STATUSES.includes(stop.status));
+  const allDelivered = route.stops.every((stop) => stop.status === 'DELIVERED');
+  const cancelling = action === 'cancel';
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      const result = cancelling
+        ? await routesAPI.cancelRoute(route.id, reason.trim())
+        : await routesAPI.completeRoute(route.id, reason.trim() || undefined);
+      toast.success(result.message);
+      onClosed(result.route);
+      handleClose();
+    } catch (error) {
+      toast.error(errorMessage(error, cancelling ? 'Failed to cancel route' : 'Failed to complete route'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {cancelling ? 'Cancel' : 'Complete'} {route.routeNumber}
+      </DialogTitle>
+      <DialogContent>
+        {cancelling ? (
+          <Typography gutterBottom>
+            {openStops.length > 0
+              ? `${openStops.length} orders not yet delivered go back to pending so they can be planned again.`
+              : 'No orders are waiting on this route.'}
+          </Typography>
+        ) : allDelivered ? (
+          <Typography>Every stop was delivered. The route will be marked completed.</Typography>
+        ) : (
+          <>
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Not every stop was delivered, so the route will be marked partial.
+              {openStops.length > 0 && ' Stops without an outcome are closed as below.'}
+            </Alert>
+            {openStops.length > 0 && (
+              <List dense sx={{ maxHeight: 240, overflow: 'auto' }}>
+                {openStops.map((stop) => (
+                  <ListItem
+                    key={stop.id}
+                    secondaryAction={
+                      <Chip
+                        label={closingStatus(stop.status)}
+                        size="small"
+                        color={stopStatusColors[closingStatus(stop.status)]}
+                      />
+                    }
+                  >
+                    <ListItemText
+                      primary={`${stop.sequence}. ${stop.order.orderNumber} · ${stop.order.customerName}`}
+                      secondary={stop.status}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </>
+        )}
+
+        {(cancelling || openStops.length > 0) && (
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            margin="normal"
+            label={cancelling ? 'Reason' : 'Reason for unfinished stops'}
+            required={cancelling}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            helperText={cancelling ? undefined : 'Optional; recorded on every stop closed here'}
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={saving}>
+          Back
+        </Button>
+        <Button
+          variant="contained"
+          color={cancelling ? 'error' : 'success'}
+          onClick={handleSubmit}
+          disabled={saving || (cancelling && !reason.trim())}
+          startIcon={saving ? <CircularProgress size={16} /> : undefined}
+        >
+          {cancelling ? 'Cancel Route' : 'Complete Route'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RouteCloseDialog;
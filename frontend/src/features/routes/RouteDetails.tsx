@@ -0,0 +1,325 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Grid,
+  IconButton,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { ArrowBack, Edit, PlayArrow, CheckCircle, Cancel, Refresh, Restore, Save, SwapHoriz } from '@mui/icons-material';
+import { useNavigate, useParams } from 'react-router-dom';
+import type { AxiosError } from 'axios';
+import { routesAPI } from '../../api/routes.api';
+import type { Route, RouteResequence } from '../../types/api.types';
+import { useAppDispatch } from '../../store/hooks';
+import { updateRouteRealtime } from './routesSlice';
+import { usePermission } from '../auth/usePermission';
+import RouteMap from '../../components/maps/RouteMap';
+import EntityHistory from '../audit/EntityHistory';
+import RouteForm from './RouteForm';
+import RouteOptimizer from './RouteOptimizer';
+import RouteStopsTable from './RouteStopsTable';
+import RouteCloseDialog from './RouteCloseDialog';
+import { routeStatusColors, formatRouteDate, formatDistance, formatDuration } from './routeFormat';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  (error as AxiosError<{ error?: string }>).response?.data?.error || fallback;
+
+const RouteDetails: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const canWrite = usePermission('routes:write');
+
+  const [route, setRoute] = useState<Route | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [closeAction, setCloseAction] = useState<'complete' | 'cancel' | null>(null);
+  const [draft, setDraft] = useState<string[] | null>(null); // Stop IDs in the unsaved order
+  const [preview, setPreview] = useState<RouteResequence | null>(null);
+
+  const loadRoute = useCallback(async () => {
+    if (!id) return;
+
+    setLoading(true);
+    try {
+      setRoute(await routesAPI.getRoute(id));
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load route'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadRoute();
+  }, [loadRoute]);
+
+  // Totals for the dragged order, once the list has settled
+  useEffect(() => {
+    setPreview(null);
+    if (!draft || !id) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      routesAPI
+        .previewSequence(id, draft)
+        .then((result) => {
+          if (!cancelled) setPreview(result);
+        })
+        .catch((err) => {
+          if (!cancelled) toast.error(errorMessage(err, 'Failed to recalculate distance'));
+        });
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draft, id]);
+
+  // The map and table follow the dragged order before it is saved
+  const displayRoute = useMemo(() => {
+    if (!route || !draft) return route;
+
+    const stopsById = new Map(route.stops.map((stop) => [stop.id, stop]));
+    return {
+      ...route,
+      stops: draft.map((stopId, index) => ({ ...stopsById.get(stopId)!, sequence: index + 1 })),
+    };
+  }, [route, draft]);
+
+  const applyUpdate = (updated: Route) => {
+    // Responses without the depot keep the one already loaded
+    setRoute((current) => ({ ...updated, depot: updated.depot ?? current?.depot }));
+    dispatch(updateRouteRealtime(updated));
+    setDraft(null);
+  };
+
+  const handleSaveOrder = async () => {
+    if (!route || !draft) return;
+
+    setBusy(true);
+    try {
+      const result = await routesAPI.resequenceRoute(route.id, draft);
+      applyUpdate(result.route);
+      toast.success('Stop order saved');
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to save stop order'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<Route>, success: string, fallback: string) => {
+    setBusy(true);
+    try {
+      applyUpdate(await action());
+      toast.success(success);
+    } catch (err) {
+      toast.error(errorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading && !route) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!route || !displayRoute) {
+    return (
+      <Box>
+        <Button startIcon={<ArrowBack />} onClick={() => navigate('/routes')} sx={{ mb: 2 }}>
+          Routes
+        </Button>
+        <Alert severity="error">{error ?? 'Route not found'}</Alert>
+      </Box>
+    );
+  }
+
+  const stops = [...displayRoute.stops].sort((a, b) => a.sequence - b.sequence);
+  const delivered = stops.filter((stop) => stop.status === 'DELIVERED').length;
+  const isOpen = route.status === 'PENDING' || route.status === 'IN_PROGRESS';
+  const canOptimize = canWrite && isOpen && stops.length > 0;
+  const canReorder = canWrite && isOpen && stops.length > 1;
+
+  return (
+    <Box>
+      <Button startIcon={<ArrowBack />} onClick={() => navigate('/routes')} sx={{ mb: 2 }}>
+        Routes
+      </Button>
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, gap: 2 }}>
+        <Box>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Typography variant="h4">{route.routeNumber}</Typography>
+            <Chip label={route.status} color={routeStatusColors[route.status]} />
+          </Stack>
+          <Typography color="text.secondary">
+            {formatRouteDate(route.date)} · {route.driver?.name} ({route.driver?.vehicleType})
+            {route.depot && ` · from ${route.depot.name}`}
+          </Typography>
+          {route.notes && (
+            <Typography variant="body2" sx={{ mt: 1 }}>
+              {route.notes}
+            </Typography>
+          )}
+        </Box>
+
+        <Stack direction="row" spacing={1}>
+          {canWrite && isOpen && stops.length > 0 && (
+            <Button startIcon={<SwapHoriz />} onClick={() => navigate(`/routes/transfer?from=${route.id}`)}>
+              Transfer
+            </Button>
+          )}
+          {canWrite && route.status === 'PENDING' && (
+            <>
+              <Button startIcon={<Edit />} onClick={() => setFormOpen(true)} disabled={busy}>
+                Edit
+              </Button>
+              <Button
+                variant="contained"
+                startIcon={<PlayArrow />}
+                disabled={busy || stops.length === 0}
+                onClick={() => runAction(() => routesAPI.startRoute(route.id), 'Route started', 'Failed to start route')}
+              >
+                Start
+              </Button>
+            </>
+          )}
+          {canWrite && route.status === 'IN_PROGRESS' && (
+            <Button
+              variant="contained"
+              color="success"
+              startIcon={<CheckCircle />}
+              disabled={busy}
+              onClick={() => setCloseAction('complete')}
+            >
+              Complete
+            </Button>
+          )}
+          {canWrite && isOpen && (
+            <Button color="error" startIcon={<Cancel />} disabled={busy} onClick={() => setCloseAction('cancel')}>
+              Cancel Route
+            </Button>
+          )}
+          <IconButton onClick={loadRoute}>
+            <Refresh />
+          </IconButton>
+        </Stack>
+      </Box>
+
+      {route.status === 'CANCELLED' && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Cancelled{route.cancelledAt && ` on ${format(new Date(route.cancelledAt), 'MMM d, HH:mm')}`}
+          {route.cancelReason && `: ${route.cancelReason}`}
+        </Alert>
+      )}
+      {route.status === 'PARTIAL' && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Finished with {stops.length - delivered} of {stops.length} stops not delivered.
+        </Alert>
+      )}
+
+      <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap', gap: 1 }}>
+        <Chip label={`${delivered} / ${stops.length} delivered`} />
+        <Chip label={`Distance ${formatDistance(route.totalDistance)}`} />
+        <Chip label={`Estimated ${formatDuration(route.estimatedDuration)}`} />
+        {route.actualDuration != null && <Chip label={`Actual ${formatDuration(route.actualDuration)}`} />}
+      </Stack>
+
+      <Grid container spacing={3}>
+        <Grid size={{ xs: 12, md: canOptimize ? 8 : 12 }}>
+          <Card>
+            <RouteMap route={displayRoute} height="450px" showDriver={route.status === 'IN_PROGRESS'} />
+          </Card>
+        </Grid>
+        {canOptimize && (
+          <Grid size={{ xs: 12, md: 4 }}>
+            <RouteOptimizer route={route} onOptimized={applyUpdate} />
+          </Grid>
+        )}
+
+        <Grid size={12}>
+          <Card>
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1, gap: 2 }}>
+                <Box>
+                  <Typography variant="h6">Stops</Typography>
+                  {canReorder && !draft && (
+                    <Typography variant="body2" color="text.secondary">
+                      Drag stops to change the delivery order.
+                    </Typography>
+                  )}
+                  {draft && (
+                    <Typography variant="body2" color="text.secondary">
+                      {preview
+                        ? `New order: ${formatDistance(preview.totalDistance)} · ${formatDuration(preview.estimatedDuration)} (was ${formatDistance(route.totalDistance)} · ${formatDuration(route.estimatedDuration)})`
+                        : 'Recalculating distance…'}
+                    </Typography>
+                  )}
+                </Box>
+                {draft && (
+                  <Stack direction="row" spacing={1}>
+                    <Button startIcon={<Restore />} onClick={() => setDraft(null)} disabled={busy}>
+                      Reset
+                    </Button>
+                    <Button variant="contained" startIcon={<Save />} onClick={handleSaveOrder} disabled={busy}>
+                      Save Order
+                    </Button>
+                  </Stack>
+                )}
+              </Box>
+              {preview && preview.lateStops.length > 0 && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  In this order {preview.lateStops.length} stops arrive after their window:{' '}
+                  {preview.lateStops.map((stop) => `${stop.orderNumber} (+${stop.lateMinutes}m)`).join(', ')}
+                </Alert>
+              )}
+              {stops.length === 0 ? (
+                <Typography color="text.secondary">No orders assigned to this route yet.</Typography>
+              ) : (
+                <RouteStopsTable stops={stops} reorderable={canReorder} onReorder={setDraft} />
+              )}
+            </CardContent>
+          </Card>
+        </Grid>
+
+        <Grid size={12}>
+          <Card>
+            <CardContent>
+              <EntityHistory entityType="Route" entityId={route.id} refreshKey={route.updatedAt} />
+            </CardContent>
+          </Card>
+        </Grid>
+      </Grid>
+
+      <RouteForm open={formOpen} route={route} onClose={() => setFormOpen(false)} onSaved={applyUpdate} />
+      <RouteCloseDialog
+        open={closeAction !== null}
+        action={closeAction ?? 'complete'}
+        route={route}
+        onClose={() => setCloseAction(null)}
+        onClosed={applyUpdate}
+      />
+    </Box>
+  );
+};
+
+export default RouteDetails;
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Autocomplete,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField,
+  CircularProgress,
+} from '@mui/material';
+import { format } from 'date-fns';
+import type { AxiosError } from 'axios';
+import { useAppDispatch } from '../../store/hooks';
+import { createRoute, updateRoute } from './routesSlice';
+import { routesAPI } from '../../api/routes.api';
+import { driversAPI } from '../../api/drivers.api';
+import { ordersAPI } from '../../api/orders.api';
+import type { Driver, Order, Route } from '../../types/api.types';
+import { routeDay } from './routeFormat';
+import toast from 'react-hot-toast';
+
+interface RouteFormProps {
+  open: boolean;
+  route?: Route | null; // Edit when set, create otherwise
+  onClose: () => void;
+  onSaved?: (route: Route) => void;
+}
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  (error as AxiosError<{ error?: string }>).response?.data?.error ||
+  (typeof error === 'string' ? error : fallback);
+
+const RouteForm: React.FC<RouteFormProps> = ({ open, route, onClose, onSaved }) => {
+  const dispatch = useAppDispatch();
+  const isEdit = Boolean(route);
+
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [pendingOrders, setPendingOrders] = useState<Order[]>([]);
+  const [driverId, setDriverId] = useState('');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [notes, setNotes] = useState('');
+  const [returnToDepot, setReturnToDepot] = useState(true);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setDriverId(route?.driverId ?? '');
+    setDate(route ? routeDay(route.date) : format(new Date(), 'yyyy-MM-dd'));
+    setNotes(route?.notes ?? '');
+    setReturnToDepot(route?.returnToDepot ?? true);
+    setOrders([]);
+
+    driversAPI
+      .getDrivers({ isActive: true, limit: 200 })
+      .then(setDrivers)
+      .catch(() => toast.error('Failed to load drivers'));
+
+    // New routes can be filled with unassigned orders straight away
+    if (!route) {
+      ordersAPI
+        .getOrders({ status: 'PENDING', limit: 200 })
+        .then(setPendingOrders)
+        .catch(() => toast.error('Failed to load orders'));
+    }
+  }, [open, route]);
+
+  const handleSubmit = async () => {
+    const data = {
+      driverId,
+      date: new Date(date).toISOString(),
+      notes: notes || null,
+      returnToDepot,
+    };
+
+    setSaving(true);
+    try {
+      if (route) {
+        const updated = await dispatch(updateRoute({ id: route.id, data })).unwrap();
+        toast.success('Route updated');
+        onSaved?.(updated);
+      } else {
+        let created = await dispatch(createRoute(data)).unwrap();
+
+        if (orders.length > 0) {
+          const results = await routesAPI.assignOrders(created.id, orders.map((order) => order.id));
+          if (results.failed > 0) toast.error(`${results.failed} orders could not be assigned`);
+          created = await routesAPI.getRoute(created.id);
+        }
+
+        toast.success(`Route ${created.routeNumber} created`);
+        onSaved?.(created);
+      }
+      onClose();
+    } catch (error) {
+      toast.error(errorMessage(error, isEdit ? 'Failed to update route' : 'Failed to create route'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{isEdit ? `Edit ${route?.routeNumber}` : 'New Route'}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            select
+            label="Driver"
+            value={drivers.some((driver) => driver.id === driverId) ? driverId : ''}
+            onChange={(e) => setDriverId(e.target.value)}
+            required
+          >
+            {drivers.map((driver) => (
+              <MenuItem key={driver.id} value={driver.id}>
+                {driver.name} · {driver.vehicleType} · {driver.status}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <TextField
+            label="Date"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+            required
+          />
+
+          {!isEdit && (
+            <Autocomplete
+              multiple
+              options={pendingOrders}
+              value={orders}
+              onChange={(_, value) => setOrders(value)}
+              getOptionLabel={(order) => `${order.orderNumber} · ${order.customerName} · ${order.city}`}
+              isOptionEqualToValue={(option, value) => option.id === value.id}
+              renderInput={(params) => (
+                <TextField {...params} label="Orders" helperText="Unassigned orders to add as stops (optional)" />
+              )}
+            />
+          )}
+
+          <TextField
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            multiline
+            minRows={2}
+          />
+
+          <FormControlLabel
+            control={<Switch checked={returnToDepot} onChange={(e) => setReturnToDepot(e.target.checked)} />}
+            label="Return to depot at the end of the route"
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={saving || !driverId || !date}>
+          {saving ? <CircularProgress size={20} /> : isEdit ? 'Save' : 'Create'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RouteForm;
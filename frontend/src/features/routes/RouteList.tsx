@@ -0,0 +1,290 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  Chip,
+  IconButton,
+  Tooltip,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TablePagination,
+  TextField,
+  MenuItem,
+  Stack,
+  CircularProgress,
+  InputAdornment,
+} from '@mui/material';
+import { Add, Refresh, Edit, Delete, Visibility, Search, SwapHoriz } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import { fetchRoutes, deleteRoute } from './routesSlice';
+import { driversAPI } from '../../api/drivers.api';
+import type { Driver, Route, RouteFilters } from '../../types/api.types';
+import { usePermission } from '../auth/usePermission';
+import RouteForm from './RouteForm';
+import {
+  ROUTE_STATUSES,
+  routeStatusColors,
+  formatRouteDate,
+  formatDistance,
+  formatDuration,
+} from './routeFormat';
+import toast from 'react-hot-toast';
+
+const RouteList: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { routes, pagination, loading } = useAppSelector((state) => state.routes);
+
+  const canWrite = usePermission('routes:write');
+  const canDelete = usePermission('routes:delete');
+
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [filters, setFilters] = useState<RouteFilters>({ page: 1, limit: 20 });
+  const [search, setSearch] = useState('');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingRoute, setEditingRoute] = useState<Route | null>(null);
+
+  const loadRoutes = useCallback(() => {
+    dispatch(fetchRoutes(filters))
+      .unwrap()
+      .catch((error: string) => toast.error(error));
+  }, [dispatch, filters]);
+
+  useEffect(() => {
+    loadRoutes();
+  }, [loadRoutes]);
+
+  useEffect(() => {
+    driversAPI
+      .getDrivers({ limit: 200 })
+      .then(setDrivers)
+      .catch(() => {
+        // The driver filter is optional
+      });
+  }, []);
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((current) =>
+        (current.search ?? '') === search ? current : { ...current, search: search || undefined, page: 1 }
+      );
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const setFilter = <K extends keyof RouteFilters>(key: K, value: RouteFilters[K] | '') => {
+    setFilters((current) => ({ ...current, [key]: value || undefined, page: 1 }));
+  };
+
+  const handleDelete = async (route: Route) => {
+    if (!window.confirm(`Delete ${route.routeNumber}? Its orders go back to pending.`)) return;
+
+    try {
+      await dispatch(deleteRoute(route.id)).unwrap();
+      toast.success('Route deleted');
+    } catch (error) {
+      toast.error(error as string);
+    }
+  };
+
+  const openForm = (route: Route | null) => {
+    setEditingRoute(route);
+    setFormOpen(true);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 3 }}>
+        <Typography variant="h4">Routes</Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          {canWrite && (
+            <>
+              <Button startIcon={<SwapHoriz />} onClick={() => navigate('/routes/transfer')}>
+                Transfer Stops
+              </Button>
+              <Button variant="contained" startIcon={<Add />} onClick={() => openForm(null)}>
+                New Route
+              </Button>
+            </>
+          )}
+          <IconButton onClick={loadRoutes}>
+            <Refresh />
+          </IconButton>
+        </Box>
+      </Box>
+
+      <Card sx={{ p: 2, mb: 2 }}>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField
+            size="small"
+            placeholder="Route number or driver"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            slotProps={{
+              input: {
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <Search fontSize="small" />
+                  </InputAdornment>
+                ),
+              },
+            }}
+            sx={{ minWidth: 220 }}
+          />
+          <TextField
+            select
+            size="small"
+            label="Status"
+            value={filters.status ?? ''}
+            onChange={(e) => setFilter('status', e.target.value as Route['status'])}
+            sx={{ minWidth: 150 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            {ROUTE_STATUSES.map((status) => (
+              <MenuItem key={status} value={status}>
+                {status}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Driver"
+            value={filters.driverId ?? ''}
+            onChange={(e) => setFilter('driverId', e.target.value)}
+            sx={{ minWidth: 180 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            {drivers.map((driver) => (
+              <MenuItem key={driver.id} value={driver.id}>
+                {driver.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label="From"
+            type="date"
+            value={filters.from ?? ''}
+            onChange={(e) => setFilter('from', e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            size="small"
+            label="To"
+            type="date"
+            value={filters.to ?? ''}
+            onChange={(e) => setFilter('to', e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+        </Stack>
+      </Card>
+
+      <Card>
+        {loading && routes.length === 0 ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Route</TableCell>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Driver</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Stops</TableCell>
+                  <TableCell align="right">Distance</TableCell>
+                  <TableCell align="right">Est. Duration</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {routes.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} align="center" sx={{ py: 4, color: 'text.secondary' }}>
+                      No routes match these filters.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {routes.map((route) => {
+                  const delivered = route.stops.filter((stop) => stop.status === 'DELIVERED').length;
+
+                  return (
+                    <TableRow
+                      key={route.id}
+                      hover
+                      sx={{ cursor: 'pointer' }}
+                      onClick={() => navigate(`/routes/${route.id}`)}
+                    >
+                      <TableCell sx={{ fontWeight: 'bold' }}>{route.routeNumber}</TableCell>
+                      <TableCell>{formatRouteDate(route.date)}</TableCell>
+                      <TableCell>{route.driver?.name ?? '—'}</TableCell>
+                      <TableCell>
+                        <Chip label={route.status} size="small" color={routeStatusColors[route.status]} />
+                      </TableCell>
+                      <TableCell align="right">
+                        {route.status === 'PENDING' ? route.stops.length : `${delivered} / ${route.stops.length}`}
+                      </TableCell>
+                      <TableCell align="right">{formatDistance(route.totalDistance)}</TableCell>
+                      <TableCell align="right">{formatDuration(route.estimatedDuration)}</TableCell>
+                      <TableCell align="right" onClick={(e) => e.stopPropagation()}>
+                        <Tooltip title="View">
+                          <IconButton size="small" onClick={() => navigate(`/routes/${route.id}`)}>
+                            <Visibility fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        {canWrite && route.status === 'PENDING' && (
+                          <Tooltip title="Edit">
+                            <IconButton size="small" onClick={() => openForm(route)}>
+                              <Edit fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        {canDelete && route.status !== 'IN_PROGRESS' && (
+                          <Tooltip title="Delete">
+                            <IconButton size="small" onClick={() => handleDelete(route)}>
+                              <Delete fontSize="small" color="error" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <TablePagination
+              component="div"
+              count={pagination?.total ?? 0}
+              page={(filters.page ?? 1) - 1}
+              rowsPerPage={filters.limit ?? 20}
+              rowsPerPageOptions={[10, 20, 50]}
+              onPageChange={(_, page) => setFilters((current) => ({ ...current, page: page + 1 }))}
+              onRowsPerPageChange={(e) =>
+                setFilters((current) => ({ ...current, limit: Number(e.target.value), page: 1 }))
+              }
+            />
+          </>
+        )}
+      </Card>
+
+      <RouteForm
+        open={formOpen}
+        route={editingRoute}
+        onClose={() => setFormOpen(false)}
+        onSaved={() => loadRoutes()}
+      />
+    </Box>
+  );
+};
+
+export default RouteList;
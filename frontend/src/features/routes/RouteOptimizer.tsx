@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  MenuItem,
+  Slider,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { AutoFixHigh, ArrowUpward, ArrowDownward } from '@mui/icons-material';
+import { useAppDispatch } from '../../store/hooks';
+import { optimizeRoute } from './routesSlice';
+import type { OptimizationAlgorithm, Route, RouteOptimization } from '../../types/api.types';
+import { formatDistance, formatDuration, formatTime } from './routeFormat';
+import toast from 'react-hot-toast';
+
+interface RouteOptimizerProps {
+  route: Route;
+  onOptimized: (route: Route) => void;
+}
+
+const ALGORITHMS: { value: OptimizationAlgorithm; label: string }[] = [
+  { value: 'nearest_neighbor', label: 'Nearest neighbor (fast)' },
+  { value: 'two_opt', label: '2-opt' },
+  { value: 'or_opt', label: 'Or-opt' },
+  { value: 'two_opt_or_opt', label: '2-opt + Or-opt' },
+  { value: 'simulated_annealing', label: 'Simulated annealing (best, slowest)' },
+];
+
+interface SequenceRow {
+  orderId: string;
+  orderNumber: string;
+  before: number;
+  after: number;
+}
+
+// Stop positions before and after, in the new order
+const compareSequences = (before: Route, after: Route): SequenceRow[] => {
+  const positionBefore = new Map(
+    [...before.stops].sort((a, b) => a.sequence - b.sequence).map((stop, index) => [stop.orderId, index + 1])
+  );
+
+  return [...after.stops]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map((stop, index) => ({
+      orderId: stop.orderId,
+      orderNumber: stop.order.orderNumber,
+      before: positionBefore.get(stop.orderId) ?? index + 1,
+      after: index + 1,
+    }));
+};
+
+// Re-sequence a route's stops and show what changed
+const RouteOptimizer: React.FC<RouteOptimizerProps> = ({ route, onOptimized }) => {
+  const dispatch = useAppDispatch();
+
+  const [algorithm, setAlgorithm] = useState<OptimizationAlgorithm>('two_opt_or_opt');
+  const [timeWindowMode, setTimeWindowMode] = useState<'hard' | 'soft'>('soft');
+  const [priorityWeight, setPriorityWeight] = useState(1);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<{ optimization: RouteOptimization; sequence: SequenceRow[] } | null>(null);
+
+  const handleOptimize = async () => {
+    setRunning(true);
+    try {
+      const { route: optimized, optimization } = await dispatch(
+        optimizeRoute({ id: route.id, options: { algorithm, timeWindowMode, priorityWeight } })
+      ).unwrap();
+
+      setResult({ optimization, sequence: compareSequences(route, optimized) });
+      onOptimized(optimized);
+      toast.success('Route optimized');
+    } catch (error) {
+      toast.error(error as string);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const optimization = result?.optimization;
+  const moved = result?.sequence.filter((row) => row.before !== row.after).length ?? 0;
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Optimize
+        </Typography>
+
+        <Stack spacing={2}>
+          <TextField
+            select
+            size="small"
+            label="Algorithm"
+            value={algorithm}
+            onChange={(e) => setAlgorithm(e.target.value as OptimizationAlgorithm)}
+          >
+            {ALGORITHMS.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <TextField
+            select
+            size="small"
+            label="Time windows"
+            value={timeWindowMode}
+            onChange={(e) => setTimeWindowMode(e.target.value as 'hard' | 'soft')}
+            helperText="Hard never serves a stop late; soft allows it at a cost"
+          >
+            <MenuItem value="soft">Soft</MenuItem>
+            <MenuItem value="hard">Hard</MenuItem>
+          </TextField>
+
+          <Box>
+            <Typography variant="body2" gutterBottom>
+              Priority weight: {priorityWeight}
+            </Typography>
+            <Slider
+              value={priorityWeight}
+              min={0}
+              max={10}
+              step={0.5}
+              onChange={(_, value) => setPriorityWeight(value as number)}
+              size="small"
+            />
+          </Box>
+
+          <Button
+            variant="contained"
+            startIcon={running ? <CircularProgress size={16} /> : <AutoFixHigh />}
+            onClick={handleOptimize}
+            disabled={running}
+          >
+            Optimize Route
+          </Button>
+        </Stack>
+
+        {optimization && result && (
+          <Box sx={{ mt: 3 }}>
+            <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap', gap: 1 }}>
+              <Chip label={`Before: ${formatDistance(optimization.distanceBefore)}`} size="small" />
+              <Chip label={`After: ${formatDistance(optimization.distanceAfter)}`} size="small" color="primary" />
+              <Chip
+                label={`Saved ${formatDistance(optimization.distanceSaved)} (${optimization.improvementPercent}%)`}
+                size="small"
+                color={optimization.distanceSaved > 0 ? 'success' : 'default'}
+              />
+              <Chip label={`Duration ${formatDuration(optimization.estimatedDuration)}`} size="small" />
+            </Stack>
+
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {formatTime(optimization.startTime)} – {formatTime(optimization.endTime)} · {moved} of{' '}
+              {result.sequence.length} stops moved · {optimization.distanceProvider} distances
+            </Typography>
+
+            {optimization.lateStops.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {optimization.lateStops.length} stops arrive after their window:{' '}
+                {optimization.lateStops
+                  .map((stop) => `${stop.orderNumber} (+${Math.round(stop.lateMinutes)}m)`)
+                  .join(', ')}
+              </Alert>
+            )}
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Order</TableCell>
+                  <TableCell align="right">Before</TableCell>
+                  <TableCell align="right">After</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {result.sequence.map((row) => (
+                  <TableRow key={row.orderId}>
+                    <TableCell>{row.orderNumber}</TableCell>
+                    <TableCell align="right">{row.before}</TableCell>
+                    <TableCell align="right">
+                      <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}>
+                        {row.after < row.before && <ArrowUpward fontSize="inherit" color="success" />}
+                        {row.after > row.before && <ArrowDownward fontSize="inherit" color="action" />}
+                        {row.after}
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RouteOptimizer;
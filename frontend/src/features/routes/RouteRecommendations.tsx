@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { AltRoute } from '@mui/icons-material';
+import type { AxiosError } from 'axios';
+import { routesAPI } from '../../api/routes.api';
+import type { Order, RouteRecommendations as Recommendations } from '../../types/api.types';
+import { formatTime, routeStatusColors } from './routeFormat';
+import toast from 'react-hot-toast';
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  (error as AxiosError<{ error?: string }>).response?.data?.error || fallback;
+
+interface RouteRecommendationsProps {
+  order: Order;
+  onAssigned: (order: Order) => void;
+}
+
+// "Which driver should take this?" for a pending order, with one-click best insertion
+const RouteRecommendations: React.FC<RouteRecommendationsProps> = ({ order, onAssigned }) => {
+  const [mode, setMode] = useState<'soft' | 'hard'>('soft');
+  const [result, setResult] = useState<Recommendations | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [assigning, setAssigning] = useState<string | null>(null);
+
+  const load = async (timeWindowMode: 'soft' | 'hard') => {
+    setLoading(true);
+    try {
+      setResult(await routesAPI.getRecommendations(order.id, { timeWindowMode }));
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to find routes'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeMode = (value: 'soft' | 'hard' | null) => {
+    if (!value) return;
+    setMode(value);
+    if (result) load(value);
+  };
+
+  const assign = async (routeId: string, routeNumber: string) => {
+    setAssigning(routeId);
+    try {
+      const { results, insertions } = await routesAPI.insertOrders(routeId, [order.id], mode);
+      if (results.success === 0) {
+        toast.error(results.errors[0]?.error || 'Failed to assign order');
+        return;
+      }
+
+      const sequence = insertions.find((insertion) => insertion.orderId === order.id)?.sequence;
+      toast.success(sequence ? `Added to ${routeNumber} as stop ${sequence}` : `Added to ${routeNumber}`);
+      onAssigned({ ...order, status: 'ASSIGNED' });
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to assign order'));
+    } finally {
+      setAssigning(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={2} sx={{ alignItems: 'center', mb: 1 }}>
+        <Button
+          variant="outlined"
+          startIcon={loading ? <CircularProgress size={16} /> : <AltRoute />}
+          onClick={() => load(mode)}
+          disabled={loading}
+        >
+          {result ? 'Refresh Routes' : 'Find Best Route'}
+        </Button>
+        {order.timeWindow && (
+          <Tooltip title="Hard keeps time windows first; soft weighs lateness against driving time">
+            <ToggleButtonGroup size="small" exclusive value={mode} onChange={(_, value) => changeMode(value)}>
+              <ToggleButton value="soft">Soft</ToggleButton>
+              <ToggleButton value="hard">Hard</ToggleButton>
+            </ToggleButtonGroup>
+          </Tooltip>
+        )}
+      </Stack>
+
+      {result && result.candidates.length === 0 && (
+        <Alert severity="info">No pending or in-progress routes today.</Alert>
+      )}
+
+      {result && result.candidates.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Route</TableCell>
+              <TableCell>Driver</TableCell>
+              <TableCell>Insert after</TableCell>
+              <TableCell align="right">Extra</TableCell>
+              <TableCell>ETA</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {result.candidates.map((candidate) => {
+              const { insertion } = candidate;
+              const recommended = result.recommendation?.routeId === candidate.routeId;
+
+              return (
+                <TableRow key={candidate.routeId} selected={recommended}>
+                  <TableCell>
+                    <Stack direction="row" spacing={1} sx={{ alignItems: 'center' }}>
+                      <span>{candidate.routeNumber}</span>
+                      <Chip label={candidate.status} size="small" color={routeStatusColors[candidate.status]} />
+                      {recommended && <Chip label="Best" size="small" color="success" />}
+                    </Stack>
+                  </TableCell>
+                  <TableCell>
+                    {candidate.driver.name}
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {candidate.driver.vehicleType} · {candidate.remainingStops} stops left
+                    </Typography>
+                  </TableCell>
+                  {insertion ? (
+                    <>
+                      <TableCell>{insertion.insertAfter ?? 'Start'}</TableCell>
+                      <TableCell align="right">
+                        +{insertion.addedDistance.toFixed(1)} km · +{insertion.addedMinutes} min
+                        {insertion.addedLateMinutes > 0 && (
+                          <Typography variant="caption" color="error" display="block">
+                            +{insertion.addedLateMinutes} min late
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatTime(insertion.estimatedTime)}</TableCell>
+                    </>
+                  ) : (
+                    <TableCell colSpan={3}>
+                      <Typography variant="body2" color="text.secondary">
+                        {candidate.reason}
+                      </Typography>
+                    </TableCell>
+                  )}
+                  <TableCell align="right">
+                    {candidate.feasible && (
+                      <Button
+                        size="small"
+                        variant={recommended ? 'contained' : 'text'}
+                        disabled={assigning !== null}
+                        onClick={() => assign(candidate.routeId, candidate.routeNumber)}
+                      >
+                        {assigning === candidate.routeId ? <CircularProgress size={16} /> : 'Assign'}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
+export default RouteRecommendations;
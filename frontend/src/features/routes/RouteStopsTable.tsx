@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import {
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { DragIndicator, Lock } from '@mui/icons-material';
+import type { RouteStop } from '../../types/api.types';
+import { stopStatusColors, formatTime } from './routeFormat';
+
+interface RouteStopsTableProps {
+  stops: RouteStop[]; // In display order
+  reorderable?: boolean;
+  onReorder?: (stopIds: string[]) => void; // Called while dragging, for a live preview
+}
+
+// Started or finished stops stay where they are
+const isLocked = (stop: RouteStop): boolean => stop.status !== 'PENDING';
+
+const moveStop = (stops: RouteStop[], stopId: string, targetId: string): string[] | null => {
+  const ids = stops.map((stop) => stop.id);
+  const from = ids.indexOf(stopId);
+  const to = ids.indexOf(targetId);
+  if (from === -1 || to === -1 || from === to) return null;
+
+  ids.splice(to, 0, ...ids.splice(from, 1));
+
+  const lockedStopMoved = stops.some((stop, index) => isLocked(stop) && ids[index] !== stop.id);
+  return lockedStopMoved ? null : ids;
+};
+
+const RouteStopsTable: React.FC<RouteStopsTableProps> = ({ stops, reorderable = false, onReorder }) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  const handleDragOver = (event: React.DragEvent, targetId: string) => {
+    if (!draggingId) return;
+    event.preventDefault();
+
+    const reordered = moveStop(stops, draggingId, targetId);
+    if (reordered) onReorder?.(reordered);
+  };
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          {reorderable && <TableCell padding="checkbox" />}
+          <TableCell>#</TableCell>
+          <TableCell>Order</TableCell>
+          <TableCell>Customer</TableCell>
+          <TableCell>Address</TableCell>
+          <TableCell>Window</TableCell>
+          <TableCell>ETA</TableCell>
+          <TableCell>Actual</TableCell>
+          <TableCell>Status</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {stops.map((stop, index) => {
+          const canDrag = reorderable && !isLocked(stop);
+
+          return (
+            <TableRow
+              key={stop.id}
+              draggable={canDrag}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = 'move';
+                event.dataTransfer.setData('text/plain', stop.id); // Firefox only drags with data set
+                setDraggingId(stop.id);
+              }}
+              onDragOver={(event) => handleDragOver(event, stop.id)}
+              onDrop={(event) => event.preventDefault()}
+              onDragEnd={() => setDraggingId(null)}
+              sx={{
+                cursor: canDrag ? 'grab' : undefined,
+                opacity: draggingId === stop.id ? 0.5 : 1,
+              }}
+            >
+              {reorderable && (
+                <TableCell padding="checkbox">
+                  {canDrag ? (
+                    <DragIndicator fontSize="small" color="action" />
+                  ) : (
+                    <Tooltip title="Stops under way or finished can't be moved">
+                      <Lock fontSize="small" color="disabled" />
+                    </Tooltip>
+                  )}
+                </TableCell>
+              )}
+              <TableCell>{index + 1}</TableCell>
+              <TableCell>
+                {stop.order.orderNumber}
+                {stop.order.priority !== 'NORMAL' && (
+                  <Chip label={stop.order.priority} size="small" variant="outlined" sx={{ ml: 1 }} />
+                )}
+              </TableCell>
+              <TableCell>{stop.order.customerName}</TableCell>
+              <TableCell>
+                {stop.order.address}, {stop.order.city}
+              </TableCell>
+              <TableCell>{stop.order.timeWindow ?? '—'}</TableCell>
+              <TableCell>{formatTime(stop.estimatedTime)}</TableCell>
+              <TableCell>{formatTime(stop.actualTime)}</TableCell>
+              <TableCell>
+                <Chip label={stop.status} size="small" color={stopStatusColors[stop.status]} />
+                {stop.reason && (
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    {stop.reason}
+                  </Typography>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default RouteStopsTable;
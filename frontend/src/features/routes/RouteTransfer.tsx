@@ -0,0 +1,339 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Grid,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { ArrowBack, ArrowForward, SwapHoriz, RemoveCircleOutline } from '@mui/icons-material';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import type { AxiosError } from 'axios';
+import { routesAPI } from '../../api/routes.api';
+import type { Route } from '../../types/api.types';
+import RouteMap from '../../components/maps/RouteMap';
+import { formatRouteDate, formatDistance, formatDuration, routeStatusColors, stopStatusColors } from './routeFormat';
+import toast from 'react-hot-toast';
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  (error as AxiosError<{ error?: string }>).response?.data?.error || fallback;
+
+type Side = 'left' | 'right';
+
+interface TransferColumnProps {
+  label: string;
+  routes: Route[];     // Open routes to pick from
+  otherRouteId: string; // Chosen on the other side
+  route: Route | null;
+  selected: string[];
+  busy: boolean;
+  onSelectRoute: (routeId: string) => void;
+  onToggleStop: (stopId: string) => void;
+  onUnassign: () => void;
+}
+
+const TransferColumn: React.FC<TransferColumnProps> = ({
+  label,
+  routes,
+  otherRouteId,
+  route,
+  selected,
+  busy,
+  onSelectRoute,
+  onToggleStop,
+  onUnassign,
+}) => {
+  const stops = route ? [...route.stops].sort((a, b) => a.sequence - b.sequence) : [];
+
+  return (
+    <Card sx={{ height: '100%' }}>
+      <CardContent>
+        <TextField
+          select
+          fullWidth
+          size="small"
+          label={label}
+          value={route?.id ?? ''}
+          onChange={(e) => onSelectRoute(e.target.value)}
+        >
+          {routes
+            .filter((option) => option.id !== otherRouteId)
+            .map((option) => (
+              <MenuItem key={option.id} value={option.id}>
+                {option.routeNumber} · {option.driver?.name} · {formatRouteDate(option.date)}
+              </MenuItem>
+            ))}
+        </TextField>
+
+        {route && (
+          <>
+            <Stack direction="row" spacing={1} sx={{ my: 2, flexWrap: 'wrap', gap: 1 }}>
+              <Chip label={route.status} size="small" color={routeStatusColors[route.status]} />
+              <Chip label={`${stops.length} stops`} size="small" />
+              <Chip label={formatDistance(route.totalDistance)} size="small" />
+              <Chip label={formatDuration(route.estimatedDuration)} size="small" />
+            </Stack>
+
+            <RouteMap route={route} height="250px" showDriver={false} />
+
+            <List dense sx={{ mt: 1, maxHeight: 400, overflow: 'auto' }}>
+              {stops.length === 0 && (
+                <ListItem>
+                  <ListItemText secondary="No stops on this route." />
+                </ListItem>
+              )}
+              {stops.map((stop, index) => {
+                const movable = stop.status === 'PENDING';
+
+                return (
+                  <ListItem key={stop.id} disablePadding>
+                    <ListItemButton onClick={() => onToggleStop(stop.id)} disabled={!movable || busy} dense>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <Checkbox edge="start" size="small" checked={selected.includes(stop.id)} tabIndex={-1} />
+                      </ListItemIcon>
+                      <ListItemText
+                        primary={`${index + 1}. ${stop.order.orderNumber} · ${stop.order.customerName}`}
+                        secondary={`${stop.order.address}, ${stop.order.city}`}
+                      />
+                      {!movable && <Chip label={stop.status} size="small" color={stopStatusColors[stop.status]} />}
+                    </ListItemButton>
+                  </ListItem>
+                );
+              })}
+            </List>
+
+            <Button
+              size="small"
+              color="error"
+              startIcon={<RemoveCircleOutline />}
+              disabled={busy || selected.length === 0}
+              onClick={onUnassign}
+            >
+              Unassign {selected.length > 0 ? selected.length : ''} selected
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Two routes side by side: move, swap or unassign their pending stops
+const RouteTransfer: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  const [openRoutes, setOpenRoutes] = useState<Route[]>([]);
+  const [loadingRoutes, setLoadingRoutes] = useState(true);
+  const [routes, setRoutes] = useState<Record<Side, Route | null>>({ left: null, right: null });
+  const [selected, setSelected] = useState<Record<Side, string[]>>({ left: [], right: [] });
+  const [busy, setBusy] = useState(false);
+
+  const loadOpenRoutes = useCallback(async () => {
+    setLoadingRoutes(true);
+    try {
+      const [pending, inProgress] = await Promise.all([
+        routesAPI.getRoutes({ status: 'PENDING', limit: 100 }),
+        routesAPI.getRoutes({ status: 'IN_PROGRESS', limit: 100 }),
+      ]);
+      setOpenRoutes([...inProgress.routes, ...pending.routes]);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to fetch routes'));
+    } finally {
+      setLoadingRoutes(false);
+    }
+  }, []);
+
+  const selectRoute = useCallback(async (side: Side, routeId: string) => {
+    setSelected((current) => ({ ...current, [side]: [] }));
+    if (!routeId) {
+      setRoutes((current) => ({ ...current, [side]: null }));
+      return;
+    }
+
+    try {
+      const route = await routesAPI.getRoute(routeId);
+      setRoutes((current) => ({ ...current, [side]: route }));
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to load route'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOpenRoutes();
+  }, [loadOpenRoutes]);
+
+  // Opened from a route's page: start with that route on the left
+  useEffect(() => {
+    const routeId = searchParams.get('from');
+    if (routeId) selectRoute('left', routeId);
+  }, [searchParams, selectRoute]);
+
+  const toggleStop = (side: Side, stopId: string) =>
+    setSelected((current) => ({
+      ...current,
+      [side]: current[side].includes(stopId)
+        ? current[side].filter((id) => id !== stopId)
+        : [...current[side], stopId],
+    }));
+
+  const applyResult = (updated: Partial<Record<Side, Route>>) => {
+    setRoutes((current) => ({ ...current, ...updated }));
+    setSelected({ left: [], right: [] });
+    loadOpenRoutes(); // Stop counts and distances in the pickers
+  };
+
+  const run = async (action: () => Promise<Partial<Record<Side, Route>>>, success: string, fallback: string) => {
+    setBusy(true);
+    try {
+      applyResult(await action());
+      toast.success(success);
+    } catch (error) {
+      toast.error(errorMessage(error, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const { left, right } = routes;
+
+  const move = (from: Side) => {
+    const to: Side = from === 'left' ? 'right' : 'left';
+    const source = routes[from];
+    const target = routes[to];
+    if (!source || !target) return;
+
+    run(
+      async () => {
+        const result = await routesAPI.moveStops(source.id, selected[from], target.id);
+        return { [from]: result.route, [to]: result.targetRoute };
+      },
+      `Moved ${selected[from].length} stops to ${target.routeNumber}`,
+      'Failed to move stops'
+    );
+  };
+
+  const swap = () => {
+    if (!left || !right) return;
+
+    run(
+      async () => {
+        const result = await routesAPI.swapStops(left.id, selected.left, right.id, selected.right);
+        return { left: result.route, right: result.targetRoute };
+      },
+      'Stops swapped',
+      'Failed to swap stops'
+    );
+  };
+
+  const unassign = (side: Side) => {
+    const route = routes[side];
+    if (!route) return;
+    if (!window.confirm(`Unassign ${selected[side].length} stops? Their orders go back to pending.`)) return;
+
+    run(
+      async () => ({ [side]: await routesAPI.unassignStops(route.id, selected[side]) }),
+      `Unassigned ${selected[side].length} stops`,
+      'Failed to unassign stops'
+    );
+  };
+
+  return (
+    <Box>
+      <Button startIcon={<ArrowBack />} onClick={() => navigate('/routes')} sx={{ mb: 2 }}>
+        Routes
+      </Button>
+
+      <Typography variant="h4" gutterBottom>
+        Transfer Stops
+      </Typography>
+      <Typography color="text.secondary" sx={{ mb: 3 }}>
+        Pick two routes, select pending stops, then move or swap them. Distances and ETAs are recalculated on both
+        routes.
+      </Typography>
+
+      {loadingRoutes && openRoutes.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : openRoutes.length < 2 && !left ? (
+        <Alert severity="info">Transfers need at least two pending or in-progress routes.</Alert>
+      ) : (
+        <Grid container spacing={2} alignItems="stretch">
+          <Grid size={{ xs: 12, md: 5 }}>
+            <TransferColumn
+              label="From route"
+              routes={openRoutes}
+              otherRouteId={right?.id ?? ''}
+              route={left}
+              selected={selected.left}
+              busy={busy}
+              onSelectRoute={(routeId) => selectRoute('left', routeId)}
+              onToggleStop={(stopId) => toggleStop('left', stopId)}
+              onUnassign={() => unassign('left')}
+            />
+          </Grid>
+
+          <Grid size={{ xs: 12, md: 2 }}>
+            <Stack spacing={2} sx={{ height: '100%', justifyContent: 'center' }}>
+              <Button
+                variant="contained"
+                endIcon={<ArrowForward />}
+                disabled={busy || !left || !right || selected.left.length === 0}
+                onClick={() => move('left')}
+              >
+                Move
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={<SwapHoriz />}
+                disabled={busy || !left || !right || selected.left.length === 0 || selected.right.length === 0}
+                onClick={swap}
+              >
+                Swap
+              </Button>
+              <Button
+                variant="contained"
+                startIcon={<ArrowBack />}
+                disabled={busy || !left || !right || selected.right.length === 0}
+                onClick={() => move('right')}
+              >
+                Move
+              </Button>
+              {busy && <CircularProgress size={24} sx={{ alignSelf: 'center' }} />}
+            </Stack>
+          </Grid>
+
+          <Grid size={{ xs: 12, md: 5 }}>
+            <TransferColumn
+              label="To route"
+              routes={openRoutes}
+              otherRouteId={left?.id ?? ''}
+              route={right}
+              selected={selected.right}
+              busy={busy}
+              onSelectRoute={(routeId) => selectRoute('right', routeId)}
+              onToggleStop={(stopId) => toggleStop('right', stopId)}
+              onUnassign={() => unassign('right')}
+            />
+          </Grid>
+        </Grid>
+      )}
+    </Box>
+  );
+};
+
+export default RouteTransfer;
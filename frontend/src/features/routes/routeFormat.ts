@@ -0,0 +1,38 @@
+import { format, parseISO } from 'date-fns';
+import type { ChipProps } from '@mui/material';
+import type { Route, RouteStop } from '../../types/api.types';
+
+export const ROUTE_STATUSES: Route['status'][] = ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'PARTIAL', 'CANCELLED'];
+
+export const routeStatusColors: Record<Route['status'], ChipProps['color']> = {
+  PENDING: 'warning',
+  IN_PROGRESS: 'info',
+  COMPLETED: 'success',
+  PARTIAL: 'secondary',
+  CANCELLED: 'default',
+};
+
+export const stopStatusColors: Record<RouteStop['status'], ChipProps['color']> = {
+  PENDING: 'default',
+  EN_ROUTE: 'info',
+  ARRIVED: 'secondary',
+  DELIVERED: 'success',
+  FAILED: 'error',
+  SKIPPED: 'warning',
+};
+
+// Route dates are calendar days; read them without a timezone shift
+export const routeDay = (date: string): string => date.slice(0, 10);
+
+export const formatRouteDate = (date: string): string => format(parseISO(routeDay(date)), 'MMM d, yyyy');
+
+export const formatDistance = (km?: number | string | null): string =>
+  km == null ? '—' : `${Number(km).toFixed(1)} km`;
+
+export const formatDuration = (minutes?: number | null): string => {
+  if (minutes == null) return '—';
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+export const formatTime = (date?: string | null): string => (date ? format(new Date(date), 'HH:mm') : '—');
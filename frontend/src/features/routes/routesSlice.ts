@@ -1,51 +1,79 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import apiClient from '../../api/client';
-import { Route } from '../../types/api.types';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { AxiosError } from 'axios';
+import { routesAPI } from '../../api/routes.api';
+import type { RouteInput } from '../../api/routes.api';
+import type { OptimizeRouteOptions, Pagination, Route, RouteFilters } from '../../types/api.types';
 
 interface RoutesState {
   routes: Route[];
+  pagination: Pagination | null;
   loading: boolean;
   error: string | null;
 }
 
 const initialState: RoutesState = {
   routes: [],
+  pagination: null,
   loading: false,
   error: null,
 };
 
+const errorMessage = (error: unknown, fallback: string): string =>
+  (error as AxiosError<{ error?: string }>).response?.data?.error || fallback;
+
 export const fetchRoutes = createAsyncThunk(
   'routes/fetchRoutes',
-  async (_, { rejectWithValue }) => {
+  async (filters: RouteFilters | undefined, { rejectWithValue }) => {
     try {
-      const response = await apiClient.get<{ routes: Route[] }>('/routes');
-      return response.data.routes;
-    } catch (error: any) {
-      return rejectWithValue(error.response?.data?.error || 'Failed to fetch routes');
+      return await routesAPI.getRoutes(filters);
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to fetch routes'));
     }
   }
 );
 
 export const createRoute = createAsyncThunk(
   'routes/createRoute',
-  async (routeData: { driverId: string; orderIds: string[] }, { rejectWithValue }) => {
+  async (routeData: RouteInput, { rejectWithValue }) => {
+    try {
+      return await routesAPI.createRoute(routeData);
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to create route'));
+    }
+  }
+);
+
+export const updateRoute = createAsyncThunk(
+  'routes/updateRoute',
+  async ({ id, data }: { id: string; data: Partial<RouteInput> }, { rejectWithValue }) => {
+    try {
+      return await routesAPI.updateRoute(id, data);
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to update route'));
+    }
+  }
+);
+
+export const deleteRoute = createAsyncThunk(
+  'routes/deleteRoute',
+  async (id: string, { rejectWithValue }) => {
     try {
-      const response = await apiClient.post<{ route: Route }>('/routes', routeData);
-      return response.data.route;
-    } catch (error: any) {
-      return rejectWithValue(error.response?.data?.error || 'Failed to create route');
+      await routesAPI.deleteRoute(id);
+      return id;
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to delete route'));
     }
   }
 );
 
 export const optimizeRoute = createAsyncThunk(
   'routes/optimizeRoute',
-  async (routeId: string, { rejectWithValue }) => {
+  async ({ id, options }: { id: string; options?: OptimizeRouteOptions }, { rejectWithValue }) => {
     try {
-      const response = await apiClient.post<{ route: Route }>(`/routes/${routeId}/optimize`);
-      return response.data.route;
-    } catch (error: any) {
-      return rejectWithValue(error.response?.data?.error || 'Failed to optimize route');
+      return await routesAPI.optimizeRoute(id, options);
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to optimize route'));
     }
   }
 );
@@ -57,6 +85,12 @@ const routesSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    updateRouteRealtime: (state, action: PayloadAction<Route>) => {
+      const index = state.routes.findIndex(r => r.id === action.payload.id);
+      if (index !== -1) {
+        state.routes[index] = action.payload;
+      }
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -66,23 +100,33 @@ const routesSlice = createSlice({
       })
       .addCase(fetchRoutes.fulfilled, (state, action) => {
         state.loading = false;
-        state.routes = action.payload;
+        state.routes = action.payload.routes;
+        state.pagination = action.payload.pagination;
       })
       .addCase(fetchRoutes.rejected, (state, action) => {
         state.loading = false;
         state.error = action.payload as string;
       })
       .addCase(createRoute.fulfilled, (state, action) => {
-        state.routes.unshift(action.payload);
+        state.routes.unshift({ ...action.payload, stops: action.payload.stops ?? [] });
       })
-      .addCase(optimizeRoute.fulfilled, (state, action) => {
+      .addCase(updateRoute.fulfilled, (state, action) => {
         const index = state.routes.findIndex(r => r.id === action.payload.id);
         if (index !== -1) {
           state.routes[index] = action.payload;
         }
+      })
+      .addCase(deleteRoute.fulfilled, (state, action) => {
+        state.routes = state.routes.filter(r => r.id !== action.payload);
+      })
+      .addCase(optimizeRoute.fulfilled, (state, action) => {
+        const index = state.routes.findIndex(r => r.id === action.payload.route.id);
+        if (index !== -1) {
+          state.routes[index] = action.payload.route;
+        }
       });
   },
 });
 
-export const { clearError } = routesSlice.actions;
-export default routesSlice.reducer;
\ No newline at end of file
+export const { clearError, updateRouteRealtime } = routesSlice.actions;
+export default routesSlice.reducer;
@@ -0,0 +1,239 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  Chip,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  MenuItem,
+  Switch,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { PersonAdd, Refresh, Delete } from '@mui/icons-material';
+import type { AxiosError } from 'axios';
+import { usersAPI } from '../../api/users.api';
+import type { User } from '../../types/api.types';
+import { useAppSelector } from '../../store/hooks';
+import toast from 'react-hot-toast';
+
+const ROLES: User['role'][] = ['ADMIN', 'MANAGER', 'VIEWER'];
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  (error as AxiosError<{ error?: string }>).response?.data?.error || fallback;
+
+const UserList: React.FC = () => {
+  const { user: currentUser } = useAppSelector((state) => state.auth);
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [invite, setInvite] = useState({ name: '', email: '', role: 'VIEWER' as User['role'] });
+  const [inviting, setInviting] = useState(false);
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    setLoading(true);
+    try {
+      setUsers(await usersAPI.getUsers());
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to fetch users'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const replaceUser = (updated: User) =>
+    setUsers((current) => current.map((user) => (user.id === updated.id ? updated : user)));
+
+  const handleUpdate = async (id: string, data: Partial<Pick<User, 'role' | 'isActive'>>) => {
+    try {
+      replaceUser(await usersAPI.updateUser(id, data));
+      toast.success('User updated');
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to update user'));
+    }
+  };
+
+  const handleDelete = async (user: User) => {
+    if (!window.confirm(`Delete ${user.name}? They will no longer be able to sign in.`)) return;
+
+    try {
+      await usersAPI.deleteUser(user.id);
+      setUsers((current) => current.filter((u) => u.id !== user.id));
+      toast.success('User deleted');
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to delete user'));
+    }
+  };
+
+  const handleInvite = async () => {
+    setInviting(true);
+    try {
+      const result = await usersAPI.inviteUser(invite);
+      setUsers((current) => [...current, result.user]);
+      setTemporaryPassword(result.temporaryPassword);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to invite user'));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const closeInvite = () => {
+    setInviteOpen(false);
+    setTemporaryPassword(null);
+    setInvite({ name: '', email: '', role: 'VIEWER' });
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 3 }}>
+        <Typography variant="h4">Users</Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="contained" startIcon={<PersonAdd />} onClick={() => setInviteOpen(true)}>
+            Invite User
+          </Button>
+          <IconButton onClick={loadUsers}>
+            <Refresh />
+          </IconButton>
+        </Box>
+      </Box>
+
+      <Card>
+        {loading && users.length === 0 ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Email</TableCell>
+                <TableCell>Role</TableCell>
+                <TableCell>Active</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {users.map((user) => {
+                const isSelf = user.id === currentUser?.id;
+
+                return (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      {user.name}
+                      {isSelf && <Chip label="You" size="small" sx={{ ml: 1 }} />}
+                    </TableCell>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>
+                      <TextField
+                        select
+                        size="small"
+                        value={user.role}
+                        onChange={(e) => handleUpdate(user.id, { role: e.target.value as User['role'] })}
+                      >
+                        {ROLES.map((role) => (
+                          <MenuItem key={role} value={role}>
+                            {role}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={user.isActive}
+                        disabled={isSelf}
+                        onChange={(e) => handleUpdate(user.id, { isActive: e.target.checked })}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      {!isSelf && (
+                        <Tooltip title="Delete">
+                          <IconButton size="small" onClick={() => handleDelete(user)}>
+                            <Delete fontSize="small" color="error" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <Dialog open={inviteOpen} onClose={closeInvite} maxWidth="xs" fullWidth>
+        <DialogTitle>Invite User</DialogTitle>
+        <DialogContent>
+          {temporaryPassword ? (
+            <Alert severity="success" sx={{ mt: 1 }}>
+              Share this temporary password with {invite.email}. It will not be shown again.
+              <Typography sx={{ mt: 1, fontFamily: 'monospace', fontWeight: 'bold' }}>
+                {temporaryPassword}
+              </Typography>
+            </Alert>
+          ) : (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+              <TextField
+                label="Name"
+                value={invite.name}
+                onChange={(e) => setInvite({ ...invite, name: e.target.value })}
+              />
+              <TextField
+                label="Email"
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+              />
+              <TextField
+                select
+                label="Role"
+                value={invite.role}
+                onChange={(e) => setInvite({ ...invite, role: e.target.value as User['role'] })}
+              >
+                {ROLES.map((role) => (
+                  <MenuItem key={role} value={role}>
+                    {role}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeInvite}>{temporaryPassword ? 'Done' : 'Cancel'}</Button>
+          {!temporaryPassword && (
+            <Button
+              variant="contained"
+              onClick={handleInvite}
+              disabled={inviting || !invite.name || !invite.email}
+            >
+              {inviting ? <CircularProgress size={20} /> : 'Invite'}
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default UserList;
@@ -0,0 +1,65 @@
+import { useEffect, useMemo, useState } from 'react';
+import { driversAPI } from '../api/drivers.api';
+import { wsService } from '../services/websocket.service';
+import type { FleetDriver } from '../types/api.types';
+
+interface DriverLocationEvent {
+  driverId: string;
+  name: string;
+  status: FleetDriver['status'];
+  vehicleType: FleetDriver['vehicleType'];
+  routeId: string | null;
+  latitude: number;
+  longitude: number;
+  heading: number | null;
+  recordedAt: string;
+}
+
+// Last known driver positions, kept current by `driver:location` events
+export const useFleetLocations = (enabled = true): FleetDriver[] => {
+  const [fleet, setFleet] = useState<Record<string, FleetDriver>>({});
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    driversAPI
+      .getFleetLocations()
+      .then((drivers) => {
+        if (cancelled) return;
+        // Pings that arrived while loading are newer than the snapshot
+        setFleet((prev) => ({
+          ...Object.fromEntries(drivers.map((driver) => [driver.id, driver])),
+          ...prev,
+        }));
+      })
+      .catch((error) => console.error('Failed to fetch fleet locations:', error));
+
+    const handleLocation = (data: DriverLocationEvent) => {
+      setFleet((prev) => ({
+        ...prev,
+        [data.driverId]: {
+          id: data.driverId,
+          name: data.name,
+          status: data.status,
+          vehicleType: data.vehicleType,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          heading: data.heading,
+          recordedAt: data.recordedAt,
+          routeId: data.routeId,
+        },
+      }));
+    };
+
+    wsService.on('driver:location', handleLocation);
+
+    return () => {
+      cancelled = true;
+      wsService.off('driver:location', handleLocation);
+    };
+  }, [enabled]);
+
+  return useMemo(() => Object.values(fleet), [fleet]);
+};
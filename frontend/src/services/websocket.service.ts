@@ -1,22 +1,35 @@
 import { io, Socket } from 'socket.io-client';
 import toast from 'react-hot-toast';
+import { refreshAccessToken } from '../api/client';
+
+// Socket.IO lives on the API server root; a path in the URL would be read as a namespace
+const SOCKET_URL = new URL(import.meta.env.VITE_API_URL || 'http://localhost:5001/api').origin;
+
+type SocketListener = (data: any) => void;
 
 class WebSocketService {
   private socket: Socket | null = null;
+  // Subscriptions made before connect() are attached once the socket exists
+  private listeners = new Map<string, Set<SocketListener>>();
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
 
   connect(token: string): void {
     if (this.socket?.connected) return;
 
-    this.socket = io(import.meta.env.VITE_API_URL || 'http://localhost:5001', {
-      auth: { token },
+    this.socket = io(SOCKET_URL, {
+      // Reconnects pick up the latest access token after a refresh
+      auth: (callback) => callback({ token: localStorage.getItem('token') ?? token }),
       transports: ['websocket', 'polling'],
       reconnectionDelay: 1000,
       reconnectionDelayMax: 5000,
     });
 
     this.setupEventListeners();
+
+    this.listeners.forEach((callbacks, event) => {
+      callbacks.forEach((callback) => this.socket?.on(event, callback));
+    });
   }
 
   private setupEventListeners(): void {
@@ -30,8 +43,12 @@ class WebSocketService {
 
     this.socket.on('disconnect', (reason) => {
       console.log('❌ WebSocket disconnected:', reason);
+      // The server drops a socket when its access token expires, or when the
+      // user is deactivated (then the refresh fails and we stay disconnected)
       if (reason === 'io server disconnect') {
-        this.socket?.connect();
+        refreshAccessToken()
+          .then(() => this.socket?.connect())
+          .catch(() => toast.error('Real-time updates stopped. Please sign in again.'));
       }
     });
 
@@ -64,18 +81,36 @@ class WebSocketService {
     });
 
     this.socket.on('route:completed', (data) => {
-      toast.success(`Route ${data.routeNumber} completed! 🎉`);
+      if (data.status === 'PARTIAL') {
+        toast(`Route ${data.routeNumber} finished with undelivered stops`);
+      } else {
+        toast.success(`Route ${data.routeNumber} completed! 🎉`);
+      }
+    });
+
+    this.socket.on('route:cancelled', (data) => {
+      toast.error(`Route ${data.routeNumber} cancelled: ${data.cancelReason}`);
     });
   }
 
   // Subscribe to specific events
-  on(event: string, callback: (data: any) => void): void {
+  on(event: string, callback: SocketListener): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
     this.socket?.on(event, callback);
   }
 
-  // Unsubscribe from events
-  off(event: string): void {
-    this.socket?.off(event);
+  // Unsubscribe from events (all listeners when no callback is given)
+  off(event: string, callback?: SocketListener): void {
+    if (callback) {
+      this.listeners.get(event)?.delete(callback);
+      this.socket?.off(event, callback);
+    } else {
+      this.listeners.delete(event);
+      this.socket?.off(event);
+    }
   }
 
   // Emit events
@@ -1,9 +1,27 @@
+// Mirrors backend/src/config/permissions.ts
+export type Permission =
+  | 'orders:read'
+  | 'orders:write'
+  | 'orders:delete'
+  | 'drivers:read'
+  | 'drivers:write'
+  | 'drivers:delete'
+  | 'routes:read'
+  | 'routes:write'
+  | 'routes:delete'
+  | 'depots:read'
+  | 'depots:write'
+  | 'audit:read'
+  | 'users:manage';
+
 export interface User {
   id: string;
   email: string;
   name: string;
   role: 'ADMIN' | 'MANAGER' | 'VIEWER';
   isActive: boolean;
+  permissions?: Permission[]; // What the current user may do
+  createdAt?: string;
 }
 
 export interface LoginRequest {
@@ -12,10 +30,21 @@ export interface LoginRequest {
 }
 
 export interface LoginResponse {
-  token: string;
+  token: string;        // Short-lived access token
+  refreshToken: string; // Exchanged for new access tokens; rotates on every use
   user: User;
 }
 
+export interface RefreshResponse {
+  token: string;
+  refreshToken: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
 export interface Order {
   id: string;
   orderNumber: string;
@@ -25,15 +54,46 @@ export interface Order {
   address: string;
   city: string;
   postalCode: string;
+  country?: string | null;     // ISO 3166-1 alpha-2
   latitude?: number;
   longitude?: number;
+  geocodeSource?: 'MANUAL' | 'NOMINATIM' | 'POSTAL_CODE' | null;
+  geocodeConfidence?: number | null; // 0-1, geocoded coordinates only
+  geocodedAt?: string | null;        // Last geocoding attempt
   status: 'PENDING' | 'ASSIGNED' | 'IN_TRANSIT' | 'DELIVERED' | 'FAILED' | 'CANCELLED';
   priority: 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
   orderValue?: number;
+  weightKg?: number | null;    // Total weight of all parcels
+  lengthCm?: number | null;    // Dimensions of one parcel
+  widthCm?: number | null;
+  heightCm?: number | null;
+  parcelCount?: number;
+  timeWindow?: string | null;  // e.g., "09:00-12:00"
+  lastUpdatedBy?: string | null; // User ID of the last manual edit
   createdAt: string;
   updatedAt: string;
 }
 
+export type AuditEntityType = 'Order' | 'Driver' | 'Route' | 'RouteStop' | 'Depot' | 'User';
+
+export interface AuditLog {
+  id: string;
+  userId: string | null;
+  action: string; // e.g. ORDER_UPDATED
+  entityType: AuditEntityType;
+  entityId: string | null;
+  details: {
+    changes?: Record<string, { from: unknown; to: unknown }>; // Updates
+    before?: Record<string, unknown>; // Deletes
+    after?: Record<string, unknown>;  // Creates
+    [key: string]: unknown;
+  } | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  user: Pick<User, 'id' | 'name' | 'email'> | null;
+}
+
 export interface Driver {
   id: string;
   name: string;
@@ -42,6 +102,37 @@ export interface Driver {
   vehicleType: 'BIKE' | 'SCOOTER' | 'CAR' | 'VAN' | 'TRUCK';
   status: 'AVAILABLE' | 'ON_ROUTE' | 'OFF_DUTY' | 'UNAVAILABLE';
   isActive: boolean;
+  lastLatitude?: number;
+  lastLongitude?: number;
+  lastLocationAt?: string;
+  homeDepotId?: string | null;
+  capacityWeightKg?: number | null; // Null = vehicle type default
+  capacityVolumeM3?: number | null;
+  capacityParcels?: number | null;
+}
+
+export interface Depot {
+  id: string;
+  name: string;
+  address: string;
+  city: string;
+  postalCode: string;
+  latitude: number;
+  longitude: number;
+  operatingHours?: string | null; // e.g., "07:00-20:00"
+  isActive: boolean;
+}
+
+export interface FleetDriver {
+  id: string;
+  name: string;
+  status: Driver['status'];
+  vehicleType: Driver['vehicleType'];
+  latitude: number;
+  longitude: number;
+  heading?: number | null;
+  recordedAt: string;
+  routeId?: string | null;
 }
 
 export interface Route {
@@ -50,10 +141,21 @@ export interface Route {
   driverId: string;
   driver: Driver;
   date: string;
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
-  totalDistance?: number;
-  estimatedDuration?: number;
+  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED' | 'PARTIAL';
+  totalDistance?: number | null;     // km
+  estimatedDuration?: number | null; // minutes
+  actualDuration?: number | null;    // minutes
+  startTime?: string | null;
+  endTime?: string | null;
+  notes?: string | null;
+  depotId?: string | null;
+  depot?: Depot | null;
+  returnToDepot: boolean;
+  cancelledAt?: string | null;
+  cancelReason?: string | null;
   stops: RouteStop[];
+  createdAt?: string;
+  updatedAt?: string;
 }
 
 export interface RouteStop {
@@ -62,5 +164,111 @@ export interface RouteStop {
   orderId: string;
   order: Order;
   sequence: number;
-  status: 'PENDING' | 'EN_ROUTE' | 'DELIVERED' | 'FAILED';
-}
\ No newline at end of file
+  status: 'PENDING' | 'EN_ROUTE' | 'ARRIVED' | 'DELIVERED' | 'FAILED' | 'SKIPPED';
+  estimatedTime?: string | null;
+  actualTime?: string | null;
+  reason?: string | null; // Why the stop was failed or skipped
+}
+
+// Query parameters of GET /routes
+export interface RouteFilters {
+  page?: number;
+  limit?: number;
+  status?: Route['status'];
+  driverId?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  search?: string;
+}
+
+export interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export type OptimizationAlgorithm =
+  | 'nearest_neighbor'
+  | 'two_opt'
+  | 'or_opt'
+  | 'two_opt_or_opt'
+  | 'simulated_annealing';
+
+export interface OptimizeRouteOptions {
+  algorithm?: OptimizationAlgorithm;
+  timeWindowMode?: 'hard' | 'soft';
+  timeBudgetMs?: number;
+  priorityWeight?: number; // 0 ignores priorities
+}
+
+// Summary returned by POST /routes/:id/optimize
+export interface RouteOptimization {
+  totalDistance: number;
+  estimatedDuration: number;
+  stopsOptimized: number;
+  algorithm: OptimizationAlgorithm;
+  distanceProvider: string;
+  distanceBefore: number;
+  distanceAfter: number;
+  distanceSaved: number;
+  improvementPercent: number;
+  timeWindowMode: 'hard' | 'soft' | null;
+  startTime: string;
+  endTime: string;
+  totalWaitMinutes: number;
+  lateStops: {
+    orderId: string;
+    orderNumber: string;
+    estimatedTime: string;
+    lateMinutes: number;
+  }[];
+}
+
+// Totals for a manual stop order (PUT /routes/:id/sequence)
+export interface RouteResequence {
+  totalDistance: number;
+  estimatedDuration: number;
+  distanceBefore: number;
+  distanceProvider: string;
+  lateStops: {
+    orderId: string;
+    orderNumber: string;
+    estimatedTime: string;
+    lateMinutes: number;
+  }[];
+  stops: { stopId: string; sequence: number; estimatedTime: string | null }[];
+}
+
+export type InsertionMode = 'append' | 'best';
+
+// Where a new order fits into a route's remaining stops
+export interface RouteInsertion {
+  position: number; // Index in the stop list (0 = first stop)
+  insertAfter: string | null; // Order number of the stop before it
+  addedDistance: number;
+  addedMinutes: number;
+  addedLateMinutes: number;
+  estimatedTime: string;
+  lateStops: { orderId: string; orderNumber: string; lateMinutes: number }[];
+  distanceProvider: string;
+}
+
+export interface RouteCandidate {
+  routeId: string;
+  routeNumber: string;
+  status: Route['status'];
+  driver: Pick<Driver, 'id' | 'name' | 'vehicleType' | 'status'>;
+  remainingStops: number;
+  feasible: boolean;
+  reason: string | null;
+  score: number | null;
+  insertion: RouteInsertion | null;
+}
+
+export interface RouteRecommendations {
+  order: Pick<Order, 'id' | 'orderNumber' | 'priority' | 'timeWindow'>;
+  timeWindowMode: 'hard' | 'soft';
+  recommendation: RouteCandidate | null;
+  candidates: RouteCandidate[];
+}